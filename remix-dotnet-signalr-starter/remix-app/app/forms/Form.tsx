@@ -13,9 +13,19 @@ import { NormalizedList, NormalizedListGrid } from "./NormalizedList";
 
 type Validator = (value: string | undefined | null) => false | string[];
 
-interface FormField {
+/**
+ * Every dot path into a model type. Named lists (`Record<string, T>`) contribute
+ * `${string}.<field>` paths for their items' fields.
+ */
+export type ModelPath<T> = T extends object
+  ? string extends keyof T
+    ? `${string}.${ModelPath<T[string]>}`
+    : { [K in keyof T & string]-?: K | `${K}.${ModelPath<NonNullable<T[K]>>}` }[keyof T & string]
+  : never;
+
+export interface FormField<TLocation extends string = string> {
   name: string;
-  location: string; // dot path into model
+  location: TLocation; // dot path into model
   validators: Validator[];
   type: "text" | "list" | "currency" | "percent" | "number" | "select";
   [key: string]: any;
@@ -35,14 +45,15 @@ interface SubmitPayload {
   form: FormField[];
 }
 
-interface FormProps {
-  form: FormField[];
-  model: Record<string, unknown>;
+interface FormProps<TModel extends object> {
+  /** Null entries are skipped so conditional fields can be written inline. */
+  form: (FormField<ModelPath<TModel>> | null)[];
+  model: TModel;
   setModel: (m: any) => void;
-  completionStatusPath?: string;
+  completionStatusPath?: ModelPath<TModel>;
 }
 
-export function Form({ form, model, setModel, completionStatusPath }: FormProps): JSX.Element {
+export function Form<TModel extends object>({ form, model, setModel, completionStatusPath }: FormProps<TModel>): JSX.Element {
   const { stepApi, setStepState } = useActiveStep<StepStateMeta, StepApi>();
   const validationModel = useValidationModel();
   const [showAllValidation, setShowAllValidation] = useState(false);
@@ -88,7 +99,7 @@ export function Form({ form, model, setModel, completionStatusPath }: FormProps)
       )}
       <form>
         {formElements({
-          form,
+          form: form.filter((field): field is FormField<ModelPath<TModel>> => field !== null),
           model: model!,
           setModel,
           showAllValidation,
@@ -101,7 +112,7 @@ export function Form({ form, model, setModel, completionStatusPath }: FormProps)
 
 interface FormElementsParams {
   form: FormField[];
-  model: Record<string, unknown>;
+  model: object;
   setModel: (m: any) => void; // library likely gives us (next: any) => void
   showAllValidation: boolean;
   validationModel: any; // unknown library shape
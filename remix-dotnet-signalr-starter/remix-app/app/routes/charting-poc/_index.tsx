@@ -1,13 +1,56 @@
-import React from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Form } from "../../forms/Form";
+import { NormalizedList } from "../../forms/NormalizedList";
 import { ActiveStepContextProvider, useActiveStep, useStepIteration } from "../../steps";
-import FinancialChart from "./chart";
+import FinancialChart, { DisplayBasisContext, defaultCurrencyFormatter } from "./chart";
+import TornadoChart from "./tornado-chart";
+import LedgerTable from "./ledger-table";
+import type { ProjectionOptions } from "./chart-builders";
+import { projectInBackground, useProjection } from "./projection-client";
+import type { ProjectionArgs, ProjectionKind, ProjectionResult } from "./projections";
+import { parseDate } from "./projection-engine";
+import { DISPLAY_BASES, DISPLAY_BASIS_LABELS, displayBasisFrom } from "./display-basis";
+import { FILING_STATUSES, STATES, TAX_TREATMENTS } from "./tax";
+import { EARLIEST_CLAIMING_AGE, LATEST_CLAIMING_AGE } from "./social-security";
+import { ANNUITY_COLA_OPTIONS, annuityColaFrom, DEFAULT_LUMP_SUM_RATE } from "./annuities";
+import { EVENT_DIRECTIONS, eventDirectionFrom } from "./events";
+import { CONTRIBUTION_LIMIT_TYPES } from "./contributions";
+import { LIABILITY_KINDS } from "./liabilities";
+import { DEFAULT_MEDICAL_INFLATION, DEFAULT_PART_B_MONTHLY, DEFAULT_PART_D_MONTHLY, MEDICARE_AGE } from "./healthcare";
+import { HOUSEHOLD_MEMBERS, HOUSEHOLD_MODES, isCouple } from "./household";
+import { EXPENSE_GROWTH_OPTIONS, EXPENSE_KINDS, expenseGrowthFrom, expenseKindFrom, formatYearRanges } from "./expenses";
+import { WITHDRAWAL_STRATEGIES, WITHDRAWAL_STRATEGY_DEFINITIONS, withdrawalStrategyFrom } from "./withdrawal-strategies";
+import { WITHDRAWAL_ORDERS, WITHDRAWAL_PLAN_MODES, withdrawalPlanModeFrom } from "./withdrawal-sequencing";
+import { buildPercentileFanChart, DEFAULT_SEED, DEFAULT_TRIALS } from "./monte-carlo";
 import {
-  buildWageMonthlyIncomeChart,
-  buildInvestmentBalanceAndWithdrawalChart,
-  buildAnnuityMonthlyIncomeChart,
-  buildTotalInvestmentAggregates
-} from "./chart-builders";
+  buildCohortOutcomeChart,
+  buildWorstCohortChart,
+  DEFAULT_STOCK_ALLOCATION
+} from "./historical-backtest";
+import {
+  ALL_INVESTMENTS,
+  eligibleInvestmentsFor,
+  GOAL_SEEK_TARGETS,
+  GOAL_SEEK_VARIABLES,
+  goalSeekTargetFrom,
+  goalSeekVariableFrom,
+  type GoalSeekResult
+} from "./goal-seek";
+import { buildTornadoChart, DEFAULT_RATE_STEP, DEFAULT_YEAR_STEP } from "./sensitivity";
+import {
+  activeScenarioFrom,
+  applyScenarioEdit,
+  BASE_SCENARIO,
+  scenarioModelFrom,
+  scenarioNamesFrom
+} from "./scenarios";
+import {
+  migrateRetirementModel,
+  RETIREMENT_MODEL_STORAGE_KEY,
+  type CollectionKey,
+  type ItemPath,
+  type RetirementModel
+} from "./retirement-model";
 import { get, useLocalStorageState } from "leaf-validator";
 
 const errorHandled = (action: () => Promise<void>) => async (): Promise<void> => {
@@ -34,7 +77,11 @@ const Validators = {
   isDate: (value: string | undefined | null) => value && /^\d{2}\/\d{2}\/\d{4}$/.test(value.toString())
     ? false
     : ["Date must be in MM/DD/YYYY format"],
-  isFutureOrCurrentDate: (value: string | undefined | null) => {
+  isOptionalDate: (value: string | undefined | null) => !value || /^\d{2}\/\d{2}\/\d{4}$/.test(value.toString())
+    ? false
+    : ["Date must be in MM/DD/YYYY format"],
+  /** On or after the plan's as-of date, or today when the plan has none. */
+  isOnOrAfterPlanStart: (asOfDate: string | undefined) => (value: string | undefined | null) => {
     if (!value || !/^\d{2}\/\d{2}\/\d{4}$/.test(value.toString())) return ["Date must be in MM/DD/YYYY format"];
     const parts = value.split('/');
     const month = parseInt(parts[0], 10) - 1;
@@ -47,44 +94,481 @@ const Validators = {
       return ["Date is not a valid calendar day"];
     }
 
+    const asOf = parseDate(asOfDate);
+    if (asOf) return date >= new Date(asOf.year, asOf.month - 1, asOf.day) ? false : [`Date must be on or after the plan's as-of date (${asOfDate})`];
+
     // Normalize 'now' to the start of today so that the current calendar date passes.
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
     return date >= today ? false : ["Date must be in the future or current"];
+  },
+  isOptionalOnOrAfterPlanStart: (asOfDate: string | undefined) => (value: string | undefined | null) =>
+    !value ? false : Validators.isOnOrAfterPlanStart(asOfDate)(value),
+  isBetween: (min: number, max: number) => (value: string | undefined | null) => {
+    if (value === null || value === undefined || value.toString().trim() === "") return false;
+    const n = Number(value);
+    return isFinite(n) && n >= min && n <= max ? false : [`Value must be between ${min} and ${max}`];
   }
 }
 
-function stepDetailsFromName(stepName: string): { name: string; stepId?: string; path?: string } {
-  if (!stepName.includes(": ")) {
+/** Model collection key for each dynamic step category ("Social Security: X" => socialSecurity.items.X). */
+const STEP_CATEGORY_LOCATIONS: Record<string, CollectionKey> = {
+  "Wages": "wages",
+  "Investments": "investments",
+  "Annuities": "annuities",
+  "Social Security": "socialSecurity",
+  "Expenses": "expenses",
+  "One-Time Events": "events",
+  "Liabilities": "liabilities",
+};
+
+function stepDetailsFromName(stepName: string): { name: string; stepId?: string; path?: ItemPath } {
+  const [category, ...rest] = stepName.split(": ");
+  const location = STEP_CATEGORY_LOCATIONS[category];
+  if (!rest.length || !location) {
     return { name: stepName };
   }
-  const [category, ...rest] = stepName.split(": ");
   const name = rest.join(": ").trim();
-  const path = `${category.toLowerCase()}.items.${name}`;
+  const path: ItemPath = `${location}.items.${name}`;
 
   return { name, path, stepId: stepName };
 };
 
+const MONTE_CARLO_MODE = "Monte Carlo";
+const HISTORICAL_MODE = "Historical Backtest";
+const PROJECTION_MODES = ["Deterministic", MONTE_CARLO_MODE, HISTORICAL_MODE];
+const MONTHLY_DETAIL = "Monthly";
+const CHART_DETAILS = ["Yearly", MONTHLY_DETAIL];
+
+/** Stand-in for a projection that has no result yet. */
+function ProjectionPlaceholder({ pending }: { pending: boolean }): JSX.Element {
+  return <div className="loading-indicator" role="status">{pending ? "Projecting…" : "Projection unavailable"}</div>;
+}
+
+/** Renders a projection's result, dimmed while a newer one is computing in the background. */
+function Projected<K extends ProjectionKind>({ kind, args, className, style, children }: {
+  kind: K;
+  args: ProjectionArgs<K>;
+  className?: string;
+  style?: React.CSSProperties;
+  children: (result: ProjectionResult<K>) => React.ReactNode;
+}): JSX.Element {
+  const { result, pending } = useProjection(kind, args);
+  return (
+    <div className={className} style={{ ...style, opacity: pending && result ? 0.6 : undefined }} aria-busy={pending}>
+      {result ? children(result) : <ProjectionPlaceholder pending={pending} />}
+    </div>
+  );
+}
+
+/** Percentile fan charts + success probability for the Monte Carlo projection mode. */
+function MonteCarloSummary({ model }: { model: RetirementModel }): JSX.Element {
+  const { result, pending } = useProjection("monteCarlo", [model]);
+  if (!result) return <ProjectionPlaceholder pending={pending} />;
+  const incomeChart = buildPercentileFanChart(result, 'income', 'Real Monthly Income');
+  const balanceChart = buildPercentileFanChart(result, 'balance', 'Real Balance');
+  return (
+    <>
+      <div>
+        Monte Carlo ({result.trials.toLocaleString()} trials)
+        {result.successProbability !== undefined && (
+          <div style={{ fontSize: '1.5rem', fontWeight: 600 }}>
+            {Math.round(result.successProbability * 100)}% probability of not running out of money
+          </div>
+        )}
+      </div>
+      Simulated Monthly Income (10th / 50th / 90th percentile)
+      <FinancialChart {...incomeChart} title="Monte Carlo: Simulated Monthly Income" />
+      Simulated Balance (10th / 50th / 90th percentile)
+      <FinancialChart {...balanceChart} title="Monte Carlo: Simulated Balance" />
+    </>
+  );
+}
+
+const currencyFormatter = defaultCurrencyFormatter('USD');
+const formatCurrency = (value: number): string => currencyFormatter.format(value);
+
+/** Employee vs. employer-match contributions over the plan, per account and in total. */
+function ContributionSummary({ model }: { model: RetirementModel }): JSX.Element | null {
+  const { result: summary } = useProjection("contributionSummary", [model]);
+  if (!summary?.rows.length) return null;
+  const total = summary.employee + summary.employerMatch;
+  return (
+    <>
+      <div>
+        Contributions
+        <div role="status">
+          {total > 0
+            ? <>Employer match is <strong>{Math.round(summary.employerMatch / total * 100)}%</strong> of the {formatCurrency(total)} contributed.</>
+            : <>No contributions are made before the linked wages stop.</>}
+        </div>
+      </div>
+      <table className="data-table">
+        <thead>
+          <tr><th>Investment</th><th>Employee</th><th>Employer Match</th><th>Total</th><th>IRS Limit Reached</th></tr>
+        </thead>
+        <tbody>
+          {summary.rows.map(row => (
+            <tr key={row.name}>
+              <td>{row.name}</td>
+              <td>{formatCurrency(row.employee)}</td>
+              <td>{formatCurrency(row.employerMatch)}</td>
+              <td>{formatCurrency(row.employee + row.employerMatch)}</td>
+              <td>{row.limitedYears.length ? formatYearRanges(row.limitedYears) : "Never"}</td>
+            </tr>
+          ))}
+          <tr>
+            <th scope="row">Total</th>
+            <td>{formatCurrency(summary.employee)}</td>
+            <td>{formatCurrency(summary.employerMatch)}</td>
+            <td>{formatCurrency(total)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+/** Outcomes of replaying the plan from every historical start year, with the worst cohorts called out. */
+function HistoricalBacktestSummary({ model }: { model: RetirementModel }): JSX.Element {
+  const { result, pending } = useProjection("historicalBacktest", [model]);
+  if (!result) return <ProjectionPlaceholder pending={pending} />;
+  if (!result.cohorts.length) {
+    return <div>Historical Backtest: the plan needs at least one investment and must fit within the bundled market history.</div>;
+  }
+  const first = result.cohorts[0].startYear;
+  const last = result.cohorts[result.cohorts.length - 1].startYear;
+  return (
+    <>
+      <div>
+        Historical Backtest ({result.cohorts.length} start years, {first}–{last})
+        {result.successRate !== undefined && (
+          <div style={{ fontSize: '1.5rem', fontWeight: 600 }}>
+            {Math.round(result.successRate * 100)}% of historical start years never ran out of money
+          </div>
+        )}
+      </div>
+      Outcome by Historical Start Year
+      <FinancialChart {...buildCohortOutcomeChart(result)} title="Outcome by Historical Start Year" />
+      Worst Start Years (Real Balance)
+      <FinancialChart {...buildWorstCohortChart(result)} title="Worst Historical Start Years" />
+      <table className="data-table">
+        <thead>
+          <tr><th>Start Year</th><th>Ending Real Balance</th><th>Lowest Real Balance</th><th>Ran Out In</th></tr>
+        </thead>
+        <tbody>
+          {result.worstCohorts.map(c => (
+            <tr key={c.startYear}>
+              <td>{c.startYear}</td>
+              <td>{formatCurrency(c.endingRealBalance)}</td>
+              <td>{formatCurrency(c.lowestRealBalance)}</td>
+              <td>{c.depletionYear ?? "Never"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+/**
+ * Goal seek: pick one input and a target, solve on demand and apply the answer to the plan.
+ * A result is only shown for the plan it was solved against, so edits (or applying it) clear it.
+ */
+function GoalSeekPanel({ model, setModel }: { model: RetirementModel; setModel: (model: RetirementModel) => void }): JSX.Element {
+  const [solved, setSolved] = useState<{ source: RetirementModel; result: GoalSeekResult }>();
+  const [solving, setSolving] = useState<RetirementModel>();
+  const variable = goalSeekVariableFrom(model.goalSeek?.variable);
+  const target = goalSeekTargetFrom(model.goalSeek?.target);
+  const investments = variable === "Earliest Retirement Date" ? [] : eligibleInvestmentsFor(variable, model);
+  const result = solved?.source === model ? solved.result : undefined;
+  const solve = async (): Promise<void> => {
+    const source = model;
+    setSolving(source);
+    try {
+      setSolved({ source, result: await projectInBackground("goalSeek", [source]) });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn("Goal seek failed:", error);
+    } finally {
+      setSolving(current => current === source ? undefined : current);
+    }
+  };
+  return (
+    <>
+      Goal Seek
+      <Form key="goal-seek" model={model} setModel={setModel} form={[
+        {
+          name: "Solve For",
+          location: "goalSeek.variable",
+          validators: [],
+          type: "select",
+          items: GOAL_SEEK_VARIABLES
+        },
+        {
+          name: "Target",
+          location: "goalSeek.target",
+          validators: [],
+          type: "select",
+          items: GOAL_SEEK_TARGETS
+        },
+        target === "Real Monthly Income At Least" ? {
+          name: "Real Monthly Income ($ / month, today's dollars)",
+          location: "goalSeek.targetIncome",
+          validators: [],
+          type: "currency"
+        } : null,
+        investments.length > 1 ? {
+          name: "Investment",
+          location: "goalSeek.investment",
+          validators: [],
+          type: "select",
+          items: [ALL_INVESTMENTS, ...investments]
+        } : null
+      ]} />
+      {target === "Balance Never Runs Out" && (
+        <div className="step-meta">
+          The balance runs out when it reaches zero, or when its real after-tax value drops below one year of the
+          withdrawals it paid in the first full year of retirement.
+        </div>
+      )}
+      <div className="flex gap-sm" style={{ alignItems: 'center' }}>
+        <button type="button" className="btn btn-secondary" disabled={solving === model} onClick={solve}>
+          {solving === model ? "Solving…" : "Solve"}
+        </button>
+        {result?.model && (
+          <button type="button" className="btn btn-primary" onClick={() => setModel(result.model!)}>
+            Apply to Plan
+          </button>
+        )}
+      </div>
+      {result && (
+        <div role="status" className={result.solved ? undefined : "alert alert-warning"}>
+          {result.message}
+          <div className="step-meta">{result.evaluations.toLocaleString()} projections run</div>
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Tornado charts ranking how much each assumption moves the end-of-plan balance and retirement income. */
+function SensitivitySummary({ model, setModel }: { model: RetirementModel; setModel: (model: RetirementModel) => void }): JSX.Element {
+  const { result, pending } = useProjection("sensitivity", [model]);
+  return (
+    <>
+      Sensitivity
+      <Form key="sensitivity" model={model} setModel={setModel} form={[
+        {
+          name: `Move Rates By (%, default ${DEFAULT_RATE_STEP * 100})`,
+          location: "sensitivity.rateStep",
+          validators: [],
+          type: "percent"
+        },
+        {
+          name: `Move Dates and Horizon By (years, default ${DEFAULT_YEAR_STEP})`,
+          location: "sensitivity.yearStep",
+          validators: [],
+          type: "number"
+        }
+      ]} />
+      {!result
+        ? <ProjectionPlaceholder pending={pending} />
+        : result.rows.length === 0
+        ? <div className="step-meta">Add investments or income to see which assumptions matter most.</div>
+        : <div className="flex" style={{ gap: '1rem', flexWrap: 'wrap' }}>
+          <div style={{ flex: '1 1 420px', minWidth: 0 }}>
+            Ending Real Balance
+            <TornadoChart {...buildTornadoChart(result, 'endingRealBalance', 'Ending Real Balance')} />
+          </div>
+          <div style={{ flex: '1 1 420px', minWidth: 0 }}>
+            Average Real Monthly Income in Retirement
+            <TornadoChart {...buildTornadoChart(result, 'averageRealIncome', 'Average Real Monthly Income')} />
+          </div>
+        </div>}
+    </>
+  );
+}
+
+/** Create, delete and pick the scenario the wizard edits. */
+function ScenarioBar({ base, setBase }: { base: RetirementModel; setBase: (update: (base: RetirementModel) => RetirementModel) => void }): JSX.Element {
+  const active = activeScenarioFrom(base);
+  const changedCount = Object.keys((active && base.scenarios?.items?.[active]?.overrides) ?? {}).length;
+  return (
+    <div className="flex gap-sm" style={{ alignItems: 'flex-start', flexWrap: 'wrap' }}>
+      <label>
+        Editing
+        <select
+          className="form-control"
+          value={active ?? ""}
+          onChange={e => { const activeScenario = e.target.value; setBase(b => ({ ...b, activeScenario })); }}
+        >
+          <option value="">{BASE_SCENARIO}</option>
+          {scenarioNamesFrom(base).map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        {active && (
+          <div className="step-meta">
+            Changes here only affect "{active}" ({changedCount} field{changedCount === 1 ? "" : "s"} differ from the {BASE_SCENARIO.toLowerCase()}).
+          </div>
+        )}
+      </label>
+      <label>
+        Scenarios
+        <NormalizedList
+          placeholder="[Scenario Name]"
+          items={base.scenarios?.items ?? {}}
+          setItems={items => setBase(b => ({ ...b, scenarios: { ...b.scenarios, items } }))}
+        />
+      </label>
+    </div>
+  );
+}
+
+/** Switches every chart between nominal, after-tax and real amounts; applies to the base plan and all scenarios. */
+function DisplayBasisBar({ base, setBase }: { base: RetirementModel; setBase: (update: (base: RetirementModel) => RetirementModel) => void }): JSX.Element {
+  return (
+    <label>
+      Show Amounts
+      <select
+        className="form-control"
+        value={displayBasisFrom(base.displayBasis)}
+        onChange={e => { const displayBasis = displayBasisFrom(e.target.value); setBase(b => ({ ...b, displayBasis })); }}
+      >
+        {DISPLAY_BASES.map(basis => <option key={basis} value={basis}>{basis} ({DISPLAY_BASIS_LABELS[basis]})</option>)}
+      </select>
+    </label>
+  );
+}
+
+/** Real income and real balance of the base plan and its scenarios in one chart each, with their key figures. */
+function ScenarioComparison({ base, options }: { base: RetirementModel; options: ProjectionOptions }): JSX.Element {
+  const allNames = [BASE_SCENARIO, ...scenarioNamesFrom(base)];
+  const [hidden, setHidden] = useState<string[]>([]);
+  const shown = allNames.filter(name => !hidden.includes(name));
+  const { result: comparison, pending } = useProjection("scenarioComparison", [base, shown, options]);
+  const formatOptional = (value: number | undefined): string => value === undefined ? "—" : formatCurrency(value);
+  const rows: [string, (s: NonNullable<typeof comparison>["summaries"][number]) => React.ReactNode][] = [
+    ["Retirement Date", s => s.retireDate ?? "—"],
+    ["Real Monthly Income (first full year retired)", s => formatOptional(s.firstRetirementIncome)],
+    ["Lowest Real Monthly Income in Retirement", s => formatOptional(s.lowestRetirementIncome)],
+    ["Ending Real Balance", s => formatOptional(s.endingRealBalance)],
+    ["Money Runs Out", s => s.depletionYear ?? "Never"],
+    ["First Shortfall Year", s => s.firstShortfallYear ?? "None"],
+    ["Changed Fields", s => s.name === BASE_SCENARIO ? "—" : s.changedFields.join(", ") || "None"],
+  ];
+  return (
+    <>
+      Scenario Comparison
+      <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+        {allNames.map(name => (
+          <label key={name} style={{ display: 'flex', gap: '.25rem', alignItems: 'center' }}>
+            <input
+              type="checkbox"
+              checked={!hidden.includes(name)}
+              onChange={e => setHidden(h => e.target.checked ? h.filter(n => n !== name) : [...h, name])}
+            />
+            {name}
+          </label>
+        ))}
+      </div>
+      {shown.length < 2
+        ? <div className="step-meta">Select at least two scenarios to compare.</div>
+        : !comparison
+        ? <ProjectionPlaceholder pending={pending} />
+        : <>
+          <FinancialChart
+            beginYear={comparison.beginYear}
+            endYear={comparison.endYear}
+            granularity={comparison.granularity}
+            valueLabel="Real Monthly Income (After Tax & Inflation)"
+            series={comparison.incomeSeries}
+            title="Scenario Comparison: Monthly Income"
+          />
+          <FinancialChart
+            beginYear={comparison.beginYear}
+            endYear={comparison.endYear}
+            granularity={comparison.granularity}
+            valueLabel="Real Balance (After Tax & Inflation)"
+            series={comparison.balanceSeries}
+            title="Scenario Comparison: Balance"
+          />
+          <table className="data-table">
+            <thead>
+              <tr><th></th>{comparison.summaries.map(s => <th key={s.name}>{s.name}</th>)}</tr>
+            </thead>
+            <tbody>
+              {rows.map(([label, valueOf]) => (
+                <tr key={label}>
+                  <th scope="row">{label}</th>
+                  {comparison.summaries.map(s => <td key={s.name}>{valueOf(s)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>}
+    </>
+  );
+}
+
 const wageStepNameFrom = (name: string): string => `Wages: ${name}`;
 const investmentStepNameFrom = (name: string): string => `Investments: ${name}`;
 const annuityStepNameFrom = (name: string): string => `Annuities: ${name}`;
+const socialSecurityStepNameFrom = (name: string): string => `Social Security: ${name}`;
+const expenseStepNameFrom = (name: string): string => `Expenses: ${name}`;
+const eventStepNameFrom = (name: string): string => `One-Time Events: ${name}`;
+const liabilityStepNameFrom = (name: string): string => `Liabilities: ${name}`;
 
 function Steps(): JSX.Element {
   const { stepApi, stepState } = useActiveStep<StepStateMeta, StepApi>();
-  const [model, setModel] = useLocalStorageState<Record<string, unknown>>("retirement");
-  const wageNames = Object.keys((model as any)?.wages?.items || {}).sort();
-  const investmentNames = Object.keys((model as any)?.investments?.items || {}).sort();
-  const annuityNames = Object.keys((model as any)?.annuities?.items || {}).sort();
+  // Stored plans may predate the current schema; they are upgraded on load and saved back once.
+  const [storedModel, setStoredModel] = useLocalStorageState<unknown>(RETIREMENT_MODEL_STORAGE_KEY);
+  const migration = useMemo(() => migrateRetirementModel(storedModel), [storedModel]);
+  const baseModel = migration.model;
+  const [migrationIssues, setMigrationIssues] = useState<string[]>([]);
+  useEffect(() => {
+    if (migration.issues.length) setMigrationIssues(migration.issues);
+    if (migration.changed) setStoredModel(migration.model);
+  }, [migration]);
+  // The wizard edits the active scenario's effective plan; edits are stored as that scenario's overrides.
+  const model = useMemo(() => scenarioModelFrom(baseModel, activeScenarioFrom(baseModel)), [baseModel]);
+  const setBaseModel = (update: (base: RetirementModel) => RetirementModel): void =>
+    setStoredModel((stored: unknown) => update(migrateRetirementModel(stored).model));
+  const setModel = (update: RetirementModel | ((current: RetirementModel) => RetirementModel)): void =>
+    setBaseModel(base => {
+      const current = scenarioModelFrom(base, activeScenarioFrom(base));
+      return applyScenarioEdit(base, typeof update === "function" ? update(current) : update);
+    });
+  const wageNames = Object.keys(model.wages?.items ?? {}).sort();
+  const investmentNames = Object.keys(model.investments?.items ?? {}).sort();
+  const annuityNames = Object.keys(model.annuities?.items ?? {}).sort();
+  const socialSecurityNames = Object.keys(model.socialSecurity?.items ?? {}).sort();
+  const expenseNames = Object.keys(model.expenses?.items ?? {}).sort();
+  const eventNames = Object.keys(model.events?.items ?? {}).sort();
+  const liabilityNames = Object.keys(model.liabilities?.items ?? {}).sort();
+  const isMonteCarlo = model.projectionMode === MONTE_CARLO_MODE;
+  const couple = isCouple(model);
+  const householdWithdrawals = withdrawalPlanModeFrom(model.withdrawalPlan?.mode) === "Household Income Target";
+  const isHistorical = model.projectionMode === HISTORICAL_MODE;
+  const displayBasis = displayBasisFrom(model.displayBasis);
+  const projectionOptions: ProjectionOptions = {
+    granularity: model.chartDetail === MONTHLY_DETAIL ? 'month' : 'year'
+  };
   const dynamicStepNames = [
     ...wageNames.map(wageStepNameFrom),
     ...investmentNames.map(investmentStepNameFrom),
-    ...annuityNames.map(annuityStepNameFrom)
+    ...annuityNames.map(annuityStepNameFrom),
+    ...socialSecurityNames.map(socialSecurityStepNameFrom),
+    ...expenseNames.map(expenseStepNameFrom),
+    ...eventNames.map(eventStepNameFrom),
+    ...liabilityNames.map(liabilityStepNameFrom)
   ];
   const stepOrder = ([
     "Planning",
     "Setup",
     ...dynamicStepNames,
+    dynamicStepNames.length > 0 ? "Healthcare" : null,
     dynamicStepNames.length > 0 ? "Summary" : null
   ].filter(Boolean) as string[]);
   const inCompleteSteps = stepOrder.filter((stepName) => {
@@ -96,31 +580,140 @@ function Steps(): JSX.Element {
     Planning: (
       <div className="card">
         <div className="card-header">Pre-Planning</div>
-        <Form key="planning" model={model ?? {}} setModel={setModel} form={[
+        <Form key="planning" model={model} setModel={setModel} form={[
+          {
+            name: "Plan As-Of Date (default today; set it to reproduce an earlier printout)",
+            location: "asOfDate",
+            validators: [Validators.isOptionalDate],
+            type: "text"
+          },
+          {
+            name: "Birth Date",
+            location: "birthDate",
+            validators: [Validators.required, Validators.isDate],
+            type: "text"
+          },
           {
             name: "Retirement Date",
             location: "retireDate",
-            validators: [Validators.required, Validators.isFutureOrCurrentDate],
+            validators: [Validators.required, Validators.isOnOrAfterPlanStart(model.asOfDate)],
             type: "text"
           },
           {
-            name: "How many years do you want to plan for?",
+            name: couple ? "How many years do you want to plan for? (used until both life expectancies are set)" : "How many years do you want to plan for?",
             location: "yearsAfterRetire",
             validators: [Validators.required],
             type: "number"
           },
           {
-            name: "Tax percentage (%)",
-            location: "taxPercentage",
+            name: "Household",
+            location: "householdMode",
+            validators: [],
+            type: "select",
+            items: HOUSEHOLD_MODES
+          },
+          couple ? {
+            name: "Life Expectancy (age)",
+            location: "lifeExpectancy",
+            validators: [Validators.required, Validators.isBetween(1, 120)],
+            type: "number"
+          } : null,
+          couple ? {
+            name: "Partner's Birth Date",
+            location: "partner.birthDate",
+            validators: [Validators.required, Validators.isDate],
+            type: "text"
+          } : null,
+          couple ? {
+            name: "Partner's Retirement Date",
+            location: "partner.retireDate",
+            validators: [Validators.required, Validators.isDate],
+            type: "text"
+          } : null,
+          couple ? {
+            name: "Partner's Life Expectancy (age)",
+            location: "partner.lifeExpectancy",
+            validators: [Validators.required, Validators.isBetween(1, 120)],
+            type: "number"
+          } : null,
+          {
+            name: "Tax Filing Status",
+            location: "filingStatus",
             validators: [Validators.required],
-            type: "percent"
+            type: "select",
+            items: FILING_STATUSES
+          },
+          {
+            name: "State of Residence",
+            location: "stateOfResidence",
+            validators: [Validators.required],
+            type: "select",
+            items: STATES
           },
           {
             name: "Inflation percentage (%)",
             location: "inflationPercentage",
             validators: [Validators.required],
             type: "percent"
-          }
+          },
+          {
+            name: "Show Real Amounts In Dollars Of Year (default as-of year)",
+            location: "dollarBasisYear",
+            validators: [Validators.isBetween(1900, 2200)],
+            type: "number"
+          },
+          {
+            name: "Contribution Limit Growth (%/year, default inflation)",
+            location: "contributionLimitIndex",
+            validators: [],
+            type: "percent"
+          },
+          {
+            name: "Withdrawals (default Per Account)",
+            location: "withdrawalPlan.mode",
+            validators: [],
+            type: "select",
+            items: WITHDRAWAL_PLAN_MODES
+          },
+          householdWithdrawals ? {
+            name: "Target Monthly Income (today's $, before tax)",
+            location: "withdrawalPlan.targetMonthly",
+            validators: [Validators.required],
+            type: "currency"
+          } : null,
+          householdWithdrawals ? {
+            name: "Withdrawal Order (default Taxable, Tax-Deferred, Roth)",
+            location: "withdrawalPlan.order",
+            validators: [],
+            type: "select",
+            items: WITHDRAWAL_ORDERS
+          } : null,
+          {
+            name: "Chart Detail",
+            location: "chartDetail",
+            validators: [],
+            type: "select",
+            items: CHART_DETAILS
+          },
+          {
+            name: "Projection Mode",
+            location: "projectionMode",
+            validators: [],
+            type: "select",
+            items: PROJECTION_MODES
+          },
+          isMonteCarlo ? {
+            name: `Number of Trials (default ${DEFAULT_TRIALS.toLocaleString()})`,
+            location: "simulation.trials",
+            validators: [],
+            type: "number"
+          } : null,
+          isMonteCarlo ? {
+            name: `Random Seed (default ${DEFAULT_SEED})`,
+            location: "simulation.seed",
+            validators: [],
+            type: "number"
+          } : null
         ]} />
       </div>
     ),
@@ -128,10 +721,14 @@ function Steps(): JSX.Element {
     Setup: (
       <div className="card">
         <div className="card-header">Setup</div>
-        <Form key="setup" model={model ?? {}} setModel={setModel} form={[
+        <Form key="setup" model={model} setModel={setModel} form={[
           { name: "Current Wages & Salaries", placeholder: "[Company Name]", location: "wages.items", validators: [Validators.required], type: "list" },
           { name: "Investments", placeholder: "[Investment Name]", location: "investments.items", validators: [Validators.required], type: "list" },
-          { name: "Annuities", placeholder: "[Annuity Name]", location: "annuities.items", validators: [Validators.required], type: "list" }
+          { name: "Annuities", placeholder: "[Annuity Name]", location: "annuities.items", validators: [Validators.required], type: "list" },
+          { name: "Social Security", placeholder: "[Beneficiary Name]", location: "socialSecurity.items", validators: [Validators.required], type: "list" },
+          { name: "Expenses", placeholder: "[Expense Name]", location: "expenses.items", validators: [Validators.required], type: "list" },
+          { name: "One-Time Events", placeholder: "[Event Name]", location: "events.items", validators: [Validators.required], type: "list" },
+          { name: "Liabilities", placeholder: "[Loan Name]", location: "liabilities.items", validators: [Validators.required], type: "list" }
         ]} />
       </div>
     ),
@@ -139,7 +736,6 @@ function Steps(): JSX.Element {
     ...wageNames.reduce((acc, wageName) => ({
       ...acc,
       [wageStepNameFrom(wageName)]: (() => {
-        const chartProps = buildWageMonthlyIncomeChart(wageName, model);
         return (
           <div className="card">
             <div className="card-header">Current Wages & Salaries</div>
@@ -148,23 +744,32 @@ function Steps(): JSX.Element {
               <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
                 <Form
                   key={`wages.items.${wageName}`}
-                  model={model ?? {}}
+                  model={model}
                   setModel={setModel}
                   completionStatusPath={`wages.items.${wageName}.isComplete`}
                   form={[
+                    couple ? { name: "Owner", location: `wages.items.${wageName}.owner`, validators: [], type: "select", items: HOUSEHOLD_MEMBERS } : null,
                     { name: "$ / year", location: `wages.items.${wageName}.annual`, validators: [Validators.required], type: "currency" },
                     { name: "Average Annual % Raise", location: `wages.items.${wageName}.raise`, validators: [Validators.required], type: "percent" },
-                    {
+                    couple ? {
+                      name: "Anticipated Date to Stop Work (blank = owner's retirement date)",
+                      location: `wages.items.${wageName}.stopWorkDate`,
+                      validators: [Validators.isOptionalOnOrAfterPlanStart(model.asOfDate)],
+                      type: "text"
+                    } : {
                       name: "Anticipated Date to Stop Work",
                       location: `wages.items.${wageName}.stopWorkDate`,
-                      validators: [Validators.required, Validators.isFutureOrCurrentDate],
+                      validators: [Validators.required, Validators.isOnOrAfterPlanStart(model.asOfDate)],
                       type: "text"
                     },
                   ]} />
               </div>
-              <div style={{ flex: 1, minWidth: 0 }}>
-                <FinancialChart {...chartProps} />
-              </div>
+              <Projected key={wageName} kind="wageChart" args={[wageName, model, projectionOptions]} style={{ flex: 1, minWidth: 0 }}>
+                {chartProps => <>
+                  <FinancialChart {...chartProps} title={wageName} />
+                  <LedgerTable {...chartProps.ledger} />
+                </>}
+              </Projected>
             </div>
           </div>
         );
@@ -174,7 +779,8 @@ function Steps(): JSX.Element {
     ...investmentNames.reduce((acc, investmentName) => ({
       ...acc,
       [investmentStepNameFrom(investmentName)]: (() => {
-        const { beginYear, endYear, balance, withdrawalSeries } = buildInvestmentBalanceAndWithdrawalChart(investmentName, model);
+        const withdrawalStrategy = WITHDRAWAL_STRATEGY_DEFINITIONS[withdrawalStrategyFrom(model.investments?.items?.[investmentName]?.withdrawalStrategy)];
+        const contributing = wageNames.length > 0 && !!model.investments?.items?.[investmentName]?.contributionsFrom;
         return (
           <div className="card">
             <div className="card-header">Investments</div>
@@ -183,31 +789,65 @@ function Steps(): JSX.Element {
               <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
                 <Form
                   key={`investments.items.${investmentName}`}
-                  model={model ?? {}}
+                  model={model}
                   setModel={setModel}
                   completionStatusPath={`investments.items.${investmentName}.isComplete`}
                   form={[
+                    couple ? { name: "Owner", location: `investments.items.${investmentName}.owner`, validators: [], type: "select", items: HOUSEHOLD_MEMBERS } : null,
                     { name: "Initial Balance", location: `investments.items.${investmentName}.balance`, validators: [Validators.required], type: "currency" },
-                    { name: "Annual % Rate of Return", location: `investments.items.${investmentName}.rate`, validators: [Validators.required], type: "percent" },
                     {
+                      name: "Account Tax Treatment",
+                      location: `investments.items.${investmentName}.taxTreatment`,
+                      validators: [Validators.required],
+                      type: "select",
+                      items: TAX_TREATMENTS
+                    },
+                    get(`investments.items.${investmentName}.taxTreatment`).from(model) === "Taxable" ? {
+                      name: "Cost Basis (defaults to Initial Balance)",
+                      location: `investments.items.${investmentName}.costBasis`,
+                      validators: [],
+                      type: "currency"
+                    } : null,
+                    { name: "Annual % Rate of Return", location: `investments.items.${investmentName}.rate`, validators: [Validators.required], type: "percent" },
+                    isMonteCarlo ? {
+                      name: "Annual Return Volatility (%)",
+                      location: `investments.items.${investmentName}.volatility`,
+                      validators: [],
+                      type: "percent"
+                    } : null,
+                    isHistorical ? {
+                      name: `Stock Allocation (%, default ${DEFAULT_STOCK_ALLOCATION * 100}; rest in bonds)`,
+                      location: `investments.items.${investmentName}.stockAllocation`,
+                      validators: [Validators.isBetween(0, 1)],
+                      type: "percent"
+                    } : null,
+                    householdWithdrawals ? null : {
                       name: "Start Taking Withdrawals Date",
                       location: `investments.items.${investmentName}.withdrawalDate`,
                       validators: [Validators.required, Validators.isDate],
                       type: "text"
                     },
-                    {
-                      name: "Annual Withdrawal Percentage (%)",
-                      location: `investments.items.${investmentName}.withdrawalRate`,
-                      validators: [Validators.required],
-                      type: "percent"
+                    householdWithdrawals ? null : {
+                      name: "Withdrawal Strategy (default Fixed Percentage)",
+                      location: `investments.items.${investmentName}.withdrawalStrategy`,
+                      validators: [],
+                      type: "select",
+                      items: WITHDRAWAL_STRATEGIES
                     },
+                    ...(householdWithdrawals ? [] : withdrawalStrategy.fields).map(({ name, field, type, required }) => ({
+                      name,
+                      location: `investments.items.${investmentName}.${field}` as const,
+                      validators: required ? [Validators.required] : [],
+                      type
+                    })),
                     wageNames.length > 0 ? {
                       name: "Contributions From",
                       location: `investments.items.${investmentName}.contributionsFrom`,
+                      validators: [],
                       type: "select",
                       items: wageNames
                     } : null,
-                    get(`investments.items.${investmentName}.contributionsFrom.length`).from(model) as any > 0
+                    !!model.investments?.items?.[investmentName]?.contributionsFrom
                       && wageNames.length > 0
                       ? {
                         name: "Annual Contribution Percentage (%)",
@@ -215,23 +855,54 @@ function Steps(): JSX.Element {
                         validators: [Validators.required],
                         type: "percent"
                       }
-                      : null
-                  ].filter(Boolean) as any} />
-              </div>
-              <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-                <FinancialChart
-                  beginYear={beginYear}
-                  endYear={endYear}
-                  valueLabel="Monthly Withdrawal"
-                  series={withdrawalSeries}
-                />
-                <FinancialChart
-                  beginYear={beginYear}
-                  endYear={endYear}
-                  valueLabel="Balance"
-                  series={[balance]}
-                />
+                      : null,
+                    contributing ? {
+                      name: "Contribution Limit (default Workplace Plan)",
+                      location: `investments.items.${investmentName}.contributionLimit`,
+                      validators: [],
+                      type: "select",
+                      items: CONTRIBUTION_LIMIT_TYPES
+                    } : null,
+                    contributing ? { name: "Employer Match (% of deferral)", location: `investments.items.${investmentName}.matchRate`, validators: [], type: "percent" } : null,
+                    contributing ? { name: "...on Deferrals Up To (% of pay)", location: `investments.items.${investmentName}.matchUpTo`, validators: [], type: "percent" } : null,
+                    contributing ? { name: "Then Employer Match (% of deferral)", location: `investments.items.${investmentName}.matchRate2`, validators: [], type: "percent" } : null,
+                    contributing ? { name: "...on Deferrals Up To (% of pay)", location: `investments.items.${investmentName}.matchUpTo2`, validators: [], type: "percent" } : null
+                  ]} />
+                <div className="step-meta">
+                  {householdWithdrawals
+                    ? "Withdrawals follow the household income target and withdrawal order set in Planning."
+                    : withdrawalStrategy.description}
+                </div>
               </div>
+              <Projected
+                key={investmentName}
+                kind="investmentChart"
+                args={[investmentName, model, projectionOptions]}
+                style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '0.75rem' }}
+              >
+                {({ beginYear, endYear, granularity, balance, withdrawalSeries, markers, annotations, ledger }) => <>
+                  <FinancialChart
+                    beginYear={beginYear}
+                    endYear={endYear}
+                    granularity={granularity}
+                    valueLabel="Monthly Withdrawal"
+                    series={withdrawalSeries}
+                    title={`${investmentName} Withdrawals`}
+                    annotations={annotations}
+                  />
+                  <FinancialChart
+                    beginYear={beginYear}
+                    endYear={endYear}
+                    granularity={granularity}
+                    valueLabel="Balance"
+                    series={[balance]}
+                    title={`${investmentName} Balance`}
+                    markers={markers}
+                    annotations={annotations}
+                  />
+                  <LedgerTable {...ledger} />
+                </>}
+              </Projected>
             </div>
           </div>
         );
@@ -241,7 +912,7 @@ function Steps(): JSX.Element {
     ...annuityNames.reduce((acc, annuityName) => ({
       ...acc,
       [annuityStepNameFrom(annuityName)]: (() => {
-        const chartProps = buildAnnuityMonthlyIncomeChart(annuityName, model);
+        const annuity = model.annuities?.items?.[annuityName];
         return (
           <div className="card">
             <div className="card-header">Annuities</div>
@@ -250,10 +921,11 @@ function Steps(): JSX.Element {
               <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
                 <Form
                   key={`annuities.items.${annuityName}`}
-                  model={model ?? {}}
+                  model={model}
                   setModel={setModel}
                   completionStatusPath={`annuities.items.${annuityName}.isComplete`}
                   form={[
+                    couple ? { name: "Owner", location: `annuities.items.${annuityName}.owner`, validators: [], type: "select", items: HOUSEHOLD_MEMBERS } : null,
                     { name: "$ / month", location: `annuities.items.${annuityName}.monthly`, validators: [], type: "currency" },
                     {
                       name: "Start Date",
@@ -261,30 +933,415 @@ function Steps(): JSX.Element {
                       validators: [Validators.required, Validators.isDate],
                       type: "text"
                     },
+                    {
+                      name: "Cost-of-Living Adjustment (default None)",
+                      location: `annuities.items.${annuityName}.colaType`,
+                      validators: [],
+                      type: "select",
+                      items: ANNUITY_COLA_OPTIONS
+                    },
+                    annuityColaFrom(annuity?.colaType) === "Fixed" ? {
+                      name: "Annual COLA (%)",
+                      location: `annuities.items.${annuityName}.colaRate`,
+                      validators: [Validators.required],
+                      type: "percent"
+                    } : null,
+                    {
+                      name: "End Date (blank for life)",
+                      location: `annuities.items.${annuityName}.endDate`,
+                      validators: [Validators.isOptionalDate],
+                      type: "text"
+                    },
+                    {
+                      name: "Term Certain (years, blank for none)",
+                      location: `annuities.items.${annuityName}.termYears`,
+                      validators: [],
+                      type: "number"
+                    },
+                    {
+                      name: couple
+                        ? "Annuitant's Expected Date of Death (blank = owner's life expectancy)"
+                        : "Annuitant's Expected Date of Death (for survivor benefit)",
+                      location: `annuities.items.${annuityName}.survivorDate`,
+                      validators: [Validators.isOptionalDate],
+                      type: "text"
+                    },
+                    annuity?.survivorDate || couple ? {
+                      name: "Survivor Benefit (% of payment, blank for single life)",
+                      location: `annuities.items.${annuityName}.survivorPercentage`,
+                      validators: [],
+                      type: "percent"
+                    } : null,
+                    {
+                      name: "Lump Sum Offered Instead ($)",
+                      location: `annuities.items.${annuityName}.lumpSum`,
+                      validators: [],
+                      type: "currency"
+                    },
+                    annuity?.lumpSum ? {
+                      name: `Return on Invested Lump Sum (%, default ${DEFAULT_LUMP_SUM_RATE * 100})`,
+                      location: `annuities.items.${annuityName}.lumpSumRate`,
+                      validators: [],
+                      type: "percent"
+                    } : null,
+                  ]} />
+              </div>
+              <Projected key={annuityName} kind="annuityCharts" args={[annuityName, model, projectionOptions]} style={{ flex: 1, minWidth: 0 }}>
+                {({ income: chartProps, lumpSum }) => <>
+                  <FinancialChart {...chartProps} title={annuityName} />
+                  <LedgerTable {...chartProps.ledger} />
+                  {lumpSum.series.length > 0 && (<>
+                    Lump Sum vs. Annuity
+                    <FinancialChart
+                      beginYear={lumpSum.beginYear}
+                      endYear={lumpSum.endYear}
+                      granularity={lumpSum.granularity}
+                      valueLabel={lumpSum.valueLabel}
+                      series={lumpSum.series}
+                      title={`${annuityName} Lump Sum vs. Annuity`}
+                    />
+                    <div role="status">
+                      At a {+(lumpSum.rate * 100).toFixed(2)}% return the annuity's payments through {lumpSum.endYear} are worth
+                      {" "}<strong>{formatCurrency(lumpSum.presentValue)}</strong> on the start date, against a lump sum of
+                      {" "}<strong>{formatCurrency(lumpSum.lumpSum)}</strong>.
+                      {" "}{lumpSum.depletionYear === undefined
+                        ? "Invested, the lump sum covers the same payments through the end of the plan."
+                        : `Invested, the lump sum runs out in ${lumpSum.depletionYear} if it pays the same amounts.`}
+                    </div>
+                  </>)}
+                </>}
+              </Projected>
+            </div>
+          </div>
+        );
+      })()
+    }), {} as Record<string, JSX.Element>),
+
+    ...socialSecurityNames.reduce((acc, benefitName) => ({
+      ...acc,
+      [socialSecurityStepNameFrom(benefitName)]: (() => {
+        return (
+          <div className="card">
+            <div className="card-header">Social Security</div>
+            <div className="card-subheader">{benefitName}</div>
+            <div className="flex" style={{ gap: '1rem', alignItems: 'flex-start' }}>
+              <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
+                <Form
+                  key={`socialSecurity.items.${benefitName}`}
+                  model={model}
+                  setModel={setModel}
+                  completionStatusPath={`socialSecurity.items.${benefitName}.isComplete`}
+                  form={[
+                    couple ? { name: "Owner", location: `socialSecurity.items.${benefitName}.owner`, validators: [], type: "select", items: HOUSEHOLD_MEMBERS } : null,
+                    {
+                      name: "Birth Date",
+                      location: `socialSecurity.items.${benefitName}.birthDate`,
+                      validators: [Validators.required, Validators.isDate],
+                      type: "text"
+                    },
+                    {
+                      name: "Estimated Benefit at Full Retirement Age ($ / month)",
+                      location: `socialSecurity.items.${benefitName}.pia`,
+                      validators: [Validators.required],
+                      type: "currency"
+                    },
+                    {
+                      name: `Claiming Age (${EARLIEST_CLAIMING_AGE}-${LATEST_CLAIMING_AGE})`,
+                      location: `socialSecurity.items.${benefitName}.claimingAge`,
+                      validators: [Validators.required, Validators.isBetween(EARLIEST_CLAIMING_AGE, LATEST_CLAIMING_AGE)],
+                      type: "number"
+                    },
+                    {
+                      name: "Annual Cost-of-Living Adjustment (%)",
+                      location: `socialSecurity.items.${benefitName}.cola`,
+                      validators: [Validators.required],
+                      type: "percent"
+                    },
                   ]} />
               </div>
+              <Projected key={benefitName} kind="socialSecurityChart" args={[benefitName, model, projectionOptions]} style={{ flex: 1, minWidth: 0 }}>
+                {chartProps => <>
+                  <FinancialChart {...chartProps} title={benefitName} />
+                  <LedgerTable {...chartProps.ledger} />
+                </>}
+              </Projected>
+            </div>
+          </div>
+        );
+      })()
+    }), {} as Record<string, JSX.Element>),
+
+    ...expenseNames.reduce((acc, expenseName) => ({
+      ...acc,
+      [expenseStepNameFrom(expenseName)]: (() => {
+        const expense = model.expenses?.items?.[expenseName];
+        const isOneTime = expenseKindFrom(expense?.kind) === "One-Time";
+        return (
+          <div className="card">
+            <div className="card-header">Expenses</div>
+            <div className="card-subheader">{expenseName}</div>
+            <div className="flex" style={{ gap: '1rem', alignItems: 'flex-start' }}>
+              <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
+                <Form
+                  key={`expenses.items.${expenseName}`}
+                  model={model}
+                  setModel={setModel}
+                  completionStatusPath={`expenses.items.${expenseName}.isComplete`}
+                  form={[
+                    {
+                      name: "Type (default Recurring)",
+                      location: `expenses.items.${expenseName}.kind`,
+                      validators: [],
+                      type: "select",
+                      items: EXPENSE_KINDS
+                    },
+                    {
+                      name: isOneTime ? "Amount (today's dollars)" : "$ / month (today's dollars)",
+                      location: `expenses.items.${expenseName}.amount`,
+                      validators: [Validators.required],
+                      type: "currency"
+                    },
+                    isOneTime ? {
+                      name: "Date",
+                      location: `expenses.items.${expenseName}.startDate`,
+                      validators: [Validators.required, Validators.isDate],
+                      type: "text"
+                    } : {
+                      name: "Start Date (defaults to today)",
+                      location: `expenses.items.${expenseName}.startDate`,
+                      validators: [Validators.isOptionalDate],
+                      type: "text"
+                    },
+                    isOneTime ? null : {
+                      name: "End Date (blank for the rest of the plan)",
+                      location: `expenses.items.${expenseName}.endDate`,
+                      validators: [Validators.isOptionalDate],
+                      type: "text"
+                    },
+                    {
+                      name: "Annual Growth (default Inflation)",
+                      location: `expenses.items.${expenseName}.growth`,
+                      validators: [],
+                      type: "select",
+                      items: EXPENSE_GROWTH_OPTIONS
+                    },
+                    expenseGrowthFrom(expense?.growth) === "Custom Rate" ? {
+                      name: "Annual Growth Rate (%)",
+                      location: `expenses.items.${expenseName}.growthRate`,
+                      validators: [Validators.required],
+                      type: "percent"
+                    } : null,
+                  ]} />
+              </div>
+              <Projected key={expenseName} kind="expenseChart" args={[expenseName, model, projectionOptions]} style={{ flex: 1, minWidth: 0 }}>
+                {chartProps => <FinancialChart {...chartProps} title={expenseName} />}
+              </Projected>
+            </div>
+          </div>
+        );
+      })()
+    }), {} as Record<string, JSX.Element>),
+
+    ...eventNames.reduce((acc, eventName) => ({
+      ...acc,
+      [eventStepNameFrom(eventName)]: (() => {
+        const event = model.events?.items?.[eventName];
+        const target = event?.investment && model.investments?.items?.[event.investment] ? event.investment : undefined;
+        const isOutflow = eventDirectionFrom(event?.direction) === "Outflow";
+        return (
+          <div className="card">
+            <div className="card-header">One-Time Events</div>
+            <div className="card-subheader">{eventName}</div>
+            <div className="flex" style={{ gap: '1rem', alignItems: 'flex-start' }}>
+              <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
+                <Form
+                  key={`events.items.${eventName}`}
+                  model={model}
+                  setModel={setModel}
+                  completionStatusPath={`events.items.${eventName}.isComplete`}
+                  form={[
+                    {
+                      name: "Direction (default Inflow)",
+                      location: `events.items.${eventName}.direction`,
+                      validators: [],
+                      type: "select",
+                      items: EVENT_DIRECTIONS
+                    },
+                    {
+                      name: "Date",
+                      location: `events.items.${eventName}.date`,
+                      validators: [Validators.required, Validators.isDate],
+                      type: "text"
+                    },
+                    {
+                      name: "Amount (today's dollars)",
+                      location: `events.items.${eventName}.amount`,
+                      validators: [Validators.required],
+                      type: "currency"
+                    },
+                    {
+                      name: isOutflow ? "Paid From Investment" : "Deposited Into Investment",
+                      location: `events.items.${eventName}.investment`,
+                      validators: [Validators.required],
+                      type: "select",
+                      items: investmentNames
+                    },
+                  ]} />
+                <div className="step-meta">
+                  {investmentNames.length
+                    ? "Event amounts move the investment's balance and are not counted as income. Outflows are taxed like withdrawals (in full from Traditional accounts, the gain share from Taxable ones), and only as much as the balance covers is paid."
+                    : "Add an investment on the Setup step to pay this event into or out of."}
+                </div>
+              </div>
               <div style={{ flex: 1, minWidth: 0 }}>
-                <FinancialChart {...chartProps} />
+                {target && (
+                  <Projected key={target} kind="investmentChart" args={[target, model, projectionOptions]}>
+                    {chart => (
+                      <FinancialChart
+                        beginYear={chart.beginYear}
+                        endYear={chart.endYear}
+                        granularity={chart.granularity}
+                        valueLabel="Balance"
+                        series={[chart.balance]}
+                        title={`${target} Balance`}
+                        markers={chart.markers}
+                        annotations={chart.annotations}
+                      />
+                    )}
+                  </Projected>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })()
+    }), {} as Record<string, JSX.Element>),
+
+    ...liabilityNames.reduce((acc, liabilityName) => ({
+      ...acc,
+      [liabilityStepNameFrom(liabilityName)]: (() => {
+        return (
+          <div className="card">
+            <div className="card-header">Liabilities</div>
+            <div className="card-subheader">{liabilityName}</div>
+            <div className="flex" style={{ gap: '1rem', alignItems: 'flex-start' }}>
+              <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
+                <Form
+                  key={`liabilities.items.${liabilityName}`}
+                  model={model}
+                  setModel={setModel}
+                  completionStatusPath={`liabilities.items.${liabilityName}.isComplete`}
+                  form={[
+                    {
+                      name: "Kind (default Other)",
+                      location: `liabilities.items.${liabilityName}.kind`,
+                      validators: [],
+                      type: "select",
+                      items: LIABILITY_KINDS
+                    },
+                    {
+                      name: "Principal (owed now, or borrowed on the start date)",
+                      location: `liabilities.items.${liabilityName}.balance`,
+                      validators: [Validators.required],
+                      type: "currency"
+                    },
+                    { name: "Interest Rate (%)", location: `liabilities.items.${liabilityName}.rate`, validators: [Validators.required], type: "percent" },
+                    { name: "Term (years)", location: `liabilities.items.${liabilityName}.termYears`, validators: [Validators.required], type: "number" },
+                    {
+                      name: "First Payment Date (blank = now)",
+                      location: `liabilities.items.${liabilityName}.startDate`,
+                      validators: [Validators.isOptionalDate],
+                      type: "text"
+                    },
+                    { name: "Extra Principal ($ / month)", location: `liabilities.items.${liabilityName}.extraMonthly`, validators: [], type: "currency" },
+                    {
+                      name: "Pay Off Remaining Balance On",
+                      location: `liabilities.items.${liabilityName}.payoffDate`,
+                      validators: [Validators.isOptionalDate],
+                      type: "text"
+                    },
+                  ]} />
+                <Projected key={liabilityName} kind="liabilityChart" args={[liabilityName, model, projectionOptions]} className="step-meta">
+                  {chart => <>
+                    {chart.payoffDate ? `Paid off ${chart.payoffDate}` : "Not paid off within the plan"}; {formatCurrency(chart.totalInterest)} of interest over the plan.
+                    {" "}Payments are taken from after-tax income.
+                  </>}
+                </Projected>
               </div>
+              <Projected
+                key={liabilityName}
+                kind="liabilityChart"
+                args={[liabilityName, model, projectionOptions]}
+                style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '0.75rem' }}
+              >
+                {chart => <>
+                  <FinancialChart
+                    beginYear={chart.beginYear}
+                    endYear={chart.endYear}
+                    granularity={chart.granularity}
+                    valueLabel="Balance"
+                    series={[chart.balance]}
+                    title={`${liabilityName} Balance`}
+                    markers={chart.markers}
+                  />
+                  <FinancialChart
+                    beginYear={chart.beginYear}
+                    endYear={chart.endYear}
+                    granularity={chart.granularity}
+                    valueLabel="Monthly Payment"
+                    series={chart.paymentSeries}
+                    title={`${liabilityName} Payments`}
+                  />
+                </>}
+              </Projected>
             </div>
           </div>
         );
       })()
     }), {} as Record<string, JSX.Element>),
 
+    Healthcare: (() => {
+      const inflation = `%/year, default ${DEFAULT_MEDICAL_INFLATION * 100}`;
+      return (
+        <div className="card">
+          <div className="card-header">Healthcare</div>
+          <div className="card-subheader">Per person, $ / month in today's dollars{couple ? "; applied to each partner" : ""}</div>
+          <div className="flex" style={{ gap: '1rem', alignItems: 'flex-start' }}>
+            <div style={{ flex: '0 0 340px', maxWidth: 400 }}>
+              <Form key="healthcare" model={model} setModel={setModel} form={[
+                { name: `Coverage Premium Before Medicare (retirement to ${MEDICARE_AGE})`, location: "healthcare.preMedicareMonthly", validators: [], type: "currency" },
+                { name: `Premium Growth (${inflation})`, location: "healthcare.preMedicareInflation", validators: [], type: "percent" },
+                { name: `Medicare Part B Premium (default $${DEFAULT_PART_B_MONTHLY})`, location: "healthcare.partBMonthly", validators: [], type: "currency" },
+                { name: `Medicare Part D Premium (default $${DEFAULT_PART_D_MONTHLY})`, location: "healthcare.partDMonthly", validators: [], type: "currency" },
+                { name: `Medicare Premium Growth (${inflation})`, location: "healthcare.medicareInflation", validators: [], type: "percent" },
+                { name: "Out-of-Pocket Costs (from retirement)", location: "healthcare.outOfPocketMonthly", validators: [], type: "currency" },
+                { name: `Out-of-Pocket Growth (${inflation})`, location: "healthcare.outOfPocketInflation", validators: [], type: "percent" },
+              ]} />
+              <div className="step-meta">
+                Medicare premiums include IRMAA surcharges when the plan's taxable income from two years earlier is above the IRMAA thresholds.
+              </div>
+            </div>
+            <Projected kind="healthcareChart" args={[model, projectionOptions]} style={{ flex: 1, minWidth: 0 }}>
+              {chartProps => <FinancialChart {...chartProps} title="Healthcare Costs" />}
+            </Projected>
+          </div>
+        </div>
+      );
+    })(),
+
     Summary: (
       <div className="card">
         <div className="card-header">Summary</div>
         <div className="card-body">
-          <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
-            {(() => {
-              const agg = buildTotalInvestmentAggregates(model);
-              const realBalance = agg.balanceSeries
-                .filter(s => /After Tax & Inflation$/.test(s.name))
-                .map(s => ({ ...s, strokeDasharray: undefined, color: '#059669', strokeWidth: 3 }));
-              const realWithdrawal = agg.withdrawalSeries
-                .filter(s => /After Tax & Inflation$/.test(s.name))
-                .map(s => ({ ...s, strokeDasharray: undefined, color: '#059669', strokeWidth: 3 }));
+          <Projected kind="summaryCharts" args={[model, projectionOptions]} style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+            {({ aggregates: agg, spending, netWorth }) => {
+              const shownBalance = agg.balanceSeries
+                .filter(s => s.basis === displayBasis)
+                .map(s => ({ ...s, color: '#059669', strokeWidth: 3 }));
+              const shownWithdrawal = agg.withdrawalSeries
+                .filter(s => s.basis === displayBasis)
+                .map(s => ({ ...s, color: '#059669', strokeWidth: 3 }));
+              const shownLabel = (what: string): string => `${displayBasis === "Real" ? "Real " : ""}${what} (${DISPLAY_BASIS_LABELS[displayBasis]})`;
               return (
                 <>
                   {inCompleteSteps.length > 0 && (
@@ -301,45 +1358,118 @@ function Steps(): JSX.Element {
                     </div>
                   )}
 
-                  {realWithdrawal.length > 0 && (<>
+                  {agg.unfundedEventYears.length > 0 && (
+                    <div className="alert alert-warning" style={{ color: 'red' }} role="status">
+                      One-time outflows exceed their investment's balance in {formatYearRanges(agg.unfundedEventYears)}.
+                      {" "}The uncovered amounts are not paid; see Unfunded Events in the ledger.
+                    </div>
+                  )}
+
+                  {shownWithdrawal.length > 0 && (<>
                     Monthly Income
                     <FinancialChart
                       beginYear={agg.beginYear}
                       endYear={agg.endYear}
-                      valueLabel="Real Monthly Income (After Tax & Inflation)"
-                      series={realWithdrawal}
+                      granularity={agg.granularity}
+                      valueLabel={shownLabel("Monthly Income")}
+                      series={shownWithdrawal}
+                      title="Monthly Income"
+                      markers={agg.markers}
+                      annotations={agg.annotations}
                     />
                   </>)}
 
-                  {realBalance.length > 0 && (<>
-                    Real Balance
+                  {spending.series.length > 0 && (<>
+                    Spending vs. Income
+                    <FinancialChart
+                      beginYear={spending.beginYear}
+                      endYear={spending.endYear}
+                      granularity={spending.granularity}
+                      valueLabel={spending.valueLabel}
+                      series={spending.series}
+                      title="Spending vs. Income"
+                      annotations={agg.annotations}
+                      bands={spending.bands}
+                    />
+                    {spending.shortfallYears.length > 0
+                      ? <div className="alert alert-warning" style={{ color: 'red' }} role="status">
+                        First shortfall year: <strong>{spending.shortfallYears[0]}</strong>.
+                        {" "}Spending exceeds real after-tax income in {spending.shortfallYears.length} year{spending.shortfallYears.length === 1 ? "" : "s"}: {formatYearRanges(spending.shortfallYears)}.
+                      </div>
+                      : <div role="status">Real after-tax income covers spending in every year of the plan.</div>}
+                  </>)}
+
+                  {shownBalance.length > 0 && (<>
+                    {displayBasis === "Real" ? "Real Balance" : "Balance"}
                     <FinancialChart
                       beginYear={agg.beginYear}
                       endYear={agg.endYear}
-                      valueLabel="Real Balance (After Tax & Inflation)"
-                      series={realBalance}
+                      granularity={agg.granularity}
+                      valueLabel={shownLabel("Balance")}
+                      series={shownBalance}
+                      title={displayBasis === "Real" ? "Real Balance" : "Balance"}
+                      markers={agg.markers}
+                      annotations={agg.annotations}
                     />
                   </>)}
 
+                  {netWorth && (<>
+                    Net Worth
+                    <FinancialChart {...netWorth} annotations={agg.annotations} title="Net Worth" />
+                  </>)}
+
+                  <ContributionSummary model={model} />
+
+                  <SensitivitySummary model={model} setModel={setModel} />
+
+                  {isMonteCarlo && <MonteCarloSummary model={model} />}
+                  {isHistorical && <HistoricalBacktestSummary model={model} />}
+
+                  <GoalSeekPanel model={model} setModel={setModel} />
+
+                  {scenarioNamesFrom(baseModel).length > 0 && <ScenarioComparison base={baseModel} options={projectionOptions} />}
+
                   Income Breakdown
                   <FinancialChart
                     beginYear={agg.beginYear}
                     endYear={agg.endYear}
+                    granularity={agg.granularity}
                     valueLabel="Monthly Income"
                     series={agg.withdrawalSeries}
+                    title="Income Breakdown"
+                    annotations={agg.annotations}
                   />
 
+                  {agg.incomeComposition.length > 0 && (<>
+                    Income by Source
+                    <FinancialChart
+                      beginYear={agg.beginYear}
+                      endYear={agg.endYear}
+                      granularity={agg.granularity}
+                      valueLabel={shownLabel("Monthly Income Before Healthcare & Loans")}
+                      series={agg.incomeComposition}
+                      title="Income by Source"
+                      annotations={agg.annotations}
+                      stacked
+                    />
+                  </>)}
+
                   Balance Breakdown
                   <FinancialChart
                     beginYear={agg.beginYear}
                     endYear={agg.endYear}
+                    granularity={agg.granularity}
                     valueLabel="Balance"
                     series={agg.balanceSeries}
+                    title="Balance Breakdown"
+                    markers={agg.markers}
+                    annotations={agg.annotations}
                   />
+                  <LedgerTable {...agg.ledger} title="Year-by-Year Household Ledger" />
                 </>
               );
-            })()}
-          </div>
+            }}
+          </Projected>
         </div>
       </div>
     )
@@ -400,6 +1530,10 @@ function Steps(): JSX.Element {
             <div className="step-meta">
               Step {currentIndex + 1} of {stepOrder.length} ({activeStepName})
             </div>
+            <div className="flex gap-sm" style={{ alignItems: 'flex-start', flexWrap: 'wrap' }}>
+              <ScenarioBar base={baseModel} setBase={setBaseModel} />
+              <DisplayBasisBar base={baseModel} setBase={setBaseModel} />
+            </div>
             <div className="flex gap-sm" style={{ padding: '.25rem 0 0', alignItems: 'center' }}>
               {!isFirstStep && (
                 <button
@@ -434,7 +1568,19 @@ function Steps(): JSX.Element {
         </div>
       </div>
 
-      <div id={`step-panel-${activeStepName}`}>{activeStep}</div>
+      {migrationIssues.length > 0 && (
+        <div className="alert alert-warning" role="alert" aria-live="polite">
+          Your saved plan was loaded with {migrationIssues.length} issue{migrationIssues.length === 1 ? "" : "s"}:
+          <ul>
+            {migrationIssues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+          <button className="btn btn-link" onClick={() => setMigrationIssues([])}>Dismiss</button>
+        </div>
+      )}
+
+      <DisplayBasisContext.Provider value={displayBasis}>
+        <div id={`step-panel-${activeStepName}`}>{activeStep}</div>
+      </DisplayBasisContext.Provider>
 
       <div className="card" role="group" aria-label="Primary navigation actions">
         <div className="flex gap-sm" style={{ padding: '0.25rem 0.25rem 0', alignItems: 'center' }}>
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { buildAnnuityLumpSumComparison } from "./chart-builders";
+import { createTimeline, projectAnnuityMonths, toMonthIndex } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type AnnuityItem, type RetirementModel } from "./retirement-model";
+
+const planWith = (annuity: AnnuityItem): RetirementModel => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2030",
+  retireDate: "01/01/2030",
+  yearsAfterRetire: 2,
+  inflationPercentage: 0.03,
+  annuities: { items: { Pension: { monthly: 1000, startDate: "01/01/2030", ...annuity } } },
+});
+const paymentsFor = (annuity: AnnuityItem) =>
+  projectAnnuityMonths("Pension", planWith(annuity), createTimeline(toMonthIndex(2030, 1), 2032));
+
+describe("projectAnnuityMonths", () => {
+  it("keeps payments flat without a COLA", () => {
+    expect(paymentsFor({}).slice(0, 25).every(p => p === 1000)).toBe(true);
+  });
+
+  it("raises payments every year after they start by a fixed COLA or with prices", () => {
+    const fixed = paymentsFor({ colaType: "Fixed", colaRate: 0.02 });
+    expect([fixed[11], fixed[12], fixed[24]]).toEqual([1000, 1020, 1000 * 1.02 * 1.02]);
+    expect(paymentsFor({ colaType: "CPI-Linked" })[12]).toBeCloseTo(1030, 6);
+  });
+
+  it("raises an annuity already paying from today's payment", () => {
+    expect(paymentsFor({ startDate: "01/01/2020", colaType: "Fixed", colaRate: 0.02 })[0]).toBe(1000);
+  });
+
+  it("stops after the term-certain period", () => {
+    const payments = paymentsFor({ termYears: 1 });
+    expect(payments[11]).toBe(1000);
+    expect(payments[12]).toBeNull();
+  });
+
+  it("steps down to the survivor share after the annuitant's death", () => {
+    expect(paymentsFor({ survivorDate: "06/30/2030", survivorPercentage: 0.5 }).slice(5, 7)).toEqual([1000, 500]);
+    expect(paymentsFor({ survivorDate: "06/30/2030" })[6]).toBeNull();
+  });
+});
+
+describe("buildAnnuityLumpSumComparison", () => {
+  it("pays the annuity's payments from the invested lump sum until it runs out", () => {
+    const comparison = buildAnnuityLumpSumComparison("Pension", planWith({ lumpSum: 24000, lumpSumRate: 0 }));
+    expect(comparison.depletionYear).toBe(2031);
+    expect(comparison.presentValue).toBeCloseTo(36000, 6);
+    expect(comparison.series[0].values).toEqual({ 2030: 12000, 2031: 0, 2032: 0 });
+  });
+
+  it("discounts payments at the lump-sum rate, defaulting to 5%", () => {
+    const comparison = buildAnnuityLumpSumComparison("Pension", planWith({ lumpSum: 100000 }));
+    expect(comparison.rate).toBe(0.05);
+    expect(comparison.depletionYear).toBeUndefined();
+    const discounted = Array.from({ length: 36 }, (_, k) => 1000 * Math.exp(-0.05 * k / 12));
+    expect(comparison.presentValue).toBeCloseTo(discounted.reduce((a, b) => a + b, 0), 6);
+  });
+});
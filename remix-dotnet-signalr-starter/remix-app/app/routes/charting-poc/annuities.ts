@@ -0,0 +1,14 @@
+// Annuity and pension payment options.
+
+import { oneOf } from "./choices";
+
+/** How payments rise each year after they start: not at all, by a fixed rate, or with prices (CPI). */
+export const ANNUITY_COLA_OPTIONS = ["None", "Fixed", "CPI-Linked"] as const;
+
+export type AnnuityCola = typeof ANNUITY_COLA_OPTIONS[number];
+
+/** Annuities without a COLA choice stay flat, the only behavior before COLAs existed. */
+export const annuityColaFrom = oneOf(ANNUITY_COLA_OPTIONS, "None");
+
+/** Assumed return on an invested lump sum when the item does not set one. */
+export const DEFAULT_LUMP_SUM_RATE = 0.05;
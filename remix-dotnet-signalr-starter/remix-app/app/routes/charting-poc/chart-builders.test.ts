@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildInvestmentBalanceAndWithdrawalChart,
+  buildTotalInvestmentAggregates,
+  buildWageMonthlyIncomeChart,
+  depletionYearOf,
+} from "./chart-builders";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+
+describe("depletionYearOf", () => {
+  it("finds the first year at zero after a funded year", () => {
+    expect(depletionYearOf({ 2030: 5000, 2031: 1000, 2032: 0, 2033: 0 }, 2030, 2033)).toBe(2032);
+  });
+
+  it("is undefined while the balance lasts", () => {
+    expect(depletionYearOf({ 2030: 5000, 2031: 4000 }, 2030, 2031)).toBeUndefined();
+  });
+
+  it("ignores a balance that was never funded and years without a value", () => {
+    expect(depletionYearOf({ 2030: 0, 2031: 0 }, 2030, 2031)).toBeUndefined();
+    expect(depletionYearOf({ 2030: 5000, 2031: null, 2033: 0 }, 2030, 2033)).toBe(2033);
+  });
+
+  it("measures against a floor", () => {
+    expect(depletionYearOf({ 2030: 50000, 2031: 30000, 2032: 10000 }, 2030, 2032, 20000)).toBe(2032);
+  });
+});
+
+describe("year-by-year ledgers", () => {
+  const model: RetirementModel = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    asOfDate: "10/01/2026",
+    retireDate: "01/01/2028",
+    yearsAfterRetire: 2,
+    taxPercentage: 0.2,
+    inflationPercentage: 0.03,
+    wages: { items: { Job: { annual: 120000, stopWorkDate: "12/31/2027" } } },
+    investments: {
+      items: {
+        "401k": { balance: 100000, rate: 0.06, contributionsFrom: "Job", contributionRate: 0.1, withdrawalDate: "01/01/2028", withdrawalRate: 0.04 },
+      },
+    },
+  };
+
+  it("totals an income stream's months per year, from the as-of month", () => {
+    const { ledger } = buildWageMonthlyIncomeChart("Job", model);
+    expect(ledger.columns).toEqual(["Gross Wage", "Tax", "After Tax", "Inflation Adjustment", "After Tax & Inflation"]);
+    expect(ledger.rows[0]).toEqual({ year: 2026, values: [30000, 6000, 24000, 0, 24000] });
+    expect(ledger.rows.map(r => r.year)).toEqual([2026, 2027]);
+  });
+
+  it("reconciles each year's start and end balances with its flows", () => {
+    const { ledger } = buildInvestmentBalanceAndWithdrawalChart("401k", model);
+    const column = (label: string) => ledger.columns.indexOf(label);
+    ledger.rows.forEach(({ values }) => {
+      const v = (label: string) => values[column(label)] ?? 0;
+      const flows = v("Start Balance") + v("Contributions") + v("Employer Match") + v("Growth") + v("Events") - v("Withdrawal");
+      expect(Math.abs(flows - v("End Balance"))).toBeLessThanOrEqual(3);
+    });
+    expect(ledger.rows[0].values[column("Start Balance")]).toBe(100000);
+    expect(ledger.rows[1].values[column("Start Balance")]).toBe(ledger.rows[0].values[column("End Balance")]);
+  });
+});
+
+describe("income composition", () => {
+  const model: RetirementModel = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    asOfDate: "01/01/2030",
+    birthDate: "01/01/1965",
+    retireDate: "01/01/2032",
+    yearsAfterRetire: 5,
+    filingStatus: "Single",
+    inflationPercentage: 0.03,
+    wages: { items: { Job: { annual: 90000, stopWorkDate: "12/31/2031" } } },
+    investments: { items: { IRA: { balance: 400000, rate: 0.05, withdrawalDate: "01/01/2032", withdrawalRate: 0.04 }, Idle: { balance: 1000, rate: 0 } } },
+    annuities: { items: { Pension: { monthly: 1500, startDate: "01/01/2032" } } },
+    socialSecurity: { items: { Benefit: { birthDate: "01/01/1965", pia: 2500, claimingAge: 67 } } },
+  };
+  const agg = buildTotalInvestmentAggregates(model);
+
+  it("stacks every source that pays income, in each basis", () => {
+    expect([...new Set(agg.incomeComposition.map(c => c.name))])
+      .toEqual(["Job Take-Home Pay", "IRA Withdrawals", "Pension Annuity", "Benefit Social Security"]);
+    expect(agg.incomeComposition.map(c => c.basis).slice(0, 3)).toEqual(["Nominal", "After Tax", "Real"]);
+  });
+
+  it("adds up to the total income in each basis", () => {
+    agg.withdrawalSeries.slice(0, 3).forEach(total => {
+      for (let y = agg.beginYear; y <= agg.endYear; y++) {
+        const stacked = agg.incomeComposition.filter(c => c.basis === total.basis).reduce((sum, c) => sum + (c.values[y] ?? 0), 0);
+        expect(Math.abs(stacked - (total.values[y] ?? 0))).toBeLessThanOrEqual(4);
+      }
+    });
+  });
+});
+
+describe("milestone annotations", () => {
+  const model: RetirementModel = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    asOfDate: "01/01/2030",
+    retireDate: "07/01/2031",
+    yearsAfterRetire: 3,
+    taxPercentage: 0.2,
+    wages: { items: { Job: { annual: 90000, stopWorkDate: "06/30/2031" } } },
+    investments: {
+      items: { IRA: { balance: 60000, rate: 0, withdrawalDate: "07/01/2031", withdrawalStrategy: "Fixed Dollar Target", withdrawalMonthly: 2500 } },
+    },
+  };
+
+  it("marks retirement to the end of the chart, stop and start dates, and the month a balance runs out", () => {
+    const { annotations } = buildInvestmentBalanceAndWithdrawalChart("IRA", model);
+    expect(annotations.map(({ x, x2, label }) => ({ x, x2, label }))).toEqual([
+      { x: 2031, x2: 2034, label: "Retirement" },
+      { x: 2031, x2: undefined, label: "Job Stops" },
+      { x: 2031, x2: undefined, label: "IRA Withdrawals Start" },
+      { x: 2033, x2: undefined, label: "IRA Depleted" },
+    ]);
+  });
+
+  it("places milestones on their month in monthly charts", () => {
+    const { annotations } = buildInvestmentBalanceAndWithdrawalChart("IRA", model, { granularity: 'month' });
+    // 24 payments from July 2031 empty the account at the end of June 2033.
+    expect(annotations.find(a => a.label === "IRA Depleted")?.x).toBe(2033 + 5 / 12);
+  });
+});
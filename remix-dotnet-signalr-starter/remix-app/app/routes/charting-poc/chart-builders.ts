@@ -1,425 +1,1115 @@
 // Centralized chart builder utility functions extracted from _index.tsx
 // Each function returns the data shape expected by the FinancialChart component.
+// The month-by-month simulation lives in projection-engine.ts; builders apply tax and
+// inflation and roll the monthly ledgers up to chart points.
 
-/** Date regex for very lightweight validation (MM/DD/YYYY). */
-const DATE_YEAR_REGEX = /^(\d{2})\/(\d{2})\/(\d{4})$/;
+import { computeIncomeTax, isFilingStatus, NO_STATE_TAX, taxableSocialSecurity, type TaxProfile } from "./tax";
+import {
+  adjustForInflation,
+  createTimeline,
+  extractYear,
+  monthKey,
+  monthlyGrowth,
+  monthRangeOf,
+  parseDate,
+  planEndYear,
+  planStartMonth,
+  planStartYear,
+  priceIndexFor,
+  projectAnnuityMonths,
+  projectContributionMonths,
+  projectExpenseMonths,
+  projectHealthcareMonths,
+  projectInvestmentLedgers,
+  projectInvestmentMonths,
+  projectLiabilityMonths,
+  projectSocialSecurityMonths,
+  projectWageMonths,
+  rollUp,
+  toMonthIndex,
+  wageStopDateFor,
+  yearOfMonth,
+  type Granularity,
+  type InvestmentLedger,
+  type LiabilityLedger,
+  type PriceIndex,
+  type Timeline,
+} from "./projection-engine";
+import type { RetirementModel } from "./retirement-model";
+import { shortfallYearsFrom } from "./expenses";
+import { DEFAULT_LUMP_SUM_RATE } from "./annuities";
+import { EVENT_MARKER_COLORS, eventDirectionFrom } from "./events";
+import { PAYOFF_MARKER_COLOR } from "./liabilities";
+import { HOUSEHOLD_MEMBERS, isCouple, memberOf } from "./household";
+import { withdrawalPlanModeFrom } from "./withdrawal-sequencing";
+import type { DisplayBasis } from "./display-basis";
 
 /**
- * Defensive helper: user/model percent values should already be fractional (0.0925 for 9.25%).
- * If a legacy or corrupted model stores 9.25 instead, we auto-normalize.
+ * Optional overrides for a projection run. Omitting them yields the deterministic
+ * projection driven purely by the model.
  */
-function normalizePct(val: unknown): number {
-  const n = Number(val);
-  if (!isFinite(n) || n === 0) return 0;
-  // Treat any magnitude > 1 (or < -1) as a whole-percent input.
-  return (n > 1 || n < -1) ? n / 100 : n;
+export interface ProjectionOptions {
+  /**
+   * Continuously compounded return for an investment in a given year. Defaults to the
+   * investment's fixed `rate`. Used by simulation modes to inject sampled return paths.
+   */
+  returnRateFor?: (investmentName: string, year: number) => number;
+  /**
+   * Average income tax rate on a year's taxable income. Defaults to the household schedule
+   * produced by the tax engine (or the legacy flat `taxPercentage` for plans without a filing status).
+   */
+  taxRateFor?: (year: number) => number;
+  /**
+   * Inflation during a year. Defaults to the model's constant `inflationPercentage`. Used by
+   * historical replays to inject CPI; tax brackets stay indexed at the constant assumption.
+   */
+  inflationRateFor?: (year: number) => number;
+  /** Share (0..1) of a year's Social Security benefits that is taxable. Defaults to the household schedule. */
+  socialSecurityTaxableShareFor?: (year: number) => number;
+  /**
+   * Added to every year's average and marginal tax rate (e.g. 0.01 = one percentage point higher),
+   * clamped to 0..1. Used by sensitivity analysis; ignored when `taxRateFor` is supplied.
+   */
+  taxRateAdjustment?: number;
+  /** Chart point spacing; defaults to yearly points. */
+  granularity?: Granularity;
 }
 
-/** Extract year integer from a date string (MM/DD/YYYY) or return undefined. */
-function extractYear(dateStr: unknown): number | undefined {
-  if (typeof dateStr !== 'string') return undefined;
-  const m = DATE_YEAR_REGEX.exec(dateStr);
-  return m ? Number(m[3]) : undefined;
+const ZERO_TAX = (): number => 0;
+
+interface TaxSchedule {
+  rateFor: (year: number) => number;
+  socialSecurityTaxableShareFor: (year: number) => number;
+}
+
+/** Tax engine profile from the model, or undefined for legacy plans that only carry `taxPercentage`. */
+function taxProfileFrom(model: RetirementModel): TaxProfile | undefined {
+  if (!isFilingStatus(model.filingStatus)) return undefined;
+  return {
+    filingStatus: model.filingStatus,
+    state: model.stateOfResidence || NO_STATE_TAX,
+    inflationRate: Number(model.inflationPercentage) || 0,
+  };
+}
+
+const adjustedTaxRate = (rate: number, options?: ProjectionOptions): number =>
+  Math.min(1, Math.max(0, rate + (options?.taxRateAdjustment ?? 0)));
+
+/**
+ * The household schedule last derived from an aggregate projection, keyed by the plan's content and
+ * tax adjustment. Each single-source chart of one plan needs the same schedule, and the plan reaches
+ * the projection worker as a fresh copy with every request, so its identity cannot be the key.
+ */
+let lastTaxSchedule: { key: string; schedule: TaxSchedule } | undefined;
+
+/**
+ * Resolve the per-year tax schedule a single-source builder should apply.
+ * Progressive tax depends on the whole household's income, so unless the caller already
+ * supplied a schedule we derive it from the combined aggregate projection (once per plan, unless
+ * rate callbacks make the projection uncacheable).
+ */
+function resolveTaxSchedule(model: RetirementModel, options?: ProjectionOptions): TaxSchedule {
+  if (options?.taxRateFor) {
+    return {
+      rateFor: options.taxRateFor,
+      socialSecurityTaxableShareFor: options.socialSecurityTaxableShareFor ?? (() => 1),
+    };
+  }
+  if (!taxProfileFrom(model)) {
+    const flatRate = adjustedTaxRate(Number(model.taxPercentage) || 0, options);
+    return { rateFor: () => flatRate, socialSecurityTaxableShareFor: () => 1 };
+  }
+  const cacheable = !options?.returnRateFor && !options?.inflationRateFor;
+  const key = cacheable ? JSON.stringify([model, options?.taxRateAdjustment ?? 0]) : undefined;
+  if (key !== undefined && lastTaxSchedule?.key === key) return lastTaxSchedule.schedule;
+  const { effectiveTaxRates, socialSecurityTaxableShares } = buildTotalInvestmentAggregates(model, options);
+  const schedule: TaxSchedule = {
+    rateFor: (year) => effectiveTaxRates[year] ?? 0,
+    socialSecurityTaxableShareFor: (year) => socialSecurityTaxableShares[year] ?? 0,
+  };
+  if (key !== undefined) lastTaxSchedule = { key, schedule };
+  return schedule;
+}
+
+/** A wage runs to its stop-work year unless a fixed planning horizon overrides it. */
+function wageEndYear(model: RetirementModel, wageName: string, beginYear: number): number {
+  const planningHorizonYears = Number(model.planningHorizonYears) || undefined;
+  const stopWorkYear = wageStopDateFor(model, wageName)?.year;
+  const endYear = planningHorizonYears && planningHorizonYears > 0
+    ? beginYear + planningHorizonYears - 1
+    : (stopWorkYear ?? beginYear);
+  return endYear < beginYear ? beginYear : endYear; // guard
+}
+
+/**
+ * Monthly tax, after-tax and real (after tax & inflation) amounts for a monthly income stream.
+ * `taxFor` returns the tax owed on month `i`'s gross amount.
+ */
+function incomeMonths(
+  timeline: Timeline,
+  gross: (number | null)[],
+  taxFor: (i: number, gross: number) => number,
+  prices: PriceIndex
+): { tax: (number | null)[]; afterTax: (number | null)[]; realAfterTax: (number | null)[] } {
+  const tax = gross.map((g, i) => g === null ? null : taxFor(i, g));
+  const afterTax = gross.map((g, i) => g === null ? null : g - (tax[i] ?? 0));
+  const realAfterTax = afterTax.map((v, i) => v === null
+    ? null
+    : adjustForInflation(v, yearOfMonth(timeline.months[i]), prices));
+  return { tax, afterTax, realAfterTax };
 }
 
-/** Inflation adjust an after-tax nominal value back to base year purchasing power. */
-function adjustForInflation(afterTaxValue: number, year: number, beginYear: number, inflRate: number): number {
-  if (!inflRate) return afterTaxValue; // fast path
-  const yearsOffset = year - beginYear;
-  return afterTaxValue / Math.pow(1 + inflRate, yearsOffset);
+/** Gross, after-tax and real (after tax & inflation) chart values for a monthly income stream. */
+function incomeSeriesValues(
+  timeline: Timeline,
+  gross: (number | null)[],
+  taxFor: (i: number, gross: number) => number,
+  prices: PriceIndex,
+  granularity: Granularity
+): [Record<number, number | null>, Record<number, number | null>, Record<number, number | null>] {
+  const { afterTax, realAfterTax } = incomeMonths(timeline, gross, taxFor, prices);
+  return [
+    rollUp(timeline, gross, granularity, 'average'),
+    rollUp(timeline, afterTax, granularity, 'average'),
+    rollUp(timeline, realAfterTax, granularity, 'average'),
+  ];
 }
 
-/** Small utility to round (Math.round) consistently. */
-const R = Math.round;
+/** Year-by-year amounts behind a chart: one row per year, `values[c]` under `columns[c]`. */
+type YearLedger = { columns: string[]; rows: { year: number; values: (number | null)[] }[] };
 
-/** Inclusive year range utility. */
-const rangeYears = (begin: number, end: number): number[] =>
-  Array.from({ length: end - begin + 1 }, (_, i) => begin + i);
+/**
+ * A ledger column from monthly values: 'total' sums the year's months, 'end' takes the year's last
+ * value and 'start' the value before the year's first month (`initial` in the first year).
+ */
+type LedgerColumn = { label: string; monthly: (number | null)[]; mode: 'total' | 'start' | 'end'; initial?: number };
+
+/** Roll monthly columns up to whole-dollar yearly rows. A year with no values in a column is null. */
+function yearLedgerFrom(timeline: Timeline, columns: LedgerColumn[]): YearLedger {
+  const rows: YearLedger['rows'] = [];
+  for (let y = timeline.beginYear; y <= timeline.endYear; y++) {
+    const { start, end } = monthRangeOf(timeline, y);
+    rows.push({
+      year: y,
+      values: columns.map(({ monthly, mode, initial }) => {
+        if (mode === 'start') {
+          const v = start === 0 ? initial : monthly[start - 1];
+          return typeof v === 'number' ? Math.round(v) : null;
+        }
+        const values = monthly.slice(start, end).filter((v): v is number => typeof v === 'number');
+        if (!values.length) return null;
+        return Math.round(mode === 'end' ? values[values.length - 1] : values.reduce((a, b) => a + b, 0));
+      }),
+    });
+  }
+  return { columns: columns.map(c => c.label), rows };
+}
+
+/** Outflows the balance could not cover, as a ledger column when there are any. */
+const unfundedEventColumns = (monthly: (number | null)[]): LedgerColumn[] =>
+  monthly.some(v => (v ?? 0) > 0) ? [{ label: 'Unfunded Events', monthly, mode: 'total' }] : [];
+
+/** Ledger columns for an income stream: gross, tax, after tax, the inflation adjustment and the real amount. */
+function incomeLedgerColumns(
+  grossLabel: string,
+  gross: (number | null)[],
+  { tax, afterTax, realAfterTax }: ReturnType<typeof incomeMonths>
+): LedgerColumn[] {
+  return [
+    { label: grossLabel, monthly: gross, mode: 'total' },
+    { label: 'Tax', monthly: tax, mode: 'total' },
+    { label: 'After Tax', monthly: afterTax, mode: 'total' },
+    { label: 'Inflation Adjustment', monthly: realAfterTax.map((v, i) => v === null ? null : v - (afterTax[i] ?? 0)), mode: 'total' },
+    { label: 'After Tax & Inflation', monthly: realAfterTax, mode: 'total' },
+  ];
+}
+
+/** Month-by-month sum of several streams; null in months where every stream is null. */
+function sumMonths(streams: (number | null)[][]): (number | null)[] {
+  return (streams[0] ?? []).map((_, i) => streams.reduce<number | null>((sum, stream) => {
+    const v = stream[i];
+    return typeof v === 'number' ? (sum ?? 0) + v : sum;
+  }, null));
+}
+
+/** Monthly growth of an account: the change in balance not explained by its cash flows. */
+function investmentGrowthMonths(ledger: InvestmentLedger, initialBalance: number): number[] {
+  return ledger.balance.map((b, i) => b - (i === 0 ? initialBalance : ledger.balance[i - 1])
+    - ledger.contribution[i] - ledger.employerMatch[i] - ledger.eventFlow[i] + (ledger.withdrawal[i] ?? 0));
+}
+
+/**
+ * Chart markers for one-time events, positioned at the event's year (or month in monthly mode).
+ * Pass `investmentName` to keep only events paid into or out of that investment.
+ */
+export function eventMarkersFor(model: RetirementModel, granularity: Granularity, investmentName?: string): { x: number; label: string; color?: string }[] {
+  const events = model.events?.items ?? {};
+  return Object.keys(events).sort().flatMap(name => {
+    const event = events[name];
+    const date = parseDate(event.date);
+    if (!date || !event.investment || !model.investments?.items?.[event.investment]) return [];
+    if (investmentName !== undefined && event.investment !== investmentName) return [];
+    return [{
+      x: granularity === 'month' ? monthKey(toMonthIndex(date.year, date.month)) : date.year,
+      label: name,
+      color: EVENT_MARKER_COLORS[eventDirectionFrom(event.direction)],
+    }];
+  });
+}
+
+/** Milestone colors: retirement is shaded, dated starts and stops are neutral, a depleted balance is red. */
+const MILESTONE_COLORS = { retirement: '#059669', date: '#64748b', depletion: '#dc2626' };
+
+/**
+ * Plan milestones for a chart on `timeline`: retirement (shaded to the end of the chart; each
+ * partner's in a couple), each wage's stop-work date, each investment's withdrawal start (per-account
+ * withdrawals only), each annuity's start and, for the ledgers given, the month a balance runs out.
+ */
+function milestoneAnnotationsFor(
+  model: RetirementModel,
+  timeline: Timeline,
+  granularity: Granularity,
+  ledgers: Record<string, InvestmentLedger> = {}
+): { x: number; x2?: number; label: string; color?: string }[] {
+  const xOf = (m: number): number => granularity === 'month' ? monthKey(m) : yearOfMonth(m);
+  const first = timeline.months[0];
+  const last = timeline.months[timeline.months.length - 1];
+  const at = (label: string, date: { year: number; month: number } | undefined, color = MILESTONE_COLORS.date) =>
+    date ? [{ x: xOf(toMonthIndex(date.year, date.month)), label, color }] : [];
+
+  const retirements = isCouple(model)
+    ? HOUSEHOLD_MEMBERS.map(key => ({ label: `${key} Retirement`, date: parseDate(memberOf(model, key).retireDate) }))
+    : [{ label: 'Retirement', date: parseDate(model.retireDate) }];
+  const retirementRanges = retirements.flatMap(({ label, date }) => {
+    const start = date ? toMonthIndex(date.year, date.month) : undefined;
+    return start === undefined || start > last ? []
+      : [{ x: xOf(Math.max(first, start)), x2: xOf(last), label, color: MILESTONE_COLORS.retirement }];
+  });
+
+  const perAccount = withdrawalPlanModeFrom(model.withdrawalPlan?.mode) === "Per Account";
+  const investments = model.investments?.items ?? {};
+  const annuities = model.annuities?.items ?? {};
+  return [
+    ...retirementRanges,
+    ...Object.keys(model.wages?.items ?? {}).sort().flatMap(name => at(`${name} Stops`, wageStopDateFor(model, name))),
+    ...(perAccount ? Object.keys(investments).sort() : [])
+      .flatMap(name => at(`${name} Withdrawals Start`, parseDate(investments[name].withdrawalDate))),
+    ...Object.keys(annuities).sort().flatMap(name => at(`${name} Annuity Starts`, parseDate(annuities[name].startDate))),
+    ...Object.keys(ledgers).sort().flatMap(name => {
+      const balance = ledgers[name].balance;
+      const depleted = balance.findIndex((b, i) => b <= 0 && balance.slice(0, i).some(prior => prior > 0));
+      return depleted < 0 ? [] : [{ x: xOf(timeline.months[depleted]), label: `${name} Depleted`, color: MILESTONE_COLORS.depletion }];
+    }),
+  ];
+}
 
-export function buildWageMonthlyIncomeChart(wageName: string, model: any): {
+export function buildWageMonthlyIncomeChart(wageName: string, model: RetirementModel, options?: ProjectionOptions): {
   beginYear: number;
   endYear: number;
   valueLabel: string;
-  series: { name: string; values: Record<number, number>; strokeWidth?: number; strokeDasharray?: string }[];
+  granularity: Granularity;
+  series: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string; basis?: DisplayBasis }[];
+  /** Plan milestones (retirement, start and stop dates) to annotate the chart with. */
+  annotations: { x: number; x2?: number; label: string; color?: string }[];
+  /** Year-by-year amounts behind the chart. */
+  ledger: YearLedger;
 } {
-  const wageData: any = model?.wages?.items?.[wageName] || {};
-  const annual: number = Number(wageData.annual) || 0;
-  const raise: number = normalizePct(wageData.raise); // fractional
-  const taxRate: number = normalizePct(model?.taxPercentage);
-  const inflRate: number = normalizePct(model?.inflationPercentage);
-  const beginYear = new Date().getFullYear();
-  const planningHorizonYears = Number(model?.planningHorizonYears) || undefined;
+  const taxRateFor = resolveTaxSchedule(model, options).rateFor;
+  const granularity = options?.granularity ?? 'year';
+  const beginYear = planStartYear(model);
   // Horizon preference: planning horizon overrides stop work.
-  const stopWorkYear = extractYear(wageData.stopWorkDate);
-  let endYear = planningHorizonYears && planningHorizonYears > 0
-    ? beginYear + planningHorizonYears - 1
-    : (stopWorkYear ?? beginYear);
-  if (endYear < beginYear) endYear = beginYear; // guard
-
-  const years = rangeYears(beginYear, endYear);
-  const raiseMultiplier = 1 + raise; // growth per year
-  const wageYearTuples = years.map((y, idx) => {
-    const annualForYear = annual * Math.pow(raiseMultiplier, idx);
-    const monthlyIncome = annualForYear / 12;
-    const gross = R(monthlyIncome);
-    const afterTax = R(monthlyIncome * (1 - taxRate));
-    const realAfterTax = R(adjustForInflation(afterTax, y, beginYear, inflRate));
-    return [y, gross, afterTax, realAfterTax] as const;
-  });
-  const grossValues = Object.fromEntries(wageYearTuples.map(t => [t[0], t[1]])) as Record<number, number>;
-  const afterTaxValues = Object.fromEntries(wageYearTuples.map(t => [t[0], t[2]])) as Record<number, number>;
-  const realAfterTaxValues = Object.fromEntries(wageYearTuples.map(t => [t[0], t[3]])) as Record<number, number>;
+  const endYear = wageEndYear(model, wageName, beginYear);
+
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const gross = projectWageMonths(wageName, model, timeline);
+  const taxFor = (i: number, g: number): number => g * taxRateFor(yearOfMonth(timeline.months[i]));
+  const [grossValues, afterTaxValues, realAfterTaxValues] = incomeSeriesValues(timeline, gross, taxFor, prices, granularity);
   return {
     beginYear,
     endYear,
     valueLabel: 'Monthly Income',
+    granularity,
     series: [
-      { name: `${wageName} Gross`, values: grossValues, strokeWidth: 3 },
-      { name: `${wageName} After Tax`, values: afterTaxValues, strokeDasharray: '5 4' },
-      { name: `${wageName} After Tax & Inflation`, values: realAfterTaxValues, strokeDasharray: '2 3' }
-    ]
+      { name: `${wageName} Gross`, values: grossValues, strokeWidth: 3, basis: 'Nominal' },
+      { name: `${wageName} After Tax`, values: afterTaxValues, strokeDasharray: '5 4', basis: 'After Tax' },
+      { name: `${wageName} After Tax & Inflation`, values: realAfterTaxValues, strokeDasharray: '2 3', basis: 'Real' }
+    ],
+    annotations: milestoneAnnotationsFor(model, timeline, granularity),
+    ledger: yearLedgerFrom(timeline, incomeLedgerColumns('Gross Wage', gross, incomeMonths(timeline, gross, taxFor, prices)))
   };
 }
 
 /**
  * Build investment projection chart:
- * - Balance growth with annual compounding and withdrawals after withdrawalDate.
- * - Monthly withdrawal income line starting at withdrawal year.
- * Assumptions:
- *   * Withdrawals taken at end of year after growth based on starting balance of that year.
- *   * Monthly withdrawal displayed = annual withdrawal / 12 rounded.
+ * - Balance growth with monthly compounding and withdrawals from withdrawalDate.
+ * - Monthly withdrawal income line starting at the withdrawal date.
+ * Assumptions (see projectInvestmentMonths):
+ *   * Annual withdrawal = the account's withdrawal strategy applied to the start-of-year balance
+ *     (see withdrawal-strategies.ts), paid in monthly installments. With a household income target,
+ *     the account's share of the household's sequenced withdrawals instead (see projectInvestmentLedgers).
  *   * Balance never drops below 0 (withdrawal capped if necessary).
+ * Tax treatment:
+ *   * Traditional: withdrawals fully taxable; RMDs forced from the owner's RMD age (needs model.birthDate).
+ *   * Roth: withdrawals tax-free.
+ *   * Taxable: only the gain share of each withdrawal is taxable (average cost basis).
  */
-export function buildInvestmentBalanceAndWithdrawalChart(investmentName: string, model: any): {
+export function buildInvestmentBalanceAndWithdrawalChart(investmentName: string, model: RetirementModel, options?: ProjectionOptions): {
   beginYear: number;
   endYear: number;
-  balance: { name: string; values: Record<number, number>; strokeWidth?: number };
-  withdrawalSeries: { name: string; values: Record<number, number | null>; strokeDasharray?: string; strokeWidth?: number }[];
+  granularity: Granularity;
+  balance: { name: string; values: Record<number, number | null>; strokeWidth?: number };
+  withdrawalSeries: { name: string; values: Record<number, number | null>; strokeDasharray?: string; strokeWidth?: number; basis?: DisplayBasis }[];
+  /** One-time events paid into or out of this investment. */
+  markers: { x: number; label: string; color?: string }[];
+  /** Plan milestones (retirement, start and stop dates, this balance running out) to annotate the chart with. */
+  annotations: { x: number; x2?: number; label: string; color?: string }[];
+  /** Year-by-year amounts behind the chart. */
+  ledger: YearLedger;
 } {
-  const investmentRoot: any = model?.investments;
-  const investment: any = investmentRoot?.items?.[investmentName]
-    || (investmentRoot && !('items' in investmentRoot) ? investmentRoot?.[investmentName] : {})
-    || {};
-
-  const initialBalance: number = Number(investment.balance) || 0;
-  const rate: number = normalizePct(investment.rate);
-  const withdrawalRate: number = normalizePct(investment.withdrawalRate);
-  const contributionsFromWage: string | undefined = investment.contributionsFrom;
-  const contributionRate: number = normalizePct(investment.contributionRate);
-  const taxRate: number = normalizePct(model?.taxPercentage);
-  const inflRate: number = normalizePct(model?.inflationPercentage);
-  const yearsAfterRetire: number = Number(model?.yearsAfterRetire) || 0;
-  const planningHorizonYears = Number(model?.planningHorizonYears) || undefined;
-
-  const nowYear = new Date().getFullYear();
-  const beginYear = nowYear;
-  const retireYear = extractYear(model?.retireDate);
-  const withdrawalYear = extractYear(investment.withdrawalDate);
-
-  let endYear = retireYear ? retireYear + yearsAfterRetire : nowYear + 10;
-  if (planningHorizonYears && planningHorizonYears > 0) {
-    endYear = beginYear + planningHorizonYears - 1;
-  }
+  const taxRateFor = resolveTaxSchedule(model, options).rateFor;
+  const granularity = options?.granularity ?? 'year';
+  const beginYear = planStartYear(model);
+  const endYear = planEndYear(model, beginYear);
 
-  // Wage reference (if any) for contributions.
-  let wageAnnualBase = 0;
-  let wageRaise = 0;
-  let wageStopWorkYear: number | undefined;
-  if (contributionsFromWage) {
-    const wageData: any = model?.wages?.items?.[contributionsFromWage];
-    if (wageData) {
-      wageAnnualBase = Number(wageData.annual) || 0;
-      wageRaise = normalizePct(wageData.raise);
-      wageStopWorkYear = extractYear(wageData.stopWorkDate);
-    }
-  }
-
-  // Flags and caches
-  const enableLegacyBalancePctFallback = false;
-  const continuousGrowthMultiplier = Math.exp(rate) - 1; // (e^r - 1)
-  const wageRaiseMultiplier = 1 + wageRaise;
-  let wageAnnualForYear = wageAnnualBase; // incremental growth
-
-  const years = rangeYears(beginYear, endYear);
-  const results = years.reduce((acc, y, idx) => {
-    const balanceStartOfYear = idx === 0 ? initialBalance : acc.prevBalanceEnd;
-    const withinWageYears = (wageStopWorkYear === undefined) || y <= wageStopWorkYear;
-    const wageAnnualForYearStatic = wageAnnualBase > 0
-      ? wageAnnualBase * Math.pow(wageRaiseMultiplier, idx)
-      : 0;
-    const contributionAnnual = contributionRate > 0
-      ? contributionsFromWage && wageAnnualBase > 0
-        ? (withinWageYears ? wageAnnualForYearStatic * contributionRate : 0)
-        : (enableLegacyBalancePctFallback ? balanceStartOfYear * contributionRate : 0)
-      : 0;
-    const balanceAfterContribution = balanceStartOfYear + contributionAnnual;
-    const balanceAfterGrowth = balanceAfterContribution + balanceAfterContribution * continuousGrowthMultiplier;
-    const shouldWithdraw = withdrawalYear !== undefined && y >= withdrawalYear && withdrawalRate > 0;
-    const withdrawalAnnualRaw = shouldWithdraw ? balanceStartOfYear * withdrawalRate : 0;
-    const withdrawalAnnual = shouldWithdraw && withdrawalAnnualRaw > balanceAfterGrowth
-      ? balanceAfterGrowth
-      : withdrawalAnnualRaw;
-    const postWithdrawalBalance = balanceAfterGrowth - withdrawalAnnual;
-    const grossMonthly = withdrawalAnnual / 12;
-    const afterTax = grossMonthly * (1 - taxRate);
-    const realAfterTax = adjustForInflation(afterTax, y, beginYear, inflRate);
-    const grossMonthlyVal = shouldWithdraw ? R(grossMonthly) : null;
-    const afterTaxVal = shouldWithdraw ? R(afterTax) : null;
-    const realAfterTaxVal = shouldWithdraw ? R(realAfterTax) : null;
-    acc.balance[y] = R(postWithdrawalBalance);
-    acc.wGross[y] = grossMonthlyVal;
-    acc.wAfterTax[y] = afterTaxVal;
-    acc.wRealAfterTax[y] = realAfterTaxVal;
-    acc.prevBalanceEnd = postWithdrawalBalance;
-    return acc;
-  }, {
-    balance: {} as Record<number, number>,
-    wGross: {} as Record<number, number | null>,
-    wAfterTax: {} as Record<number, number | null>,
-    wRealAfterTax: {} as Record<number, number | null>,
-    prevBalanceEnd: initialBalance,
-  });
-
-  const balanceValues = results.balance;
-  const withdrawalMonthlyValues = results.wGross;
-  const withdrawalAfterTaxValues = results.wAfterTax;
-  const withdrawalRealAfterTaxValues = results.wRealAfterTax;
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const ledger = projectInvestmentMonths(investmentName, model, timeline, options?.returnRateFor, prices);
+  const taxFor = (i: number): number => ledger.taxableWithdrawal[i] * taxRateFor(yearOfMonth(timeline.months[i]));
+  const [withdrawalMonthlyValues, withdrawalAfterTaxValues, withdrawalRealAfterTaxValues] = incomeSeriesValues(
+    timeline,
+    ledger.withdrawal,
+    taxFor,
+    prices,
+    granularity
+  );
+  const initialBalance: number = Number(model.investments?.items?.[investmentName]?.balance) || 0;
 
   return {
     beginYear,
     endYear,
-    balance: { name: `${investmentName} Balance`, values: balanceValues, strokeWidth: 3 },
+    granularity,
+    balance: { name: `${investmentName} Balance`, values: rollUp(timeline, ledger.balance, granularity, 'end'), strokeWidth: 3 },
     withdrawalSeries: [
-      { name: `${investmentName} Withdrawal Gross`, values: withdrawalMonthlyValues, strokeDasharray: '4 4' },
-      { name: `${investmentName} Withdrawal After Tax`, values: withdrawalAfterTaxValues, strokeDasharray: '5 3' },
-      { name: `${investmentName} Withdrawal After Tax & Inflation`, values: withdrawalRealAfterTaxValues, strokeDasharray: '2 3' }
-    ]
+      { name: `${investmentName} Withdrawal Gross`, values: withdrawalMonthlyValues, strokeDasharray: '4 4', basis: 'Nominal' },
+      { name: `${investmentName} Withdrawal After Tax`, values: withdrawalAfterTaxValues, strokeDasharray: '5 3', basis: 'After Tax' },
+      { name: `${investmentName} Withdrawal After Tax & Inflation`, values: withdrawalRealAfterTaxValues, strokeDasharray: '2 3', basis: 'Real' }
+    ],
+    markers: eventMarkersFor(model, granularity, investmentName),
+    annotations: milestoneAnnotationsFor(model, timeline, granularity, { [investmentName]: ledger }),
+    ledger: yearLedgerFrom(timeline, [
+      { label: 'Start Balance', monthly: ledger.balance, mode: 'start', initial: initialBalance },
+      { label: 'Contributions', monthly: ledger.contribution, mode: 'total' },
+      { label: 'Employer Match', monthly: ledger.employerMatch, mode: 'total' },
+      { label: 'Growth', monthly: investmentGrowthMonths(ledger, initialBalance), mode: 'total' },
+      { label: 'Events', monthly: ledger.eventFlow, mode: 'total' },
+      ...unfundedEventColumns(ledger.unfundedEventFlow),
+      ...incomeLedgerColumns('Withdrawal', ledger.withdrawal, incomeMonths(timeline, ledger.withdrawal, taxFor, prices)),
+      { label: 'End Balance', monthly: ledger.balance, mode: 'end' },
+    ])
   };
 }
 
 /**
  * Build annuity monthly income chart:
- * - Shows monthly payment beginning at startDate year through planning horizon (retireYear + yearsAfterRetire or +10 fallback).
- * - Years before start year are null so the line begins cleanly.
+ * - Shows monthly payment beginning at startDate through planning horizon (retireYear + yearsAfterRetire or +10 fallback),
+ *   or until the annuity's end date / term-certain period ends.
+ * - Payments grow with the annuity's COLA (fixed or CPI-linked) and drop to the survivor share after the survivor date.
+ * - Periods before the start date are null so the line begins cleanly; a mid-year start shows a partial first year.
  */
-export function buildAnnuityMonthlyIncomeChart(annuityName: string, model: any): {
+export function buildAnnuityMonthlyIncomeChart(annuityName: string, model: RetirementModel, options?: ProjectionOptions): {
   beginYear: number;
   endYear: number;
   valueLabel: string;
+  granularity: Granularity;
+  series: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string; basis?: DisplayBasis }[];
+  /** Plan milestones (retirement, start and stop dates) to annotate the chart with. */
+  annotations: { x: number; x2?: number; label: string; color?: string }[];
+  /** Year-by-year amounts behind the chart. */
+  ledger: YearLedger;
+} {
+  const taxRateFor = resolveTaxSchedule(model, options).rateFor;
+  const granularity = options?.granularity ?? 'year';
+  const beginYear = planStartYear(model);
+  const endYear = planEndYear(model, beginYear);
+
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const gross = projectAnnuityMonths(annuityName, model, timeline, prices);
+  const taxFor = (i: number, g: number): number => g * taxRateFor(yearOfMonth(timeline.months[i]));
+  const [grossValues, afterTaxValues, realAfterTaxValues] = incomeSeriesValues(timeline, gross, taxFor, prices, granularity);
+  return {
+    beginYear,
+    endYear,
+    valueLabel: 'Monthly Income',
+    granularity,
+    series: [
+      { name: `${annuityName} Gross`, values: grossValues, strokeWidth: 3, basis: 'Nominal' },
+      { name: `${annuityName} After Tax`, values: afterTaxValues, strokeDasharray: '5 4', basis: 'After Tax' },
+      { name: `${annuityName} After Tax & Inflation`, values: realAfterTaxValues, strokeDasharray: '2 3', basis: 'Real' }
+    ],
+    annotations: milestoneAnnotationsFor(model, timeline, granularity),
+    ledger: yearLedgerFrom(timeline, incomeLedgerColumns('Gross Payment', gross, incomeMonths(timeline, gross, taxFor, prices)))
+  };
+}
+
+/**
+ * Lump sum vs. annuity:
+ * - Invests the lump sum on the annuity's start date at the item's lump-sum rate and pays out the same
+ *   gross payments the annuity would, so the balance shows how long the lump sum could replace it.
+ * - `presentValue` is the annuity's payments through the end of the plan discounted to the start date
+ *   at the same rate; a lump sum above it is worth more under that return assumption.
+ * - Tax is ignored on both sides.
+ */
+export function buildAnnuityLumpSumComparison(annuityName: string, model: RetirementModel, options?: ProjectionOptions): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  granularity: Granularity;
   series: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[];
+  lumpSum: number;
+  rate: number;
+  presentValue: number;
+  /** Year the invested lump sum could no longer cover the payments, if it runs out within the plan. */
+  depletionYear?: number;
 } {
-  const annuity: any = model?.annuities?.items?.[annuityName] || {};
-  const monthly: number = Number(annuity.monthly) || 0;
-  const taxRate: number = normalizePct(model?.taxPercentage);
-  const inflRate: number = normalizePct(model?.inflationPercentage);
-  const yearsAfterRetire: number = Number(model?.yearsAfterRetire) || 0;
-  const planningHorizonYears = Number(model?.planningHorizonYears) || undefined;
-
-  const nowYear = new Date().getFullYear();
-  const beginYear = nowYear;
-  const retireYear = extractYear(model?.retireDate);
-  const startYear = extractYear(annuity.startDate);
-  let endYear = retireYear ? retireYear + yearsAfterRetire : nowYear + 10;
-  if (planningHorizonYears && planningHorizonYears > 0) {
-    endYear = beginYear + planningHorizonYears - 1;
-  }
+  const annuity = model.annuities?.items?.[annuityName] ?? {};
+  const granularity = options?.granularity ?? 'year';
+  const beginYear = planStartYear(model);
+  const endYear = planEndYear(model, beginYear);
+  const lumpSum: number = Number(annuity.lumpSum) || 0;
+  const rate: number = annuity.lumpSumRate === undefined || annuity.lumpSumRate === '' ? DEFAULT_LUMP_SUM_RATE : Number(annuity.lumpSumRate) || 0;
 
-  const years = rangeYears(beginYear, endYear);
-  const annuityYearTuples = years.map(y => {
-    const active = startYear !== undefined && y >= startYear;
-    const gross = active ? (monthly ? R(monthly) : 0) : null;
-    const afterTax = gross !== null ? R(gross * (1 - taxRate)) : null;
-    const realAfterTax = gross !== null && afterTax !== null
-      ? R(adjustForInflation(afterTax, y, beginYear, inflRate))
-      : null;
-    return [y, gross, afterTax, realAfterTax] as const;
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const payments = projectAnnuityMonths(annuityName, model, timeline, prices);
+  const start = parseDate(annuity.startDate);
+  const startMonth = Math.max(timeline.months[0], start ? toMonthIndex(start.year, start.month) : Infinity);
+
+  const growth = monthlyGrowth(rate);
+  let balance = lumpSum;
+  let presentValue = 0;
+  let depletionYear: number | undefined;
+  const balances = timeline.months.map((m, i) => {
+    if (m < startMonth) return null;
+    const payment = payments[i] ?? 0;
+    presentValue += payment * Math.exp(-rate * (m - startMonth) / 12);
+    balance = balance * (1 + growth) - payment;
+    if (balance <= 0 && lumpSum > 0) {
+      if (depletionYear === undefined) depletionYear = yearOfMonth(m);
+      balance = 0;
+    }
+    return balance;
   });
-  const grossValues = Object.fromEntries(annuityYearTuples.map(t => [t[0], t[1]])) as Record<number, number | null>;
-  const afterTaxValues = Object.fromEntries(annuityYearTuples.map(t => [t[0], t[2]])) as Record<number, number | null>;
-  const realAfterTaxValues = Object.fromEntries(annuityYearTuples.map(t => [t[0], t[3]])) as Record<number, number | null>;
+  const realBalances = balances.map((b, i) => b === null ? null : adjustForInflation(b, yearOfMonth(timeline.months[i]), prices));
+  return {
+    beginYear,
+    endYear,
+    valueLabel: 'Invested Lump Sum',
+    granularity,
+    series: lumpSum > 0 ? [
+      { name: `${annuityName} Lump Sum Balance`, values: rollUp(timeline, balances, granularity, 'end'), strokeWidth: 3 },
+      { name: `${annuityName} Lump Sum Balance After Inflation`, values: rollUp(timeline, realBalances, granularity, 'end'), strokeDasharray: '2 3' }
+    ] : [],
+    lumpSum,
+    rate,
+    presentValue,
+    depletionYear,
+  };
+}
+
+/**
+ * Build Social Security monthly income chart:
+ * - Benefit = primary insurance amount (today's dollars) x claiming-age adjustment, grown by the annual COLA.
+ * - Payments begin in the month the owner reaches the chosen claiming age (defaults to full retirement age).
+ * - Periods before claiming are null so the line begins cleanly.
+ */
+export function buildSocialSecurityMonthlyIncomeChart(benefitName: string, model: RetirementModel, options?: ProjectionOptions): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  granularity: Granularity;
+  series: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string; basis?: DisplayBasis }[];
+  /** Plan milestones (retirement, start and stop dates) to annotate the chart with. */
+  annotations: { x: number; x2?: number; label: string; color?: string }[];
+  /** Year-by-year amounts behind the chart. */
+  ledger: YearLedger;
+} {
+  const taxSchedule = resolveTaxSchedule(model, options);
+  const granularity = options?.granularity ?? 'year';
+  const beginYear = planStartYear(model);
+  const endYear = planEndYear(model, beginYear);
+
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const gross = projectSocialSecurityMonths(benefitName, model, timeline);
+  const taxFor = (i: number, g: number): number => {
+    const y = yearOfMonth(timeline.months[i]);
+    return g * taxSchedule.rateFor(y) * taxSchedule.socialSecurityTaxableShareFor(y);
+  };
+  const [grossValues, afterTaxValues, realAfterTaxValues] = incomeSeriesValues(timeline, gross, taxFor, prices, granularity);
   return {
     beginYear,
     endYear,
     valueLabel: 'Monthly Income',
+    granularity,
     series: [
-      { name: `${annuityName} Gross`, values: grossValues, strokeWidth: 3 },
-      { name: `${annuityName} After Tax`, values: afterTaxValues, strokeDasharray: '5 4' },
-      { name: `${annuityName} After Tax & Inflation`, values: realAfterTaxValues, strokeDasharray: '2 3' }
-    ]
+      { name: `${benefitName} Gross`, values: grossValues, strokeWidth: 3, basis: 'Nominal' },
+      { name: `${benefitName} After Tax`, values: afterTaxValues, strokeDasharray: '5 4', basis: 'After Tax' },
+      { name: `${benefitName} After Tax & Inflation`, values: realAfterTaxValues, strokeDasharray: '2 3', basis: 'Real' }
+    ],
+    annotations: milestoneAnnotationsFor(model, timeline, granularity),
+    ledger: yearLedgerFrom(timeline, incomeLedgerColumns('Gross Benefit', gross, incomeMonths(timeline, gross, taxFor, prices)))
   };
 }
 
+/** The combined projection, for builders that chart parts of it. */
+type TotalInvestmentAggregates = ReturnType<typeof buildTotalInvestmentAggregates>;
+
+/**
+ * First year from `beginYear` to `endYear` whose balance is at or below `floor` after an earlier year
+ * above it, or undefined if it never runs out. Years without a value are skipped. Every "runs out"
+ * figure (success rates, goal seek, the scenario summary) is read through this.
+ */
+export function depletionYearOf(balance: Record<number, number | null>, beginYear: number, endYear: number, floor = 0): number | undefined {
+  let hadMoney = false;
+  for (let y = beginYear; y <= endYear; y++) {
+    const v = balance[y];
+    if (typeof v !== 'number') continue;
+    if (v > floor) hadMoney = true;
+    else if (hadMoney) return y;
+  }
+  return undefined;
+}
+
 /**
  * Build TOTAL investment balance + withdrawal chart (single multi-line chart)
+ * Tax is applied here to the household's combined taxable income for each year (progressive
+ * brackets when a filing status is set), and the resulting effective rates are returned so the
+ * single-source charts can show consistent after-tax values. Healthcare costs and loan payments
+ * are paid out of after-tax income, so both after-tax income series are net of them.
  */
-export function buildTotalInvestmentAggregates(model: any): {
+export function buildTotalInvestmentAggregates(model: RetirementModel, options?: ProjectionOptions): {
   beginYear: number;
   endYear: number;
-  balanceSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[];
-  withdrawalSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[];
+  granularity: Granularity;
+  balanceSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string; basis?: DisplayBasis }[];
+  /**
+   * Gross, after-tax and real after-tax income (both net of healthcare and loan payments), then
+   * healthcare costs and loan payments when the plan has any.
+   */
+  withdrawalSeries: { name: string; values: Record<number, number | null>; color?: string; strokeWidth?: number; strokeDasharray?: string; basis?: DisplayBasis }[];
+  /**
+   * Monthly income by source (take-home wages, withdrawals, annuities, Social Security) in each
+   * display basis, for stacking: each basis sums to that basis's total before healthcare and loan payments.
+   */
+  incomeComposition: { name: string; values: Record<number, number | null>; basis: DisplayBasis }[];
+  /** Average tax rate on each year's taxable income. */
+  effectiveTaxRates: Record<number, number>;
+  /** Each year's taxable income (ordinary + taxable Social Security), used for IRMAA. */
+  taxableIncomes: Record<number, number>;
+  /** Share of each year's Social Security benefits that is taxable. */
+  socialSecurityTaxableShares: Record<number, number>;
+  /** One-time events across all investments. */
+  markers: { x: number; label: string; color?: string }[];
+  /** Years with an outflow larger than its investment's balance, ascending; the uncovered part is not paid. */
+  unfundedEventYears: number[];
+  /** Plan milestones (retirement, start and stop dates, any balance running out) to annotate the charts with. */
+  annotations: { x: number; x2?: number; label: string; color?: string }[];
+  /** Year-by-year amounts behind the chart. */
+  ledger: YearLedger;
 } {
-  // Investments (normal + legacy structure handling)
-  const invRoot: any = model?.investments;
-  let investmentNames: string[] = [];
-  if (invRoot) {
-    if (invRoot.items && typeof invRoot.items === 'object') investmentNames = Object.keys(invRoot.items).sort();
-    else if (!('items' in invRoot) && typeof invRoot === 'object') investmentNames = Object.keys(invRoot).sort();
-  }
-
-  const wageRoot: any = model?.wages?.items;
-  const wageNames: string[] = wageRoot ? Object.keys(wageRoot).sort() : [];
-  const annRoot: any = model?.annuities?.items;
-  const annuityNames: string[] = annRoot ? Object.keys(annRoot).sort() : [];
+  const granularity = options?.granularity ?? 'year';
+  const investmentNames = Object.keys(model.investments?.items ?? {}).sort();
+  const wageNames = Object.keys(model.wages?.items ?? {}).sort();
+  const annuityNames = Object.keys(model.annuities?.items ?? {}).sort();
+  const socialSecurityNames = Object.keys(model.socialSecurity?.items ?? {}).sort();
+  const liabilityNames = Object.keys(model.liabilities?.items ?? {}).sort();
 
   // Nothing => empty stub
-  if (!investmentNames.length && !annuityNames.length && !wageNames.length) {
-    const nowYear = new Date().getFullYear();
-    return { beginYear: nowYear, endYear: nowYear, balanceSeries: [], withdrawalSeries: [] };
+  if (!investmentNames.length && !annuityNames.length && !wageNames.length && !socialSecurityNames.length && !liabilityNames.length) {
+    const startYear = planStartYear(model);
+    return { beginYear: startYear, endYear: startYear, granularity, balanceSeries: [], withdrawalSeries: [], incomeComposition: [], effectiveTaxRates: {}, taxableIncomes: {}, socialSecurityTaxableShares: {}, markers: [], unfundedEventYears: [], annotations: [], ledger: { columns: [], rows: [] } };
   }
 
-  const investmentSeries = investmentNames.map(n => buildInvestmentBalanceAndWithdrawalChart(n, model));
-  const annuitySeries = annuityNames.map(n => buildAnnuityMonthlyIncomeChart(n, model));
-  const wageSeries = wageNames.map(n => buildWageMonthlyIncomeChart(n, model));
-
-  // Pre-compute wage stop-work years for spike suppression.
-  const wageStopWorkYears: Record<string, number | undefined> = {};
-  wageNames.forEach(n => { wageStopWorkYears[n] = extractYear(wageRoot?.[n]?.stopWorkDate); });
+  // Determine combined horizon: retirement-phase sources share the plan horizon, wages run to stop work.
+  const beginYear = planStartYear(model);
+  const hasRetirementSources = investmentNames.length + annuityNames.length + socialSecurityNames.length + liabilityNames.length > 0;
+  const endYear = Math.max(
+    hasRetirementSources ? planEndYear(model, beginYear) : beginYear,
+    ...wageNames.map(n => wageEndYear(model, n, beginYear))
+  );
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
 
-  // Determine combined horizon.
-  const horizonSources: any[] = [...investmentSeries, ...annuitySeries, ...wageSeries];
-  const beginYear = horizonSources.reduce((min, p: any) => p.beginYear < min ? p.beginYear : min, horizonSources[0].beginYear);
-  const endYear = horizonSources.reduce((max, p: any) => p.endYear > max ? p.endYear : max, horizonSources[0].endYear);
+  // Month-by-month ledgers for every source on the shared timeline (gross, before tax).
+  const ledgersByName = projectInvestmentLedgers(model, timeline, options?.returnRateFor, prices);
+  const investmentLedgers = investmentNames.map(n => ledgersByName[n]);
+  const annuityMonths = annuityNames.map(n => projectAnnuityMonths(n, model, timeline, prices));
+  const wageMonths = wageNames.map(n => projectWageMonths(n, model, timeline));
+  const socialSecurityMonths = socialSecurityNames.map(n => projectSocialSecurityMonths(n, model, timeline));
+  const liabilityLedgers = liabilityNames.map(n => projectLiabilityMonths(n, model, timeline));
+  const initialBalances = investmentNames.map(n => Number(model.investments?.items?.[n]?.balance) || 0);
+  const initialBalance = initialBalances.reduce((sum, b) => sum + b, 0);
 
-  const taxRateAgg: number = normalizePct(model?.taxPercentage);
-  const inflRateAgg: number = normalizePct(model?.inflationPercentage);
-  // Will populate after years are known.
-  const contributionsPerWageYear: Record<string, Record<number, number>> = {};
+  const taxProfile = taxProfileFrom(model);
+  const flatTaxRate: number = Number(model.taxPercentage) || 0;
 
-  // Aggregates
-  const years = rangeYears(beginYear, endYear);
-
-  // Pre-compute per-wage per-year contribution (monthly) amounts so we can subtract them from wage income.
+  // Per-wage monthly contributions so we can subtract them from wage income.
   // Assumptions:
-  //  * Contributions are pre-tax (so after-tax income reduced by contribution * (1 - taxRate)).
-  //  * Inflation-adjusted after-tax income subtracts inflation-adjusted after-tax portion.
-  if (investmentNames.length && wageNames.length) {
-    wageNames.forEach(wName => { contributionsPerWageYear[wName] = {}; });
-    const wageMeta: Record<string, { base: number; raise: number; stop?: number }> = {};
-    wageNames.forEach(wName => {
-      const w = wageRoot?.[wName] || {};
-      wageMeta[wName] = {
-        base: Number(w.annual) || 0,
-        raise: normalizePct(w.raise),
-        stop: extractYear(w.stopWorkDate)
-      };
-    });
-    investmentNames.forEach(invName => {
-      const inv: any = (invRoot?.items && invRoot.items[invName]) || (!('items' in (invRoot || {})) ? invRoot?.[invName] : undefined) || {};
-      const fromWage: string | undefined = inv.contributionsFrom;
-      if (!fromWage || !(fromWage in wageMeta)) return;
-      const cRate = normalizePct(inv.contributionRate);
-      if (!cRate) return;
-      const meta = wageMeta[fromWage];
-      years.forEach(y => {
-        if (meta.stop !== undefined && y > meta.stop) return;
-        if (y < beginYear) return;
-        const idx = y - beginYear; // wages start at beginYear (nowYear for wage charts)
-        const annualForYear = meta.base * Math.pow(1 + meta.raise, idx);
-        const annualContribution = annualForYear * cRate;
-        const monthlyContribution = annualContribution / 12;
-        contributionsPerWageYear[fromWage][y] = (contributionsPerWageYear[fromWage][y] || 0) + monthlyContribution;
-      });
+  //  * Every contribution reduces take-home pay.
+  //  * Only Traditional contributions are pre-tax (so they reduce the taxable income the tax engine sees).
+  const contributionsPerWage: Record<string, { all: number[]; preTax: number[] }> = {};
+  wageNames.forEach(wName => {
+    contributionsPerWage[wName] = { all: timeline.months.map(() => 0), preTax: timeline.months.map(() => 0) };
+  });
+  investmentLedgers.forEach(ledger => {
+    const target = ledger.contributionsFrom ? contributionsPerWage[ledger.contributionsFrom] : undefined;
+    if (!target) return;
+    ledger.contribution.forEach((c, i) => {
+      target.all[i] += c;
+      if (ledger.taxTreatment === 'Traditional') target.preTax[i] += c;
     });
-  }
-  const aggregates = years.map(y => {
-    // Balance sums
-    const balSum = investmentSeries.reduce((sum, p) => {
-      const v = p.balance.values[y];
-      return typeof v === 'number' ? sum + v : sum;
-    }, 0);
-    const afterTaxBal = balSum * (1 - taxRateAgg);
-    const realAfterTaxBal = adjustForInflation(afterTaxBal, y, beginYear, inflRateAgg);
-
-    // Income components helper
-    const collect = (g?: number | null, at?: number | null, rat?: number | null) => ({ g, at, rat });
-    const incomeParts = [
-      ...investmentSeries.map(p => collect(
-        p.withdrawalSeries[0]?.values[y],
-        p.withdrawalSeries[1]?.values[y],
-        p.withdrawalSeries[2]?.values[y]
-      )),
-      ...annuitySeries.map(a => collect(
-        a.series[0]?.values[y],
-        a.series[1]?.values[y],
-        a.series[2]?.values[y]
-      )),
-      ...wageSeries.map((w, i) => {
-        const wageName = wageNames[i];
-        const stopYear = wageStopWorkYears[wageName];
-        if (stopYear !== undefined && y === stopYear) return collect(null, null, null); // hide spike at final year
-        const gross = w.series[0]?.values[y];
-        const afterTax = w.series[1]?.values[y];
-        const realAfterTax = w.series[2]?.values[y];
-        if (typeof gross !== 'number') return collect(gross as any, afterTax as any, realAfterTax as any);
-        const contribMonthly = contributionsPerWageYear[wageName]?.[y] || 0;
-        if (!contribMonthly) return collect(gross, afterTax as any, realAfterTax as any);
-        // Pre-tax contribution reduces gross. After-tax reduction is contribution * (1 - taxRateAgg).
-        const contribAfterTax = contribMonthly * (1 - taxRateAgg);
-        const adjGross = Math.max(0, R(gross - contribMonthly));
-        const adjAfterTax = (typeof afterTax === 'number') ? Math.max(0, R(afterTax - contribAfterTax)) : afterTax;
-        const adjRealAfterTax = (typeof realAfterTax === 'number')
-          ? Math.max(0, R(realAfterTax - adjustForInflation(contribAfterTax, y, beginYear, inflRateAgg)))
-          : realAfterTax;
-        return collect(adjGross, adjAfterTax as any, adjRealAfterTax as any);
+  });
+
+  // Monthly pass: balances, take-home gross and the taxable pieces of income.
+  const months = timeline.months.map((_, i) => {
+    const bal = investmentLedgers.reduce((sum, l) => sum + l.balance[i], 0);
+    const taxableBal = investmentLedgers.reduce((sum, l) => sum + l.taxableBalance[i], 0);
+
+    // Monthly income components as [take-home gross, ordinary taxable] pairs.
+    // Wages are net of all contributions, but only pre-tax contributions lower taxable income.
+    const incomeParts: ([number, number] | null)[] = [
+      ...investmentLedgers.map(l => {
+        const gross = l.withdrawal[i];
+        return gross === null ? null : [gross, l.taxableWithdrawal[i]] as [number, number];
+      }),
+      ...annuityMonths.map(a => a[i] === null ? null : [a[i], a[i]] as [number, number]),
+      ...wageMonths.map((w, wi) => {
+        const gross = w[i];
+        if (gross === null) return null;
+        const contributions = contributionsPerWage[wageNames[wi]];
+        return [Math.max(0, gross - contributions.all[i]), Math.max(0, gross - contributions.preTax[i])] as [number, number];
       })
     ];
-
-    const { gSum, atSum, ratSum, anyIncome } = incomeParts.reduce((acc, part) => {
-      if (typeof part.g === 'number') { acc.gSum += part.g; acc.anyIncome = true; }
-      if (typeof part.at === 'number') acc.atSum += part.at;
-      if (typeof part.rat === 'number') acc.ratSum += part.rat;
+    const { otherSum, ordinaryTaxable, anyOtherIncome } = incomeParts.reduce((acc, part) => {
+      if (part) { acc.otherSum += part[0]; acc.ordinaryTaxable += part[1]; acc.anyOtherIncome = true; }
       return acc;
-    }, { gSum: 0, atSum: 0, ratSum: 0, anyIncome: false });
+    }, { otherSum: 0, ordinaryTaxable: 0, anyOtherIncome: false });
+    // Outflow events are spent, not income, but are taxed like the withdrawals they are.
+    const eventTaxable = investmentLedgers.reduce((sum, l) => sum + l.taxableEventFlow[i], 0);
+    // Social Security is summed separately because only part of it is taxable.
+    const ssValues = socialSecurityMonths.map(s => s[i]).filter((v): v is number => typeof v === 'number');
+    const ssSum = ssValues.reduce((sum, v) => sum + v, 0);
+
+    return {
+      bal,
+      taxableBal,
+      gross: otherSum + ssSum,
+      ordinaryTaxable: ordinaryTaxable + eventTaxable,
+      ss: ssSum,
+      anyIncome: anyOtherIncome || ssValues.length > 0 || eventTaxable > 0,
+    };
+  });
 
+  // Yearly tax pass: progressive tax on the combined annual income; legacy plans keep the flat rate.
+  // A plan starting mid-year only projects the months left, so its first year is annualized from them.
+  const effectiveTaxRates: Record<number, number> = {};
+  const taxableIncomes: Record<number, number> = {};
+  const socialSecurityTaxableShares: Record<number, number> = {};
+  const marginalTaxRates: Record<number, number> = {};
+  for (let y = beginYear; y <= endYear; y++) {
+    const { start, end } = monthRangeOf(timeline, y);
+    const yearMonths = months.slice(start, end);
+    const annualized = 12 / Math.max(1, yearMonths.length);
+    const ordinaryAnnual = yearMonths.reduce((sum, m) => sum + m.ordinaryTaxable, 0) * annualized;
+    const ssAnnual = yearMonths.reduce((sum, m) => sum + m.ss, 0) * annualized;
+    const taxableSsAnnual = taxProfile
+      ? taxableSocialSecurity(ssAnnual, ordinaryAnnual, taxProfile.filingStatus)
+      : ssAnnual;
+    const taxableAnnual = ordinaryAnnual + taxableSsAnnual;
+    taxableIncomes[y] = taxableAnnual;
+    const tax = taxProfile ? computeIncomeTax(taxableAnnual, y, taxProfile) : undefined;
+    effectiveTaxRates[y] = adjustedTaxRate(tax ? (taxableAnnual > 0 ? tax.total / taxableAnnual : 0) : flatTaxRate, options);
+    socialSecurityTaxableShares[y] = ssAnnual > 0 ? taxableSsAnnual / ssAnnual : 0;
+    // Taxable balances are valued at the rate the next dollar withdrawn would face.
+    marginalTaxRates[y] = adjustedTaxRate(tax ? tax.marginalRate : flatTaxRate, options);
+  }
+
+  // Healthcare is paid from after-tax income; IRMAA follows the taxable income above.
+  const healthcare = projectHealthcareMonths(model, timeline, y => taxableIncomes[y] ?? 0);
+  const healthcareMonths = timeline.months.map((_, i) =>
+    healthcare.preMedicare[i] + healthcare.medicare[i] + healthcare.outOfPocket[i]);
+  // Loan payments are outflows against after-tax income too.
+  const loanPaymentMonths = timeline.months.map((_, i) => liabilityLedgers.reduce((sum, l) => sum + (l.payment[i] ?? 0), 0));
+
+  // Monthly after-tax values: each month carries its share of the year's tax.
+  const series = months.map((m, i) => {
+    const y = yearOfMonth(timeline.months[i]);
+    const taxMonthly = (m.ordinaryTaxable + m.ss * socialSecurityTaxableShares[y]) * effectiveTaxRates[y];
+    const afterTaxBal = m.bal - m.taxableBal * marginalTaxRates[y];
+    const afterTaxIncome = m.gross - taxMonthly - healthcareMonths[i] - loanPaymentMonths[i];
+    const net = m.anyIncome || healthcareMonths[i] > 0 || loanPaymentMonths[i] > 0;
     return {
-      y,
-      bal: balSum,
+      tax: m.anyIncome ? taxMonthly : null,
+      bal: m.bal,
       balAT: afterTaxBal,
-      balRealAT: realAfterTaxBal,
-      g: anyIncome ? gSum : null,
-      at: anyIncome ? atSum : null,
-      rat: anyIncome ? ratSum : null,
+      balRealAT: adjustForInflation(afterTaxBal, y, prices),
+      g: m.anyIncome ? m.gross : null,
+      at: net ? afterTaxIncome : null,
+      rat: net ? adjustForInflation(afterTaxIncome, y, prices) : null,
+      hc: healthcareMonths[i] > 0 ? healthcareMonths[i] : null,
+      loans: loanPaymentMonths[i] > 0 ? loanPaymentMonths[i] : null,
     };
   });
 
-  const totalBalance = investmentSeries.length
-    ? Object.fromEntries(aggregates.map(a => [a.y, a.bal])) as Record<number, number>
-    : {};
-  const totalBalanceAfterTax = investmentSeries.length
-    ? Object.fromEntries(aggregates.map(a => [a.y, R(a.balAT)])) as Record<number, number>
-    : {};
-  const totalBalanceRealAfterTax = investmentSeries.length
-    ? Object.fromEntries(aggregates.map(a => [a.y, R(a.balRealAT)])) as Record<number, number>
-    : {};
-
-  const totalIncomeGross = Object.fromEntries(aggregates.map(a => [a.y, a.g])) as Record<number, number | null>;
-  const totalIncomeAfterTax = Object.fromEntries(aggregates.map(a => [a.y, a.at])) as Record<number, number | null>;
-  const totalIncomeRealAfterTax = Object.fromEntries(aggregates.map(a => [a.y, a.rat])) as Record<number, number | null>;
-
-  const balanceSeries = investmentSeries.length ? [
-    { name: 'Total Investment Balance', values: totalBalance, strokeWidth: 3 },
-    { name: 'Total Investment Balance After Tax', values: totalBalanceAfterTax, strokeDasharray: '5 4' },
-    { name: 'Total Investment Balance After Tax & Inflation', values: totalBalanceRealAfterTax, strokeDasharray: '2 3' }
+  // Per-source [take-home gross, taxable] months; each source bears the tax on its own taxable part.
+  const incomeSources: { name: string; parts: ([number, number] | null)[] }[] = [
+    ...wageNames.map((name, k) => ({
+      name: `${name} Take-Home Pay`,
+      parts: wageMonths[k].map((w, i) => w === null ? null
+        : [Math.max(0, w - contributionsPerWage[name].all[i]), Math.max(0, w - contributionsPerWage[name].preTax[i])] as [number, number]),
+    })),
+    ...investmentNames.map((name, k) => ({
+      name: `${name} Withdrawals`,
+      parts: investmentLedgers[k].withdrawal.map((w, i) => w === null ? null : [w, investmentLedgers[k].taxableWithdrawal[i]] as [number, number]),
+    })),
+    ...annuityNames.map((name, k) => ({
+      name: `${name} Annuity`,
+      parts: annuityMonths[k].map(a => a === null ? null : [a, a] as [number, number]),
+    })),
+    ...socialSecurityNames.map((name, k) => ({
+      name: `${name} Social Security`,
+      parts: socialSecurityMonths[k].map((ss, i) => ss === null ? null
+        : [ss, ss * socialSecurityTaxableShares[yearOfMonth(timeline.months[i])]] as [number, number]),
+    })),
+  ];
+  const incomeComposition = incomeSources
+    .filter(source => source.parts.some(p => p !== null && p[0] > 0))
+    .flatMap(({ name, parts }) => {
+      const afterTax = parts.map((p, i) => p === null ? null : p[0] - p[1] * effectiveTaxRates[yearOfMonth(timeline.months[i])]);
+      return [
+        { name, values: rollUp(timeline, parts.map(p => p === null ? null : p[0]), granularity, 'average'), basis: 'Nominal' as const },
+        { name, values: rollUp(timeline, afterTax, granularity, 'average'), basis: 'After Tax' as const },
+        {
+          name,
+          values: rollUp(timeline, afterTax.map((v, i) => v === null ? null : adjustForInflation(v, yearOfMonth(timeline.months[i]), prices)), granularity, 'average'),
+          basis: 'Real' as const
+        },
+      ];
+    });
+
+  const balanceSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string; basis?: DisplayBasis }[] = investmentLedgers.length ? [
+    { name: 'Total Investment Balance', values: rollUp(timeline, series.map(s => s.bal), granularity, 'end'), strokeWidth: 3, basis: 'Nominal' },
+    { name: 'Total Investment Balance After Tax', values: rollUp(timeline, series.map(s => s.balAT), granularity, 'end'), strokeDasharray: '5 4', basis: 'After Tax' },
+    { name: 'Total Investment Balance After Tax & Inflation', values: rollUp(timeline, series.map(s => s.balRealAT), granularity, 'end'), strokeDasharray: '2 3', basis: 'Real' }
   ] : [];
 
   return {
     beginYear,
     endYear,
+    granularity,
     balanceSeries,
     withdrawalSeries: [
-      { name: 'Total Monthly Income', values: totalIncomeGross, strokeDasharray: '4 4' },
-      { name: 'Total Monthly Income After Tax', values: totalIncomeAfterTax, strokeDasharray: '5 3' },
-      { name: 'Total Monthly Income After Tax & Inflation', values: totalIncomeRealAfterTax, strokeDasharray: '2 3' },
+      { name: 'Total Monthly Income', values: rollUp(timeline, series.map(s => s.g), granularity, 'average'), strokeDasharray: '4 4', basis: 'Nominal' },
+      { name: 'Total Monthly Income After Tax', values: rollUp(timeline, series.map(s => s.at), granularity, 'average'), strokeDasharray: '5 3', basis: 'After Tax' },
+      { name: 'Total Monthly Income After Tax & Inflation', values: rollUp(timeline, series.map(s => s.rat), granularity, 'average'), strokeDasharray: '2 3', basis: 'Real' },
+      ...(healthcareMonths.some(v => v > 0)
+        ? [{ name: 'Total Monthly Healthcare Costs', values: rollUp(timeline, series.map(s => s.hc), granularity, 'average'), color: '#dc2626', strokeDasharray: '6 3' }]
+        : []),
+      ...(loanPaymentMonths.some(v => v > 0)
+        ? [{ name: 'Total Monthly Loan Payments', values: rollUp(timeline, series.map(s => s.loans), granularity, 'average'), color: '#7c3aed', strokeDasharray: '6 3' }]
+        : []),
+    ],
+    incomeComposition,
+    effectiveTaxRates,
+    taxableIncomes,
+    socialSecurityTaxableShares,
+    markers: eventMarkersFor(model, granularity),
+    unfundedEventYears: [...new Set(timeline.months
+      .filter((_, i) => investmentLedgers.some(l => l.unfundedEventFlow[i] > 0))
+      .map(yearOfMonth))],
+    annotations: milestoneAnnotationsFor(model, timeline, granularity, Object.fromEntries(investmentNames.map((n, k) => [n, investmentLedgers[k]]))),
+    ledger: yearLedgerFrom(timeline, [
+      { label: 'Start Balance', monthly: series.map(s => s.bal), mode: 'start', initial: initialBalance },
+      { label: 'Contributions', monthly: sumMonths(investmentLedgers.map(l => l.contribution.map((c, i) => c + l.employerMatch[i]))), mode: 'total' },
+      { label: 'Growth', monthly: sumMonths(investmentLedgers.map((l, k) => investmentGrowthMonths(l, initialBalances[k]))), mode: 'total' },
+      { label: 'Events', monthly: sumMonths(investmentLedgers.map(l => l.eventFlow)), mode: 'total' },
+      ...unfundedEventColumns(sumMonths(investmentLedgers.map(l => l.unfundedEventFlow))),
+      { label: 'Withdrawals', monthly: sumMonths(investmentLedgers.map(l => l.withdrawal)), mode: 'total' },
+      { label: 'Take-Home Wages', monthly: sumMonths(wageMonths.map((w, k) => w.map((v, i) => v === null ? null : Math.max(0, v - contributionsPerWage[wageNames[k]].all[i])))), mode: 'total' },
+      { label: 'Annuities', monthly: sumMonths(annuityMonths), mode: 'total' },
+      { label: 'Social Security', monthly: sumMonths(socialSecurityMonths), mode: 'total' },
+      { label: 'Gross Income', monthly: series.map(s => s.g), mode: 'total' },
+      { label: 'Taxable Income', monthly: months.map((m, i) => m.anyIncome ? m.ordinaryTaxable + m.ss * socialSecurityTaxableShares[yearOfMonth(timeline.months[i])] : null), mode: 'total' },
+      { label: 'Tax', monthly: series.map(s => s.tax), mode: 'total' },
+      { label: 'Healthcare', monthly: series.map(s => s.hc), mode: 'total' },
+      { label: 'Loan Payments', monthly: series.map(s => s.loans), mode: 'total' },
+      { label: 'After Tax', monthly: series.map(s => s.at), mode: 'total' },
+      { label: 'Inflation Adjustment', monthly: series.map(s => s.rat === null || s.at === null ? null : s.rat - s.at), mode: 'total' },
+      { label: 'After Tax & Inflation', monthly: series.map(s => s.rat), mode: 'total' },
+      { label: 'End Balance', monthly: series.map(s => s.bal), mode: 'end' },
+    ])
+  };
+}
+
+/**
+ * Build the household's monthly healthcare costs by kind, with IRMAA (income-based Medicare
+ * surcharges from the aggregate tax calculation) shown on its own and the total in today's dollars.
+ * Pass `aggregates` when the caller has already projected the same model with the same options.
+ */
+export function buildHealthcareCostChart(model: RetirementModel, options?: ProjectionOptions, aggregates?: TotalInvestmentAggregates): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  granularity: Granularity;
+  series: { name: string; values: Record<number, number | null>; color?: string; strokeWidth?: number; strokeDasharray?: string }[];
+} {
+  const granularity = options?.granularity ?? 'year';
+  const agg = aggregates ?? buildTotalInvestmentAggregates(model, options);
+  const beginYear = agg.beginYear;
+  const endYear = Math.max(agg.endYear, planEndYear(model, beginYear));
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const healthcare = projectHealthcareMonths(model, timeline, y => agg.taxableIncomes[y] ?? 0);
+  const orNull = (values: number[]): (number | null)[] => values.map(v => v > 0 ? v : null);
+  const total = timeline.months.map((_, i) => healthcare.preMedicare[i] + healthcare.medicare[i] + healthcare.outOfPocket[i]);
+  const [totalValues, , realValues] = incomeSeriesValues(timeline, orNull(total), ZERO_TAX, prices, granularity);
+  const parts: [string, number[], string][] = [
+    ['Pre-Medicare Premiums', healthcare.preMedicare, '4 4'],
+    ['Medicare Premiums', healthcare.medicare, '5 3'],
+    ['IRMAA Surcharges', healthcare.irmaa, '1 3'],
+    ['Out-of-Pocket', healthcare.outOfPocket, '8 3 2 3'],
+  ];
+  return {
+    beginYear,
+    endYear,
+    valueLabel: 'Monthly Healthcare Costs',
+    granularity,
+    series: total.some(v => v > 0) ? [
+      { name: 'Total Healthcare', values: totalValues, strokeWidth: 3 },
+      ...parts.filter(([, values]) => values.some(v => v > 0))
+        .map(([name, values, strokeDasharray]) => ({ name, values: rollUp(timeline, orNull(values), granularity, 'average'), strokeDasharray })),
+      { name: 'Total Healthcare After Inflation', values: realValues, color: '#059669', strokeDasharray: '2 3' },
+    ] : [],
+  };
+}
+
+/** Expenses run to the end of the plan, or later if an item is dated beyond it. */
+function expenseEndYear(model: RetirementModel, beginYear: number): number {
+  const itemYears = Object.values(model.expenses?.items ?? {})
+    .flatMap(e => [extractYear(e.startDate), extractYear(e.endDate)])
+    .filter((y): y is number => y !== undefined);
+  return Math.max(planEndYear(model, beginYear), ...itemYears);
+}
+
+/**
+ * Build a single expense's monthly spending chart:
+ * - Amounts are entered in today's dollars and grow by inflation (or a custom rate) each year.
+ * - Expenses are paid from after-tax income, so there is no tax series; the real line shows the
+ *   amount in today's dollars (flat when the item grows with inflation).
+ */
+export function buildExpenseMonthlySpendingChart(expenseName: string, model: RetirementModel, options?: ProjectionOptions): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  granularity: Granularity;
+  series: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[];
+} {
+  const granularity = options?.granularity ?? 'year';
+  const beginYear = planStartYear(model);
+  const endYear = expenseEndYear(model, beginYear);
+
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const spending = projectExpenseMonths(expenseName, model, timeline, prices);
+  const [nominalValues, , realValues] = incomeSeriesValues(timeline, spending, ZERO_TAX, prices, granularity);
+  return {
+    beginYear,
+    endYear,
+    valueLabel: 'Monthly Spending',
+    granularity,
+    series: [
+      { name: `${expenseName}`, values: nominalValues, strokeWidth: 3 },
+      { name: `${expenseName} After Inflation`, values: realValues, strokeDasharray: '2 3' }
     ]
   };
 }
+
+/**
+ * Build the Summary's spending vs. income comparison (both in today's dollars):
+ * - Real after-tax income comes from buildTotalInvestmentAggregates.
+ * - Real spending is the sum of every expense item.
+ * - A shaded band marks each point where spending exceeds income; shortfall years compare
+ *   whole-year totals so a single one-time expense month does not hide behind monthly noise.
+ * Pass `aggregates` when the caller has already projected the same model with the same options.
+ */
+export function buildSpendingComparisonChart(model: RetirementModel, options?: ProjectionOptions, aggregates?: TotalInvestmentAggregates): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  granularity: Granularity;
+  series: { name: string; values: Record<number, number | null>; color?: string; strokeWidth?: number; strokeDasharray?: string }[];
+  bands: { name: string; lower: Record<number, number | null>; upper: Record<number, number | null>; color?: string; opacity?: number }[];
+  /** Years whose real spending exceeds real after-tax income, ascending. */
+  shortfallYears: number[];
+} {
+  const granularity = options?.granularity ?? 'year';
+  const agg = aggregates ?? buildTotalInvestmentAggregates(model, options);
+  const expenseNames = Object.keys(model.expenses?.items ?? {}).sort();
+  const beginYear = agg.beginYear;
+  const endYear = Math.max(agg.endYear, expenseEndYear(model, beginYear));
+  if (!expenseNames.length) {
+    return { beginYear, endYear, valueLabel: 'Real Monthly Amount', granularity, series: [], bands: [], shortfallYears: [] };
+  }
+
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const prices = priceIndexFor(model, beginYear, options?.inflationRateFor);
+  const perExpense = expenseNames.map(n => projectExpenseMonths(n, model, timeline, prices));
+  const realSpendingMonths = timeline.months.map((m, i) => {
+    const values = perExpense.map(e => e[i]).filter((v): v is number => typeof v === 'number');
+    return values.length
+      ? adjustForInflation(values.reduce((sum, v) => sum + v, 0), yearOfMonth(m), prices)
+      : null;
+  });
+  const realSpending = rollUp(timeline, realSpendingMonths, granularity, 'average');
+  const realIncome = agg.withdrawalSeries[2]?.values ?? {};
+
+  const shortfallLower: Record<number, number | null> = {};
+  const shortfallUpper: Record<number, number | null> = {};
+  Object.keys(realSpending).map(Number).forEach(key => {
+    const spent = realSpending[key];
+    const earned = realIncome[key] ?? 0;
+    const isShort = typeof spent === 'number' && spent > earned;
+    shortfallLower[key] = isShort ? earned : null;
+    shortfallUpper[key] = isShort ? spent : null;
+  });
+
+  return {
+    beginYear,
+    endYear,
+    valueLabel: 'Real Monthly Amount (After Tax & Inflation)',
+    granularity,
+    series: [
+      { name: 'Total Monthly Income After Tax & Inflation', values: realIncome, color: '#059669', strokeWidth: 3 },
+      { name: 'Total Monthly Spending After Inflation', values: realSpending, color: '#dc2626', strokeWidth: 3 },
+    ],
+    bands: [
+      { name: 'Shortfall', lower: shortfallLower, upper: shortfallUpper, color: '#dc2626', opacity: 0.25 }
+    ],
+    shortfallYears: shortfallYearsFrom(realSpending, realIncome),
+  };
+}
+
+/** Payoff marker for a liability repaid within the timeline. */
+function payoffMarkersFor(liabilityName: string, ledger: LiabilityLedger, timeline: Timeline, granularity: Granularity): { x: number; label: string; color?: string }[] {
+  const m = ledger.payoffMonth;
+  if (m === undefined || m < timeline.months[0]) return [];
+  return [{ x: granularity === 'month' ? monthKey(m) : yearOfMonth(m), label: `${liabilityName} paid off`, color: PAYOFF_MARKER_COLOR }];
+}
+
+/**
+ * Build a liability's amortization charts:
+ * - Outstanding balance at the end of each period, with a marker at the payoff date.
+ * - Monthly payment split into interest and principal (extra principal and any payoff included).
+ */
+export function buildLiabilityAmortizationChart(liabilityName: string, model: RetirementModel, options?: ProjectionOptions): {
+  beginYear: number;
+  endYear: number;
+  granularity: Granularity;
+  balance: { name: string; values: Record<number, number | null>; strokeWidth?: number };
+  paymentSeries: { name: string; values: Record<number, number | null>; strokeDasharray?: string; strokeWidth?: number }[];
+  markers: { x: number; label: string; color?: string }[];
+  /** Payoff date (MM/YYYY) if the balance is repaid within the plan. */
+  payoffDate?: string;
+  totalInterest: number;
+} {
+  const granularity = options?.granularity ?? 'year';
+  const beginYear = planStartYear(model);
+  const endYear = planEndYear(model, beginYear);
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const ledger = projectLiabilityMonths(liabilityName, model, timeline);
+  const interest = ledger.payment.map((p, i) => p === null ? null : ledger.interest[i]);
+  const principal = ledger.payment.map((p, i) => p === null ? null : p - ledger.interest[i]);
+  const payoffMonth = ledger.payoffMonth;
+  return {
+    beginYear,
+    endYear,
+    granularity,
+    balance: { name: `${liabilityName} Balance`, values: rollUp(timeline, ledger.balance, granularity, 'end'), strokeWidth: 3 },
+    paymentSeries: [
+      { name: `${liabilityName} Payment`, values: rollUp(timeline, ledger.payment, granularity, 'average'), strokeWidth: 3 },
+      { name: `${liabilityName} Interest`, values: rollUp(timeline, interest, granularity, 'average'), strokeDasharray: '4 4' },
+      { name: `${liabilityName} Principal`, values: rollUp(timeline, principal, granularity, 'average'), strokeDasharray: '2 3' },
+    ],
+    markers: payoffMarkersFor(liabilityName, ledger, timeline, granularity),
+    payoffDate: payoffMonth !== undefined && payoffMonth >= timeline.months[0]
+      ? `${String(payoffMonth % 12 + 1).padStart(2, '0')}/${yearOfMonth(payoffMonth)}`
+      : undefined,
+    totalInterest: ledger.interest.reduce((sum, v) => sum + v, 0),
+  };
+}
+
+/**
+ * Build the Summary's net-worth chart: total investment balance minus outstanding debt, with a
+ * marker where each liability is paid off. Other assets (home equity, cars) are not counted.
+ * Pass `aggregates` when the caller has already projected the same model with the same options.
+ */
+export function buildNetWorthChart(model: RetirementModel, options?: ProjectionOptions, aggregates?: TotalInvestmentAggregates): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  granularity: Granularity;
+  series: { name: string; values: Record<number, number | null>; color?: string; strokeWidth?: number; strokeDasharray?: string }[];
+  markers: { x: number; label: string; color?: string }[];
+} {
+  const granularity = options?.granularity ?? 'year';
+  const agg = aggregates ?? buildTotalInvestmentAggregates(model, options);
+  const liabilityNames = Object.keys(model.liabilities?.items ?? {}).sort();
+  const { beginYear, endYear } = agg;
+  const timeline = createTimeline(planStartMonth(model), endYear);
+  const ledgers = liabilityNames.map(n => projectLiabilityMonths(n, model, timeline));
+  const assets = agg.balanceSeries[0]?.values ?? {};
+  const debt = rollUp(timeline, timeline.months.map((_, i) => ledgers.reduce((sum, l) => sum + l.balance[i], 0)), granularity, 'end');
+  const netWorth: Record<number, number | null> = {};
+  Object.keys(debt).map(Number).forEach(x => { netWorth[x] = (assets[x] ?? 0) - (debt[x] ?? 0); });
+  return {
+    beginYear,
+    endYear,
+    valueLabel: 'Net Worth',
+    granularity,
+    series: [
+      { name: 'Total Investment Balance', values: assets, strokeDasharray: '5 4' },
+      { name: 'Outstanding Debt', values: debt, color: '#dc2626', strokeDasharray: '4 4' },
+      { name: 'Net Worth', values: netWorth, color: '#059669', strokeWidth: 3 },
+    ],
+    markers: ledgers.flatMap((ledger, i) => payoffMarkersFor(liabilityNames[i], ledger, timeline, granularity)),
+  };
+}
+
+/**
+ * Summary of payroll contributions over the whole plan (nominal dollars): employee deferrals and
+ * employer match per account and in total, plus the years each account hit its IRS limit.
+ */
+export function buildContributionSummary(model: RetirementModel): {
+  rows: { name: string; employee: number; employerMatch: number; limitedYears: number[] }[];
+  employee: number;
+  employerMatch: number;
+} {
+  const beginYear = planStartYear(model);
+  const wageNames = Object.keys(model.wages?.items ?? {});
+  const endYear = Math.max(beginYear, ...wageNames.map(n => wageEndYear(model, n, beginYear)));
+  const schedules = projectContributionMonths(model, createTimeline(planStartMonth(model), endYear));
+  const sum = (values: number[]): number => values.reduce((total, v) => total + v, 0);
+  const rows = Object.keys(schedules).sort().map(name => ({
+    name,
+    employee: sum(schedules[name].employee),
+    employerMatch: sum(schedules[name].employerMatch),
+    limitedYears: schedules[name].limitedYears,
+  }));
+  return {
+    rows,
+    employee: sum(rows.map(r => r.employee)),
+    employerMatch: sum(rows.map(r => r.employerMatch)),
+  };
+}
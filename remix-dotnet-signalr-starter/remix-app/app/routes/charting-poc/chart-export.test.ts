@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { exportFileName, toCsv } from './chart-export';
+
+describe('exportFileName', () => {
+  it('slugs the title and appends the extension', () => {
+    expect(exportFileName('Net Worth (Real $)', 'csv')).toBe('net-worth-real.csv');
+    expect(exportFileName('  Income by Source  ', 'png')).toBe('income-by-source.png');
+  });
+
+  it('falls back to "chart" when the title has no usable characters', () => {
+    expect(exportFileName(undefined, 'svg')).toBe('chart.svg');
+    expect(exportFileName('  --  ', 'png')).toBe('chart.png');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes the header, then one CRLF-separated line per row', () => {
+    expect(toCsv(['Year', 'Balance'], [[2030, 1000], [2031, 1250.5]])).toBe('Year,Balance\r\n2030,1000\r\n2031,1250.5');
+  });
+
+  it('leaves missing values empty', () => {
+    expect(toCsv(['A', 'B', 'C'], [[null, 1, undefined]])).toBe('A,B,C\r\n,1,');
+  });
+
+  it('quotes fields with commas, quotes or newlines and doubles embedded quotes', () => {
+    expect(toCsv(['Name'], [['Smith, Jane'], ['the "bridge" year'], ['two\nlines']])).toBe(
+      'Name\r\n"Smith, Jane"\r\n"the ""bridge"" year"\r\n"two\nlines"',
+    );
+  });
+});
@@ -0,0 +1,109 @@
+// Exports for FinancialChart: the rendered chart as a standalone SVG or PNG (with its title, value
+// label and legend drawn in, since the on-screen legend is HTML outside the SVG), and its data as CSV.
+// Browser only: these read the rendered DOM and start downloads.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const HEADER_HEIGHT = 48;
+const LEGEND_ROW_HEIGHT = 18;
+const PNG_SCALE = 2;
+
+/** Legend entry drawn into exported images. */
+export type ExportLegendItem = { name: string; color: string; dashed?: boolean };
+
+/** File name for an export, from the chart's title or value label. */
+export function exportFileName(title: string | undefined, extension: 'svg' | 'png' | 'csv'): string {
+  const base = (title ?? '').trim().replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+  return `${base || 'chart'}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled; some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Replace `var(--name)` references with the values they have on `element`, so the copy renders anywhere. */
+const resolveVariables = (value: string, element: Element): string =>
+  value.replace(/var\((--[\w-]+)(?:,\s*([^)]*))?\)/g, (_, name: string, fallback?: string) =>
+    getComputedStyle(element).getPropertyValue(name).trim() || fallback?.trim() || 'currentColor');
+
+/**
+ * Standalone SVG markup for a rendered chart surface: the chart under a header with `title` and
+ * `valueLabel`, the legend below it, theme variables resolved and the page's background and text colors.
+ */
+export function exportableSvg(
+  surface: SVGSVGElement,
+  { title, valueLabel, legend }: { title?: string; valueLabel?: string; legend: ExportLegendItem[] }
+): { markup: string; width: number; height: number } {
+  const { width: chartWidth, height: chartHeight } = surface.getBoundingClientRect();
+  const width = Math.ceil(chartWidth);
+  const height = Math.ceil(HEADER_HEIGHT + chartHeight + legend.length * LEGEND_ROW_HEIGHT + 8);
+  const style = getComputedStyle(surface);
+
+  const chart = surface.cloneNode(true) as SVGSVGElement;
+  const originals = [surface, ...surface.querySelectorAll('*')];
+  [chart, ...chart.querySelectorAll('*')].forEach((copy, i) => {
+    Array.from(copy.attributes).forEach((attribute) => {
+      if (attribute.value.includes('var(')) copy.setAttribute(attribute.name, resolveVariables(attribute.value, originals[i]));
+    });
+  });
+  chart.setAttribute('x', '0');
+  chart.setAttribute('y', String(HEADER_HEIGHT));
+
+  const element = (tag: string, attributes: Record<string, string | number>, text?: string): SVGElement => {
+    const created = document.createElementNS(SVG_NS, tag);
+    Object.entries(attributes).forEach(([name, value]) => created.setAttribute(name, String(value)));
+    if (text !== undefined) created.textContent = text;
+    return created;
+  };
+  const background = getComputedStyle(document.body).backgroundColor;
+  const svg = element('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}`, 'font-family': style.fontFamily });
+  svg.appendChild(element('rect', { width, height, fill: background && background !== 'rgba(0, 0, 0, 0)' ? background : '#ffffff' }));
+  if (title) svg.appendChild(element('text', { x: 16, y: 22, 'font-size': 16, 'font-weight': 600, fill: style.color }, title));
+  if (valueLabel) svg.appendChild(element('text', { x: 16, y: 40, 'font-size': 12, fill: style.color, opacity: 0.7 }, valueLabel));
+  svg.appendChild(chart);
+  legend.forEach((item, i) => {
+    const y = HEADER_HEIGHT + chartHeight + i * LEGEND_ROW_HEIGHT + 10;
+    svg.appendChild(element('line', {
+      x1: 16, y1: y, x2: 40, y2: y,
+      stroke: resolveVariables(item.color, surface), 'stroke-width': 3, ...(item.dashed ? { 'stroke-dasharray': '4 3' } : {}),
+    }));
+    svg.appendChild(element('text', { x: 48, y: y + 4, 'font-size': 12, fill: style.color }, item.name));
+  });
+  return { markup: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+/** Rasterize SVG markup to a PNG at twice its size. */
+export async function svgToPng(markup: string, width: number, height: number): Promise<Blob> {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('Could not render the chart image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = width * PNG_SCALE;
+  canvas.height = height * PNG_SCALE;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Could not encode the chart image')), 'image/png'));
+}
+
+const csvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** CSV text: a header row, then one row per entry of `rows`. */
+export function toCsv(header: string[], rows: (string | number | null | undefined)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n');
+}
@@ -1,5 +1,7 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import React, { useMemo } from 'react';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceArea, ReferenceLine, Rectangle, ResponsiveContainer } from 'recharts';
+import React, { createContext, useContext, useMemo, useRef } from 'react';
+import type { DisplayBasis } from './display-basis';
+import { downloadBlob, exportableSvg, exportFileName, svgToPng, toCsv } from './chart-export';
 
 type YearValuePoint = { year: number; value: number | null };
 
@@ -10,25 +12,97 @@ type SeriesInput = {
   strokeWidth?: number;
   strokeDasharray?: string;
   connectNulls?: boolean;
+  /** Nominal / after-tax / real view of a source; only the displayed basis is drawn. */
+  basis?: DisplayBasis;
+};
+
+/** Shaded range between two value sets (e.g. Monte Carlo percentile fan). */
+type BandInput = {
+  name: string;
+  lower: SeriesInput['values'];
+  upper: SeriesInput['values'];
+  color?: string;
+  opacity?: number;
+};
+
+/** Labelled vertical line at an x position (e.g. a one-time event). */
+type MarkerInput = {
+  /** Year, or fractional year (year + monthIndex / 12) in monthly mode. */
+  x: number;
+  label: string;
+  color?: string;
+};
+
+/**
+ * Plan milestone: a vertical line at `x`, or a shaded range from `x` to `x2` (same units as
+ * markers). Unlike markers these carry no visible label; hovering one names it.
+ */
+type AnnotationInput = {
+  x: number;
+  x2?: number;
+  label: string;
+  color?: string;
 };
 
 export interface FinancialChartProps {
   beginYear: number;
   endYear: number;
   series: SeriesInput[];
+  bands?: BandInput[];
+  markers?: MarkerInput[];
+  annotations?: AnnotationInput[];
+  /** 'month' expects values keyed by fractional year (year + monthIndex / 12). */
+  granularity?: 'year' | 'month';
+  /**
+   * Draw the series as stacked areas (missing values count as 0) so the top outline is their total.
+   * The tooltip lists each series' own value and the total.
+   */
+  stacked?: boolean;
   currency?: string;
   valueLabel?: string;
+  /** Heading for exported images and file names; not drawn on the page, where charts sit under their own headings. */
+  title?: string;
   height?: number;
   maxWidth?: number | string;
 }
 
-const defaultCurrencyFormatter = (currency: string) =>
+/**
+ * Basis every chart below the provider draws. Series tagged with another basis are hidden and the
+ * dash patterns that told the three views apart are dropped; untagged series always show.
+ * Without a provider every series is drawn.
+ */
+export const DisplayBasisContext = createContext<DisplayBasis | undefined>(undefined);
+
+/** Whole-unit currency format shared by the charts and tables. */
+export const defaultCurrencyFormatter = (currency: string) =>
   new Intl.NumberFormat(undefined, {
     style: 'currency',
     currency,
     maximumFractionDigits: 0,
   });
 
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Month slot for an x position so fractional-year keys match despite floating point noise. */
+const slotOf = (x: number) => Math.round(x * 12);
+
+/** Reference line drawn with a hover title, over a wider transparent copy that is easier to hover. */
+const titledLine = (title: string) => (props: React.SVGProps<SVGLineElement>) => (
+  <g>
+    <title>{title}</title>
+    <line {...props} />
+    <line x1={props.x1} y1={props.y1} x2={props.x2} y2={props.y2} stroke="transparent" strokeWidth={8} />
+  </g>
+);
+
+/** Reference area drawn with a hover title. */
+const titledArea = (title: string) => (props: React.ComponentProps<typeof Rectangle>) => (
+  <g>
+    <title>{title}</title>
+    <Rectangle {...props} />
+  </g>
+);
+
 const toArrayPoints = (values: SeriesInput['values']): YearValuePoint[] => {
   if (Array.isArray(values)) return values;
   return Object.keys(values)
@@ -40,22 +114,36 @@ export default function FinancialChart({
   beginYear,
   endYear,
   series,
+  bands = [],
+  markers = [],
+  annotations = [],
+  granularity = 'year',
+  stacked = false,
   currency = 'USD',
   valueLabel,
+  title,
   height = 360,
   maxWidth,
 }: FinancialChartProps) {
+  const displayBasis = useContext(DisplayBasisContext);
+  const shownSeries = useMemo(() => displayBasis === undefined ? series : series
+    .filter((s) => s.basis === undefined || s.basis === displayBasis)
+    .map((s) => s.basis === undefined ? s : { ...s, strokeDasharray: undefined }), [series, displayBasis]);
   // Normalize and guard year range
   const [minYear, maxYear] = beginYear <= endYear ? [beginYear, endYear] : [endYear, beginYear];
   const years = useMemo(() => Array.from({ length: maxYear - minYear + 1 }, (_, i) => minYear + i), [minYear, maxYear]);
+  // X positions: one per year, or twelve per year in monthly mode (ticks stay on whole years).
+  const xPoints = useMemo(() => granularity === 'month'
+    ? years.flatMap((y) => MONTH_NAMES.map((_, m) => y + m / 12))
+    : years, [years, granularity]);
 
   const normalizedSeries = useMemo(() => {
     const colorPalette = ['var(--color-primary)', '#dc2626', '#059669', '#7c3aed', '#d97706', '#0d9488'];
-    return series.map((s, idx) => {
+    return shownSeries.map((s, idx) => {
       const defaultColor = colorPalette[idx % colorPalette.length];
       const points = toArrayPoints(s.values);
-      const pointMap = new Map(points.map((p) => [p.year, p.value]));
-      const filled = years.map<YearValuePoint>((y) => ({ year: y, value: pointMap.has(y) ? pointMap.get(y)! : null }));
+      const pointMap = new Map(points.map((p) => [slotOf(p.year), p.value]));
+      const filled = xPoints.map<YearValuePoint>((x) => ({ year: x, value: pointMap.has(slotOf(x)) ? pointMap.get(slotOf(x))! : null }));
       // Stable object key for unified dataset (avoid spaces & punctuation)
       let keyBase = s.name.replace(/[^A-Za-z0-9_]+/g, '_');
       if (!/^[A-Za-z_]/.test(keyBase)) keyBase = '_' + keyBase; // ensure valid identifier-like start
@@ -70,19 +158,43 @@ export default function FinancialChart({
         data: filled,
       };
     });
-  }, [series, years]);
+  }, [shownSeries, xPoints]);
+
+  const normalizedBands = useMemo(() => {
+    return bands.map((b, idx) => {
+      const lowerMap = new Map(toArrayPoints(b.lower).map((p) => [slotOf(p.year), p.value]));
+      const upperMap = new Map(toArrayPoints(b.upper).map((p) => [slotOf(p.year), p.value]));
+      // Range areas take a [low, high] tuple per row; a missing bound leaves a gap.
+      const data = xPoints.map((x) => {
+        const lo = lowerMap.get(slotOf(x));
+        const hi = upperMap.get(slotOf(x));
+        return typeof lo === 'number' && typeof hi === 'number' ? [lo, hi] as [number, number] : null;
+      });
+      return {
+        ...b,
+        key: `band_${idx}`,
+        color: b.color || 'var(--color-primary)',
+        opacity: b.opacity ?? 0.2,
+        data,
+      };
+    });
+  }, [bands, xPoints]);
 
   // Unified dataset so each year row contains all series values => fixes tooltip misalignment when each Line had its own data array.
   const unifiedData = useMemo(() => {
-    return years.map((y) => {
-      const row: Record<string, any> = { year: y };
+    return xPoints.map((x, i) => {
+      const row: Record<string, any> = { year: x };
       normalizedSeries.forEach((s) => {
-        const point = s.data[y - years[0]]; // aligned index because we filled sequential years
-        row[s.key] = point ? point.value : null;
+        const point = s.data[i]; // aligned index because we filled sequential points
+        const value = point ? point.value : null;
+        row[s.key] = stacked ? value ?? 0 : value;
+      });
+      normalizedBands.forEach((b) => {
+        row[b.key] = b.data[i];
       });
       return row;
     });
-  }, [years, normalizedSeries]);
+  }, [xPoints, normalizedSeries, normalizedBands, stacked]);
 
   // Compute Y max across all numeric values (force baseline at 0 per design requirement)
   // Rationale: Product decision states all charts should have 0 at the bottom of the Y axis.
@@ -90,35 +202,99 @@ export default function FinancialChart({
   // need arises to display negatives, introduce a prop (e.g. allowNegative) and adjust.
   const yDomain = useMemo<[number, number]>(() => {
     const vals: number[] = [];
-    normalizedSeries.forEach((s) => s.data.forEach((p: YearValuePoint) => { if (typeof p.value === 'number' && isFinite(p.value)) vals.push(p.value); }));
+    if (stacked) {
+      // The stack's height is the sum of each x position's values.
+      xPoints.forEach((_, i) => vals.push(normalizedSeries.reduce((sum, s) => {
+        const v = s.data[i].value;
+        return typeof v === 'number' && isFinite(v) ? sum + v : sum;
+      }, 0)));
+    }
+    else normalizedSeries.forEach((s) => s.data.forEach((p: YearValuePoint) => { if (typeof p.value === 'number' && isFinite(p.value)) vals.push(p.value); }));
+    normalizedBands.forEach((b) => b.data.forEach((range) => { if (range && isFinite(range[1])) vals.push(range[1]); }));
     if (!vals.length) return [0, 1];
     const max = Math.max(...vals, 0);
     if (max === 0) return [0, 1]; // flat line safeguard
     const pad = max * 0.05; // 5% visual headroom
     return [0, Math.ceil(max + pad)];
-  }, [normalizedSeries]);
+  }, [normalizedSeries, normalizedBands, xPoints, stacked]);
 
   const formatter = useMemo(() => defaultCurrencyFormatter(currency), [currency]);
 
-  // Data fed to LineChart now contains year and all series keys
+  // Data fed to ComposedChart now contains year and all series keys
   const axisData = unifiedData;
 
-  const tooltipFormatter = (value: any) => (typeof value === 'number' ? formatter.format(value) : value);
-  const tooltipLabelFormatter = (label: any) => `Year ${label}${valueLabel ? ` • ${valueLabel}` : ''}`;
+  const tooltipFormatter = (value: any) => (typeof value === 'number'
+    ? formatter.format(value)
+    : Array.isArray(value) ? value.map((v) => formatter.format(v)).join(' – ') : value);
+  const tooltipLabelFormatter = (label: any, payload: { value?: unknown }[]) => {
+    const when = granularity === 'month' && typeof label === 'number'
+      ? `${MONTH_NAMES[((slotOf(label) % 12) + 12) % 12]} ${Math.floor(slotOf(label) / 12)}`
+      : `Year ${label}`;
+    const total = stacked
+      ? ` • Total ${formatter.format(payload.reduce((sum, p) => typeof p.value === 'number' ? sum + p.value : sum, 0))}`
+      : '';
+    return `${when}${valueLabel ? ` • ${valueLabel}` : ''}${total}`;
+  };
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const exportImage = async (format: 'svg' | 'png') => {
+    const surface = containerRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!surface) return;
+    const legend = [
+      ...normalizedBands.map((b) => ({ name: b.name, color: b.color })),
+      ...normalizedSeries.map((s) => ({ name: s.name, color: s.color, dashed: !!s.strokeDasharray })),
+    ];
+    const { markup, width, height: imageHeight } = exportableSvg(surface, { title, valueLabel, legend });
+    const blob = format === 'svg'
+      ? new Blob([markup], { type: 'image/svg+xml' })
+      : await svgToPng(markup, width, imageHeight);
+    downloadBlob(blob, exportFileName(title ?? valueLabel, format));
+  };
+  const exportCsv = () => {
+    const header = [
+      'Year',
+      ...(granularity === 'month' ? ['Month'] : []),
+      ...normalizedSeries.map((s) => s.name),
+      ...normalizedBands.flatMap((b) => [`${b.name} Low`, `${b.name} High`]),
+    ];
+    const rows = unifiedData.map((row) => [
+      Math.floor(slotOf(row.year) / 12),
+      ...(granularity === 'month' ? [MONTH_NAMES[((slotOf(row.year) % 12) + 12) % 12]] : []),
+      ...normalizedSeries.map((s) => row[s.key]),
+      ...normalizedBands.flatMap((b) => row[b.key] ?? [null, null]),
+    ]);
+    downloadBlob(new Blob([toCsv(header, rows)], { type: 'text/csv' }), exportFileName(title ?? valueLabel, 'csv'));
+  };
+  const onExport = (run: () => void | Promise<void>) => async () => {
+    try {
+      await run();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Chart export failed:', error);
+    }
+  };
 
   // Allow full-width expansion by default. Only constrain width if a maxWidth prop is explicitly provided.
-  const outerStyle: React.CSSProperties = { width: '100%', height, borderRadius: 8, padding: 8 };
+  const outerStyle: React.CSSProperties = { width: '100%', height, borderRadius: 8, padding: 8, position: 'relative' };
   if (maxWidth !== undefined) outerStyle.maxWidth = maxWidth;
 
   return (
-    <div style={outerStyle}>
+    <div style={outerStyle} ref={containerRef}>
+      <details style={{ position: 'absolute', top: 0, right: 8, zIndex: 1, fontSize: 12 }}>
+        <summary className="btn btn-link" style={{ listStyle: 'none' }}>Export</summary>
+        <div className="flex flex-col" style={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)', borderRadius: 6 }}>
+          <button type="button" className="btn btn-link" onClick={onExport(() => exportImage('svg'))}>Image (SVG)</button>
+          <button type="button" className="btn btn-link" onClick={onExport(() => exportImage('png'))}>Image (PNG)</button>
+          <button type="button" className="btn btn-link" onClick={onExport(exportCsv)}>Data (CSV)</button>
+        </div>
+      </details>
       <ResponsiveContainer>
-        <LineChart data={axisData} margin={{ top: 10, right: 24, left: 8, bottom: 8 }}>
+        <ComposedChart data={axisData} margin={{ top: 10, right: 24, left: 8, bottom: 8 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
           <XAxis
             dataKey="year"
             type="number"
-            domain={[minYear, maxYear]}
+            domain={[minYear, granularity === 'month' ? maxYear + 11 / 12 : maxYear]}
             ticks={years}
             tick={{ fontSize: 12 }}
             tickLine={false}
@@ -143,7 +319,45 @@ export default function FinancialChart({
             wrapperStyle={{ outline: 'none' }}
           />
           <Legend wrapperStyle={{ fontSize: 12 }} />
-          {normalizedSeries.map((s) => (
+          {annotations.map((a, idx) => a.x2 === undefined ? null : (
+            <ReferenceArea
+              key={`annotation_${idx}`}
+              x1={a.x}
+              x2={a.x2}
+              fill={a.color || 'var(--color-border)'}
+              fillOpacity={0.08}
+              shape={titledArea(a.label)}
+            />
+          ))}
+          {normalizedBands.map((b) => (
+            <Area
+              key={b.key}
+              name={b.name}
+              dataKey={b.key}
+              type="monotone"
+              stroke="none"
+              fill={b.color}
+              fillOpacity={b.opacity}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+          ))}
+          {stacked && normalizedSeries.map((s) => (
+            <Area
+              key={s.key}
+              name={s.name}
+              dataKey={s.key}
+              stackId="stack"
+              type="monotone"
+              stroke={s.color}
+              strokeWidth={s.strokeWidth}
+              fill={s.color}
+              fillOpacity={0.5}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+          ))}
+          {!stacked && normalizedSeries.map((s) => (
             <Line
               key={s.key}
               name={s.name}
@@ -158,7 +372,25 @@ export default function FinancialChart({
               connectNulls={s.connectNulls}
             />
           ))}
-        </LineChart>
+          {annotations.map((a, idx) => a.x2 !== undefined ? null : (
+            <ReferenceLine
+              key={`annotation_${idx}`}
+              x={a.x}
+              stroke={a.color || 'var(--color-text)'}
+              strokeDasharray="2 3"
+              shape={titledLine(a.label)}
+            />
+          ))}
+          {markers.map((m, idx) => (
+            <ReferenceLine
+              key={`marker_${idx}`}
+              x={m.x}
+              stroke={m.color || 'var(--color-text)'}
+              strokeDasharray="4 3"
+              label={{ value: m.label, position: 'insideTopLeft', fontSize: 11, fill: m.color || 'var(--color-text)' }}
+            />
+          ))}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
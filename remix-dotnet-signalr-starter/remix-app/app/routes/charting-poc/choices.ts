@@ -0,0 +1,6 @@
+// Fixed lists of choices a plan can store (account tax treatments, withdrawal strategies, kinds of
+// items), read back from saved plans that may predate a choice or hold a value no longer offered.
+
+/** Reader for a stored choice: the value when it is one of `values`, otherwise `fallback`. */
+export const oneOf = <T extends string>(values: readonly T[], fallback: T) => (val: unknown): T =>
+  typeof val === 'string' && (values as readonly string[]).includes(val) ? val as T : fallback;
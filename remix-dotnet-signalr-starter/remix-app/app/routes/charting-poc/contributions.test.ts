@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { annualContributionLimit, employerMatchRate, matchTiersFrom } from "./contributions";
+import { createTimeline, projectContributionMonths, toMonthIndex } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type InvestmentItem, type RetirementModel } from "./retirement-model";
+
+describe("annualContributionLimit", () => {
+  it("adds the catch-up from age 50", () => {
+    expect(annualContributionLimit("Workplace Plan", 2025, 49, 0)).toBe(23500);
+    expect(annualContributionLimit("Workplace Plan", 2025, 50, 0)).toBe(31000);
+    expect(annualContributionLimit("IRA", 2025, 55, 0)).toBe(8000);
+    expect(annualContributionLimit("IRA", 2025, undefined, 0)).toBe(7000);
+  });
+
+  it("indexes limits and rounds them down to $500", () => {
+    // 23,500 x 1.03 = 24,205 and 7,500 x 1.03 = 7,725.
+    expect(annualContributionLimit("Workplace Plan", 2026, 60, 0.03)).toBe(24000 + 7500);
+    expect(annualContributionLimit("Workplace Plan", 2020, 40, 0.03)).toBe(23500);
+  });
+
+  it("has no limit for unlimited accounts", () => {
+    expect(annualContributionLimit("No Limit", 2025, 60, 0)).toBeUndefined();
+  });
+});
+
+describe("employer match", () => {
+  const tiers = matchTiersFrom({ matchRate: 1, matchUpTo: 0.03, matchRate2: 0.5, matchUpTo2: 0.05 });
+
+  it("matches each tier on the deferral within it", () => {
+    expect(employerMatchRate(0.04, tiers)).toBeCloseTo(0.035, 10);
+    expect(employerMatchRate(0.1, tiers)).toBeCloseTo(0.04, 10);
+    expect(employerMatchRate(0.02, tiers)).toBeCloseTo(0.02, 10);
+  });
+
+  it("drops a second tier that does not reach past the first", () => {
+    expect(matchTiersFrom({ matchRate: 1, matchUpTo: 0.03, matchRate2: 0.5, matchUpTo2: 0.03 })).toHaveLength(1);
+    expect(matchTiersFrom({ matchRate2: 0.5, matchUpTo2: 0.05 })).toEqual([]);
+  });
+});
+
+describe("projectContributionMonths", () => {
+  const account: InvestmentItem = { contributionsFrom: "Job", contributionRate: 0.2, matchRate: 1, matchUpTo: 0.03 };
+  const plan: RetirementModel = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    asOfDate: "01/01/2025",
+    birthDate: "01/01/1990",
+    contributionLimitIndex: 0,
+    wages: { items: { Job: { annual: 240000 } } },
+    investments: { items: { "401k": account, "Roth 401k": { ...account, matchRate: 0 } } },
+  };
+  const schedules = projectContributionMonths(plan, createTimeline(toMonthIndex(2025, 1), 2026));
+
+  it("stops deferrals once the shared yearly limit is reached, filling accounts in name order", () => {
+    expect(schedules["401k"].employee.slice(0, 4)).toEqual([4000, 4000, 4000, 0]);
+    expect(schedules["Roth 401k"].employee.slice(0, 4)).toEqual([4000, 4000, 3500, 0]);
+    expect(schedules["Roth 401k"].limitedYears).toEqual([2025, 2026]);
+  });
+
+  it("matches the deferral actually made and starts over each January", () => {
+    expect(schedules["401k"].employerMatch.slice(2, 4)).toEqual([600, 0]);
+    expect(schedules["401k"].employee[12]).toBe(4000);
+  });
+});
@@ -0,0 +1,71 @@
+// Payroll contributions: employer match formulas and IRS annual contribution limits.
+// Limits are per person per year and shared by every account of the same limit type; employer
+// match does not count toward them.
+
+import type { InvestmentItem } from "./retirement-model";
+import { oneOf } from "./choices";
+
+/** Which IRS limit an account's employee contributions fall under. */
+export const CONTRIBUTION_LIMIT_TYPES = ["Workplace Plan", "IRA", "No Limit"] as const;
+
+export type ContributionLimitType = typeof CONTRIBUTION_LIMIT_TYPES[number];
+
+/** Contributions come from a wage, so accounts without a limit type are taken to be workplace plans. */
+export const contributionLimitTypeFrom = oneOf(CONTRIBUTION_LIMIT_TYPES, "Workplace Plan");
+
+/** Year the limits below apply to; later years grow them by the plan's limit index. */
+export const CONTRIBUTION_LIMITS_YEAR = 2025;
+
+/** Catch-up contributions are allowed from the year a person turns this age. */
+export const CATCH_UP_AGE = 50;
+
+/** Employee limit and age-50 catch-up ($ / year) in CONTRIBUTION_LIMITS_YEAR. */
+const CONTRIBUTION_LIMITS: Record<Exclude<ContributionLimitType, "No Limit">, { base: number; catchUp: number }> = {
+  "Workplace Plan": { base: 23500, catchUp: 7500 },
+  "IRA": { base: 7000, catchUp: 1000 },
+};
+
+/** The IRS rounds indexed limits down to a multiple of $500. */
+const LIMIT_ROUNDING = 500;
+
+/**
+ * Employee contribution limit for a year, including catch-up from CATCH_UP_AGE.
+ * Undefined for accounts without a limit. `age` is the age reached during the year.
+ */
+export function annualContributionLimit(type: ContributionLimitType, year: number, age: number | undefined, indexRate: number): number | undefined {
+  if (type === "No Limit") return undefined;
+  const { base, catchUp } = CONTRIBUTION_LIMITS[type];
+  const growth = Math.pow(1 + indexRate, Math.max(0, year - CONTRIBUTION_LIMITS_YEAR));
+  const indexed = (amount: number): number => Math.floor(amount * growth / LIMIT_ROUNDING) * LIMIT_ROUNDING;
+  return indexed(base) + (age !== undefined && age >= CATCH_UP_AGE ? indexed(catchUp) : 0);
+}
+
+/** One tier of an employer match: `rate` of each dollar deferred, on deferrals up to `upTo` of pay. */
+export interface MatchTier {
+  rate: number;
+  upTo: number;
+}
+
+/** The account's match tiers in order; the second tier covers deferrals above the first tier's cap. */
+export function matchTiersFrom(investment: InvestmentItem): MatchTier[] {
+  const tiers: MatchTier[] = [];
+  const first = { rate: Number(investment.matchRate) || 0, upTo: Number(investment.matchUpTo) || 0 };
+  if (first.rate > 0 && first.upTo > 0) tiers.push(first);
+  const second = { rate: Number(investment.matchRate2) || 0, upTo: Number(investment.matchUpTo2) || 0 };
+  if (tiers.length && second.rate > 0 && second.upTo > first.upTo) tiers.push(second);
+  return tiers;
+}
+
+/**
+ * Employer match as a share of pay for an employee deferral rate.
+ * E.g. 100% up to 3% then 50% up to 5%: a 4% deferral is matched 3% + 0.5% = 3.5% of pay.
+ */
+export function employerMatchRate(deferralRate: number, tiers: MatchTier[]): number {
+  let matched = 0;
+  let floor = 0;
+  for (const tier of tiers) {
+    matched += tier.rate * Math.max(0, Math.min(deferralRate, tier.upTo) - floor);
+    floor = tier.upTo;
+  }
+  return matched;
+}
@@ -0,0 +1,18 @@
+// Which view of money every chart shows. Income and balance sources come as nominal, after-tax
+// and real (after tax & inflation) series; the plan's display basis picks one for all charts at once.
+
+import { oneOf } from "./choices";
+
+export const DISPLAY_BASES = ["Real", "After Tax", "Nominal"] as const;
+
+export type DisplayBasis = typeof DISPLAY_BASES[number];
+
+/** Real amounts are the default view, as on the Summary before the toggle existed. */
+export const displayBasisFrom = oneOf(DISPLAY_BASES, "Real");
+
+/** Value-axis wording for each basis. */
+export const DISPLAY_BASIS_LABELS: Record<DisplayBasis, string> = {
+  "Real": "After Tax & Inflation",
+  "After Tax": "After Tax",
+  "Nominal": "Before Tax",
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { buildTotalInvestmentAggregates, eventMarkersFor } from "./chart-builders";
+import { EVENT_MARKER_COLORS } from "./events";
+import { createTimeline, projectEventFlows, toMonthIndex } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type EventItem, type RetirementModel } from "./retirement-model";
+
+const planWith = (events: Record<string, EventItem>): RetirementModel => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2030",
+  retireDate: "01/01/2032",
+  yearsAfterRetire: 1,
+  taxPercentage: 0,
+  inflationPercentage: 0.03,
+  investments: { items: { Brokerage: { balance: 50000, rate: 0 } } },
+  events: { items: events },
+});
+const timeline = createTimeline(toMonthIndex(2030, 1), 2033);
+
+describe("projectEventFlows", () => {
+  it("adds inflows, subtracts outflows and grows amounts with prices to the event year", () => {
+    const flows = projectEventFlows("Brokerage", planWith({
+      Inheritance: { date: "03/15/2030", amount: 20000, investment: "Brokerage" },
+      Roof: { date: "07/01/2031", amount: 10000, direction: "Outflow", investment: "Brokerage" },
+    }), timeline);
+    expect(flows[2]).toBe(20000);
+    expect(flows[18]).toBeCloseTo(-10300, 6);
+    expect(flows.filter(f => f !== 0)).toHaveLength(2);
+  });
+
+  it("ignores events for other investments or outside the plan", () => {
+    const flows = projectEventFlows("Brokerage", planWith({
+      Gift: { date: "03/15/2030", amount: 20000, investment: "IRA" },
+      Old: { date: "03/15/2020", amount: 20000, investment: "Brokerage" },
+      Undated: { amount: 20000, investment: "Brokerage" },
+    }), timeline);
+    expect(flows.every(f => f === 0)).toBe(true);
+  });
+});
+
+describe("event outflows", () => {
+  it("take what the investment holds and report the years they could not be paid in full", () => {
+    const agg = buildTotalInvestmentAggregates(planWith({
+      Boat: { date: "06/01/2031", amount: 80000, direction: "Outflow", investment: "Brokerage" },
+    }));
+    expect(agg.balanceSeries[0].values[2031]).toBe(0);
+    expect(agg.unfundedEventYears).toEqual([2031]);
+  });
+
+  it("are marked on the charts", () => {
+    const markers = eventMarkersFor(planWith({ Roof: { date: "07/01/2031", amount: 10000, direction: "Outflow", investment: "Brokerage" } }), 'year');
+    expect(markers).toEqual([{ x: 2031, label: "Roof", color: EVENT_MARKER_COLORS.Outflow }]);
+  });
+});
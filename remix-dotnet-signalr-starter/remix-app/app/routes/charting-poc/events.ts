@@ -0,0 +1,16 @@
+// One-time cash-flow events (windfalls, large purchases, home sales) paid into or out of an investment.
+
+import { oneOf } from "./choices";
+
+/** Inflows add to the investment's balance; outflows are taken from it. */
+export const EVENT_DIRECTIONS = ["Inflow", "Outflow"] as const;
+
+export type EventDirection = typeof EVENT_DIRECTIONS[number];
+
+export const eventDirectionFrom = oneOf(EVENT_DIRECTIONS, "Inflow");
+
+/** Chart marker colors by direction. */
+export const EVENT_MARKER_COLORS: Record<EventDirection, string> = {
+  Inflow: '#059669',
+  Outflow: '#dc2626',
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { formatYearRanges, shortfallYearsFrom } from "./expenses";
+import { createTimeline, projectExpenseMonths, toMonthIndex } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type ExpenseItem, type RetirementModel } from "./retirement-model";
+
+const planWith = (expense: ExpenseItem): RetirementModel => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2030",
+  inflationPercentage: 0.03,
+  expenses: { items: { Spending: expense } },
+});
+const timeline = createTimeline(toMonthIndex(2030, 1), 2032);
+
+describe("projectExpenseMonths", () => {
+  it("pro-rates a recurring expense over its dates and grows it with prices", () => {
+    const months = projectExpenseMonths("Spending", planWith({ amount: 3000, startDate: "01/16/2030", endDate: "12/31/2031" }), timeline);
+    expect(months[0]).toBeCloseTo(3000 * 16 / 31, 6);
+    expect(months[1]).toBe(3000);
+    expect(months[12]).toBeCloseTo(3090, 6);
+    expect(months[24]).toBeNull();
+  });
+
+  it("pays a one-time expense in the month of its date", () => {
+    const months = projectExpenseMonths("Spending", planWith({ kind: "One-Time", amount: 20000, startDate: "06/15/2031" }), timeline);
+    expect(months.filter(v => v !== null)).toEqual([20000 * 1.03]);
+    expect(months[17]).toBeCloseTo(20600, 6);
+  });
+
+  it("grows by a custom rate instead of prices", () => {
+    const months = projectExpenseMonths("Spending", planWith({ amount: 1000, growth: "Custom Rate", growthRate: 0.1 }), timeline);
+    expect(months[24]).toBeCloseTo(1210, 6);
+  });
+});
+
+describe("shortfallYearsFrom", () => {
+  it("lists the years spending exceeds income", () => {
+    expect(shortfallYearsFrom({ 2030: 5000, 2031: 5000, 2032: null }, { 2030: 6000, 2031: 4000, 2032: 0 })).toEqual([2031]);
+  });
+
+  it("sums monthly points per year and counts missing income as zero", () => {
+    const spending = { 2030: 100, 2030.5: 100, 2031: 50 };
+    const income = { 2030: 150, 2030.5: 40 };
+    expect(shortfallYearsFrom(spending, income)).toEqual([2030, 2031]);
+  });
+});
+
+describe("formatYearRanges", () => {
+  it("joins consecutive years into ranges", () => {
+    expect(formatYearRanges([2031, 2032, 2033, 2034, 2040])).toBe("2031–2034, 2040");
+    expect(formatYearRanges([])).toBe("");
+  });
+});
@@ -0,0 +1,51 @@
+// Household spending items and the shortfall analysis that compares them with income.
+
+import { oneOf } from "./choices";
+
+/** Recurring items are $ / month over a date range; one-time items are a single $ amount on a date. */
+export const EXPENSE_KINDS = ["Recurring", "One-Time"] as const;
+
+export type ExpenseKind = typeof EXPENSE_KINDS[number];
+
+export const expenseKindFrom = oneOf(EXPENSE_KINDS, "Recurring");
+
+/** How an expense amount (entered in today's dollars) grows each year. */
+export const EXPENSE_GROWTH_OPTIONS = ["Inflation", "Custom Rate"] as const;
+
+export type ExpenseGrowth = typeof EXPENSE_GROWTH_OPTIONS[number];
+
+export const expenseGrowthFrom = oneOf(EXPENSE_GROWTH_OPTIONS, "Inflation");
+
+/**
+ * Years in which spending exceeds income, from chart values keyed by year (yearly points) or
+ * fractional year (monthly points). Months are summed per year before comparing; missing income
+ * counts as zero and years without any spending are never a shortfall.
+ */
+export function shortfallYearsFrom(
+  spending: Record<number, number | null>,
+  income: Record<number, number | null | undefined>
+): number[] {
+  const totals: Record<number, { spending: number; income: number }> = {};
+  Object.keys(spending).map(Number).forEach(key => {
+    const spent = spending[key];
+    if (typeof spent !== 'number') return;
+    const year = Math.floor(key);
+    const total = totals[year] || (totals[year] = { spending: 0, income: 0 });
+    total.spending += spent;
+    total.income += income[key] ?? 0;
+  });
+  return Object.keys(totals).map(Number)
+    .filter(year => totals[year].spending > totals[year].income)
+    .sort((a, b) => a - b);
+}
+
+/** "2031–2034, 2040" */
+export function formatYearRanges(years: number[]): string {
+  const ranges: [number, number][] = [];
+  years.forEach(y => {
+    const last = ranges[ranges.length - 1];
+    if (last && y === last[1] + 1) last[1] = y;
+    else ranges.push([y, y]);
+  });
+  return ranges.map(([a, b]) => a === b ? `${a}` : `${a}–${b}`).join(", ");
+}
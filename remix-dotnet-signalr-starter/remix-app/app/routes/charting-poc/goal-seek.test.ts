@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { meetsGoal, shiftDate, solveGoal, withRetirementShift } from "./goal-seek";
+import { CURRENT_SCHEMA_VERSION, type InvestmentItem, type RetirementModel } from "./retirement-model";
+
+const plan = (investment: InvestmentItem = {}): RetirementModel => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2026",
+  retireDate: "01/01/2032",
+  yearsAfterRetire: 20,
+  taxPercentage: 0.2,
+  inflationPercentage: 0.03,
+  wages: { items: { Job: { annual: 100000, stopWorkDate: "12/31/2031" } } },
+  investments: {
+    items: {
+      "401k": {
+        balance: 300000, rate: 0.06, withdrawalDate: "01/01/2032", withdrawalRate: 0.04,
+        contributionsFrom: "Job", contributionRate: 0.1, ...investment,
+      },
+    },
+  },
+});
+
+const withRate = (model: RetirementModel, field: "withdrawalRate" | "contributionRate", rate: number): RetirementModel =>
+  ({ ...model, investments: { items: { "401k": { ...model.investments?.items?.["401k"], [field]: rate } } } });
+
+const rateOf = (model: RetirementModel | undefined, field: "withdrawalRate" | "contributionRate"): number =>
+  Number(model?.investments?.items?.["401k"]?.[field]);
+
+describe("shiftDate", () => {
+  it("moves by whole months and clamps the day", () => {
+    expect(shiftDate("01/31/2030", 1)).toBe("02/28/2030");
+    expect(shiftDate("03/15/2030", -15)).toBe("12/15/2028");
+    expect(shiftDate(undefined, 3)).toBeUndefined();
+  });
+});
+
+describe("meetsGoal", () => {
+  it("holds a percent-of-balance plan to a floor of one year's withdrawals", () => {
+    expect(meetsGoal(plan({ withdrawalRate: 0.03 }), "Balance Never Runs Out", 0)).toBe(true);
+    expect(meetsGoal(plan({ withdrawalRate: 0.2 }), "Balance Never Runs Out", 0)).toBe(false);
+  });
+});
+
+describe("solveGoal", () => {
+  describe("Balance Never Runs Out", () => {
+    it("finds the highest withdrawal rate at the boundary", () => {
+      const model = plan({ withdrawalStrategy: "Inflation-Adjusted 4% Rule" });
+      const result = solveGoal(model, { variable: "Highest Withdrawal Rate", target: "Balance Never Runs Out" });
+      expect(result.solved).toBe(true);
+      const rate = rateOf(result.model, "withdrawalRate");
+      expect(rate).toBeLessThan(0.2);
+      expect(meetsGoal(withRate(model, "withdrawalRate", rate + 0.001), "Balance Never Runs Out", 0)).toBe(false);
+    });
+
+    it("refuses plans that spend down with VPW", () => {
+      const result = solveGoal(plan({ withdrawalStrategy: "Variable Percentage (VPW)", vpwReturn: 0.03 }), { target: "Balance Never Runs Out" });
+      expect(result).toMatchObject({ solved: false, evaluations: 0 });
+      expect(result.message).toMatch(/^Variable Percentage \(VPW\) spends its balance down/);
+    });
+  });
+
+  describe("Real Monthly Income At Least", () => {
+    const target = "Real Monthly Income At Least";
+
+    it("asks for the income to aim for", () => {
+      expect(solveGoal(plan(), { target }).message).toBe("Enter the real monthly income to aim for.");
+    });
+
+    it("finds the lowest contribution rate that reaches the income", () => {
+      const result = solveGoal(plan(), { variable: "Lowest Contribution Rate", target, targetIncome: 1000 });
+      expect(result.solved).toBe(true);
+      const rate = rateOf(result.model, "contributionRate");
+      expect(rate).toBeGreaterThan(0);
+      expect(Object.is(rate, -0)).toBe(false);
+      // The answer is rounded up to 0.01%, so it lies within two steps of the boundary.
+      expect(meetsGoal(withRate(plan(), "contributionRate", rate), target, 1000)).toBe(true);
+      expect(meetsGoal(withRate(plan(), "contributionRate", rate - 0.0002), target, 1000)).toBe(false);
+    });
+
+    it("finds the earliest retirement date that reaches the income", () => {
+      const result = solveGoal(plan(), { variable: "Earliest Retirement Date", target, targetIncome: 1000 });
+      expect(result.solved).toBe(true);
+      expect(result.model?.retireDate).toBe("05/01/2033");
+      expect(meetsGoal(withRetirementShift(result.model!, -1), target, 1000)).toBe(false);
+    });
+
+    it("finds the highest withdrawal rate that keeps the income", () => {
+      const result = solveGoal(plan(), { variable: "Highest Withdrawal Rate", target, targetIncome: 800 });
+      expect(result.solved).toBe(true);
+      expect(rateOf(result.model, "withdrawalRate")).toBeCloseTo(0.083, 10);
+      expect(meetsGoal(result.model!, target, 800)).toBe(true);
+    });
+
+    it("reports a target no plan reaches", () => {
+      const result = solveGoal(plan(), { variable: "Lowest Contribution Rate", target, targetIncome: 1000000 });
+      expect(result).toMatchObject({ solved: false, message: "Even contributing 100% of the wage does not meet the target." });
+    });
+  });
+});
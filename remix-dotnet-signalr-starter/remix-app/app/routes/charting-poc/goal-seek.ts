@@ -0,0 +1,225 @@
+// Goal-seek solver.
+// Re-runs the deterministic aggregate projection while varying one plan input to find the
+// earliest retirement date, lowest contribution rate or highest withdrawal rate that meets a target.
+
+import { buildTotalInvestmentAggregates, depletionYearOf } from "./chart-builders";
+import { extractYear, parseDate, planStartMonth, toMonthIndex, yearOfMonth, type MonthIndex } from "./projection-engine";
+import { WITHDRAWAL_STRATEGY_DEFINITIONS, withdrawalStrategyFrom } from "./withdrawal-strategies";
+import { ownerOf } from "./household";
+import type { GoalSeekSettings, InvestmentItem, RetirementModel } from "./retirement-model";
+import { oneOf } from "./choices";
+
+export const GOAL_SEEK_VARIABLES = ["Earliest Retirement Date", "Lowest Contribution Rate", "Highest Withdrawal Rate"] as const;
+
+export type GoalSeekVariable = typeof GOAL_SEEK_VARIABLES[number];
+
+export const GOAL_SEEK_TARGETS = ["Balance Never Runs Out", "Real Monthly Income At Least"] as const;
+
+export type GoalSeekTarget = typeof GOAL_SEEK_TARGETS[number];
+
+/** Investment choice meaning "apply the same rate to every eligible investment". */
+export const ALL_INVESTMENTS = "All Investments";
+
+/** How far past the plan's as-of date the retirement date search looks. */
+const MAX_RETIREMENT_SEARCH_YEARS = 40;
+/** Withdrawal rates are searched from this cap down, in 0.1% steps. */
+const MAX_WITHDRAWAL_RATE = 0.2;
+const WITHDRAWAL_RATE_STEP = 0.001;
+/** Contribution rates are scanned in 0.5% steps, then refined to 0.01%. */
+const CONTRIBUTION_RATE_STEP = 0.005;
+const CONTRIBUTION_RATE_PRECISION = 0.0001;
+
+export interface GoalSeekResult {
+  solved: boolean;
+  /** User-facing answer or the reason there is none. */
+  message: string;
+  /** The plan with the answer applied; present only when solved. */
+  model?: RetirementModel;
+  /** Number of projections run. */
+  evaluations: number;
+}
+
+export const goalSeekVariableFrom = oneOf(GOAL_SEEK_VARIABLES, "Earliest Retirement Date");
+
+export const goalSeekTargetFrom = oneOf(GOAL_SEEK_TARGETS, "Balance Never Runs Out");
+
+/** Investments whose input the variable changes: contribution rates need a linked wage, withdrawal rates a rate-based strategy. */
+export function eligibleInvestmentsFor(variable: GoalSeekVariable, model: RetirementModel): string[] {
+  const items: Record<string, InvestmentItem> = model.investments?.items ?? {};
+  return Object.keys(items).sort().filter(name => {
+    const item = items[name];
+    if (variable === "Lowest Contribution Rate") return !!item.contributionsFrom && !!model.wages?.items?.[item.contributionsFrom];
+    if (variable === "Highest Withdrawal Rate") {
+      return WITHDRAWAL_STRATEGY_DEFINITIONS[withdrawalStrategyFrom(item.withdrawalStrategy)].fields.some(f => f.field === "withdrawalRate");
+    }
+    return false;
+  });
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/** Shift a MM/DD/YYYY date by whole months, clamping the day to the target month's length. */
+export function shiftDate(date: string | undefined, months: number): string | undefined {
+  const parts = parseDate(date);
+  if (!parts) return date;
+  const m: MonthIndex = toMonthIndex(parts.year, parts.month) + months;
+  const year = yearOfMonth(m);
+  const month = (m % 12) + 1;
+  const day = Math.min(parts.day, new Date(year, month, 0).getDate());
+  return `${pad(month)}/${pad(day)}/${year}`;
+}
+
+/**
+ * Real after-tax balance the Balance Never Runs Out target must keep: one year of the investments'
+ * real after-tax withdrawals in the first year from `firstYear` that pays any, checked from that year.
+ */
+function balanceFloorFor(model: RetirementModel, agg: ReturnType<typeof buildTotalInvestmentAggregates>, firstYear: number): { amount: number; fromYear: number } {
+  const withdrawalSources = new Set(Object.keys(model.investments?.items ?? {}).map(n => `${n} Withdrawals`));
+  const realWithdrawals = agg.incomeComposition.filter(c => c.basis === 'Real' && withdrawalSources.has(c.name));
+  for (let y = firstYear; y <= agg.endYear; y++) {
+    const monthly = realWithdrawals.reduce((sum, c) => sum + (c.values[y] ?? 0), 0);
+    if (monthly > 0) return { amount: monthly * 12, fromYear: y };
+  }
+  return { amount: 0, fromYear: firstYear };
+}
+
+const formatPct = (rate: number): string => `${+(rate * 100).toFixed(2)}%`;
+
+/**
+ * Whether a plan meets the target.
+ * - Balance Never Runs Out: the total investment balance never falls to zero after having money,
+ *   and from the first full year of retirement its real after-tax value never falls below one year of
+ *   the real after-tax withdrawals of the first year they are paid (see balanceFloorFor). Strategies
+ *   that withdraw a share of the balance never empty it, so without the floor they would always pass.
+ * - Real Monthly Income At Least: real after-tax monthly income meets the amount in every full
+ *   calendar year after the retirement year through the end of the plan.
+ */
+export function meetsGoal(model: RetirementModel, target: GoalSeekTarget, targetIncome: number): boolean {
+  const agg = buildTotalInvestmentAggregates(model);
+  const firstYear = Math.max(agg.beginYear, (extractYear(model.retireDate) ?? agg.beginYear - 1) + 1);
+  if (target === "Balance Never Runs Out") {
+    const nominal = agg.balanceSeries[0]?.values;
+    if (!nominal || !Object.values(nominal).some(v => (v ?? 0) > 0)) return false;
+    if (depletionYearOf(nominal, agg.beginYear, agg.endYear) !== undefined) return false;
+    const floor = balanceFloorFor(model, agg, firstYear);
+    const realBalance = agg.balanceSeries[2]?.values ?? {};
+    for (let y = floor.fromYear; y <= agg.endYear; y++) {
+      if ((realBalance[y] ?? 0) < floor.amount) return false;
+    }
+    return true;
+  }
+  const realIncome = agg.withdrawalSeries[2]?.values ?? {};
+  if (firstYear > agg.endYear) return false;
+  for (let y = firstYear; y <= agg.endYear; y++) {
+    if ((realIncome[y] ?? 0) < targetIncome) return false;
+  }
+  return true;
+}
+
+/** Plan with every selected investment's field set to `rate`. */
+function withInvestmentRate(model: RetirementModel, names: string[], field: 'contributionRate' | 'withdrawalRate', rate: number): RetirementModel {
+  const items = { ...model.investments?.items };
+  names.forEach(n => { items[n] = { ...items[n], [field]: rate }; });
+  return { ...model, investments: { ...model.investments, items } };
+}
+
+/**
+ * Plan retiring `months` later (negative = earlier). Wage stop-work dates and investment
+ * withdrawal dates move with the retirement date; the years planned after retirement stay fixed.
+ * In a couple only the primary member's wages and investments move.
+ */
+export function withRetirementShift(model: RetirementModel, months: number): RetirementModel {
+  const wages = Object.fromEntries(Object.entries(model.wages?.items ?? {})
+    .map(([n, w]) => [n, ownerOf(model, w) === "Primary" ? { ...w, stopWorkDate: shiftDate(w.stopWorkDate, months) } : w]));
+  const investments = Object.fromEntries(Object.entries(model.investments?.items ?? {})
+    .map(([n, i]) => [n, ownerOf(model, i) === "Primary" ? { ...i, withdrawalDate: shiftDate(i.withdrawalDate, months) } : i]));
+  return {
+    ...model,
+    retireDate: shiftDate(model.retireDate, months),
+    wages: { ...model.wages, items: wages },
+    investments: { ...model.investments, items: investments },
+  };
+}
+
+/** Run the solver described by `model.goalSeek`. */
+export function solveGoal(model: RetirementModel, settings: GoalSeekSettings = model.goalSeek ?? {}): GoalSeekResult {
+  const variable = goalSeekVariableFrom(settings.variable);
+  const target = goalSeekTargetFrom(settings.target);
+  const targetIncome = Number(settings.targetIncome) || 0;
+  let evaluations = 0;
+  const passes = (candidate: RetirementModel): boolean => {
+    evaluations++;
+    return meetsGoal(candidate, target, targetIncome);
+  };
+  const unsolved = (message: string): GoalSeekResult => ({ solved: false, message, evaluations });
+
+  if (target === "Real Monthly Income At Least" && targetIncome <= 0) return unsolved("Enter the real monthly income to aim for.");
+  const spendsDown = Object.values(model.investments?.items ?? {})
+    .some(item => withdrawalStrategyFrom(item.withdrawalStrategy) === "Variable Percentage (VPW)");
+  if (target === "Balance Never Runs Out" && spendsDown) {
+    return unsolved("Variable Percentage (VPW) spends its balance down by the end of the plan, so the balance always runs out. Aim for a real monthly income instead.");
+  }
+
+  if (variable === "Earliest Retirement Date") {
+    const retire = parseDate(model.retireDate);
+    if (!retire) return unsolved("Set a retirement date on the Planning step first.");
+    const retireMonth = toMonthIndex(retire.year, retire.month);
+    const firstShift = planStartMonth(model) - retireMonth;
+    const lastShift = firstShift + MAX_RETIREMENT_SEARCH_YEARS * 12;
+    for (let shift = firstShift; shift <= lastShift; shift++) {
+      const candidate = withRetirementShift(model, shift);
+      if (passes(candidate)) {
+        const direction = shift === 0 ? "the current plan" : `${Math.abs(shift)} month${Math.abs(shift) === 1 ? "" : "s"} ${shift < 0 ? "earlier" : "later"} than planned`;
+        return { solved: true, message: `Earliest retirement date: ${candidate.retireDate} (${direction}).`, model: candidate, evaluations };
+      }
+    }
+    return unsolved(`No retirement date in the next ${MAX_RETIREMENT_SEARCH_YEARS} years meets the target.`);
+  }
+
+  const eligible = eligibleInvestmentsFor(variable, model);
+  const chosen = settings.investment && settings.investment !== ALL_INVESTMENTS ? [settings.investment] : eligible;
+  const names = chosen.filter(n => eligible.includes(n));
+  if (!names.length) {
+    return unsolved(variable === "Lowest Contribution Rate"
+      ? "No investment receives contributions from a wage."
+      : "No investment uses a withdrawal strategy with a withdrawal rate.");
+  }
+  const label = names.length === 1 ? names[0] : ALL_INVESTMENTS.toLowerCase();
+
+  if (variable === "Lowest Contribution Rate") {
+    const steps = Math.round(1 / CONTRIBUTION_RATE_STEP);
+    let firstPassingStep = 0;
+    while (firstPassingStep <= steps && !passes(withInvestmentRate(model, names, 'contributionRate', firstPassingStep * CONTRIBUTION_RATE_STEP))) {
+      firstPassingStep++;
+    }
+    if (firstPassingStep > steps) return unsolved("Even contributing 100% of the wage does not meet the target.");
+    // Contributions only help, so the boundary lies between the last failing and first passing step.
+    let passing = firstPassingStep * CONTRIBUTION_RATE_STEP;
+    let failing = passing - CONTRIBUTION_RATE_STEP;
+    while (firstPassingStep > 0 && passing - failing > CONTRIBUTION_RATE_PRECISION) {
+      const mid: number = (failing + passing) / 2;
+      if (passes(withInvestmentRate(model, names, 'contributionRate', mid))) passing = mid;
+      else failing = mid;
+    }
+    const rate = Math.max(0, Math.ceil(passing / CONTRIBUTION_RATE_PRECISION - 1e-9) * CONTRIBUTION_RATE_PRECISION);
+    return {
+      solved: true,
+      message: `Lowest contribution rate for ${label}: ${formatPct(rate)}.`,
+      model: withInvestmentRate(model, names, 'contributionRate', rate),
+      evaluations,
+    };
+  }
+
+  // Withdrawal rates are not monotone for income targets (too little income early, too little later),
+  // so scan from the cap downwards and take the first rate that passes.
+  const steps = Math.round(MAX_WITHDRAWAL_RATE / WITHDRAWAL_RATE_STEP);
+  for (let i = steps; i >= 1; i--) {
+    const rate = i * WITHDRAWAL_RATE_STEP;
+    const candidate = withInvestmentRate(model, names, 'withdrawalRate', rate);
+    if (passes(candidate)) {
+      const capped = i === steps ? ` (the search limit; higher rates were not tried)` : "";
+      return { solved: true, message: `Highest sustainable withdrawal rate for ${label}: ${formatPct(rate)}${capped}.`, model: candidate, evaluations };
+    }
+  }
+  return unsolved("No withdrawal rate meets the target.");
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { irmaaSurchargeFor, medicalInflationFrom } from "./healthcare";
+import { createTimeline, projectHealthcareMonths, toMonthIndex } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+
+describe("irmaaSurchargeFor", () => {
+  it("applies the tier the income is above", () => {
+    expect(irmaaSurchargeFor(100000, 2025, "Single", 0)).toEqual({ partBFactor: 0, partD: 0 });
+    expect(irmaaSurchargeFor(150000, 2025, "Single", 0)).toEqual({ partBFactor: 1.0, partD: 35.3 });
+    expect(irmaaSurchargeFor(900000, 2025, undefined, 0)).toEqual({ partBFactor: 2.4, partD: 85.8 });
+  });
+
+  it("uses the joint thresholds only for joint filers", () => {
+    expect(irmaaSurchargeFor(150000, 2025, "Married Filing Jointly", 0).partBFactor).toBe(0);
+    expect(irmaaSurchargeFor(220000, 2025, "Married Filing Jointly", 0).partBFactor).toBe(0.4);
+    expect(irmaaSurchargeFor(120000, 2025, "Married Filing Separately", 0).partBFactor).toBe(0.4);
+  });
+
+  it("indexes the thresholds from the table year", () => {
+    expect(irmaaSurchargeFor(110000, 2026, "Single", 0.1).partBFactor).toBe(0);
+  });
+});
+
+describe("medicalInflationFrom", () => {
+  it("defaults blank rates to medical inflation", () => {
+    expect(medicalInflationFrom(undefined)).toBe(0.05);
+    expect(medicalInflationFrom("")).toBe(0.05);
+    expect(medicalInflationFrom(0)).toBe(0);
+  });
+});
+
+describe("projectHealthcareMonths", () => {
+  const plan: RetirementModel = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    asOfDate: "01/01/2025",
+    birthDate: "07/01/1960",
+    retireDate: "01/01/2025",
+    filingStatus: "Single",
+    healthcare: {
+      preMedicareMonthly: 800, preMedicareInflation: 0,
+      medicareInflation: 0,
+      outOfPocketMonthly: 200, outOfPocketInflation: 0,
+    },
+  };
+  const timeline = createTimeline(toMonthIndex(2025, 1), 2025);
+
+  it("pays coverage premiums until Medicare starts at 65 and out-of-pocket costs throughout", () => {
+    const ledger = projectHealthcareMonths(plan, timeline, () => 0);
+    expect(ledger.preMedicare.slice(5, 7)).toEqual([800, 0]);
+    expect(ledger.medicare.slice(5, 7)).toEqual([0, 185 + 40]);
+    expect(ledger.outOfPocket.every(v => v === 200)).toBe(true);
+  });
+
+  it("adds IRMAA from the income two years earlier", () => {
+    const magiFor = (year: number): number => year === 2025 ? 150000 : 0;
+    const ledger = projectHealthcareMonths(plan, timeline, magiFor);
+    expect(ledger.irmaa[6]).toBeCloseTo(185 + 35.3, 6);
+    expect(ledger.medicare[6]).toBeCloseTo(185 * 2 + 40 + 35.3, 6);
+  });
+
+  it("grows entered premiums from the as-of year", () => {
+    const younger: RetirementModel = { ...plan, birthDate: "07/01/1970", healthcare: { ...plan.healthcare, preMedicareInflation: 0.1 } };
+    const ledger = projectHealthcareMonths(younger, createTimeline(toMonthIndex(2025, 1), 2026), () => 0);
+    expect(ledger.preMedicare[0]).toBe(800);
+    expect(ledger.preMedicare[12]).toBeCloseTo(880, 6);
+  });
+
+  it("costs nothing without healthcare settings", () => {
+    const ledger = projectHealthcareMonths({ ...plan, healthcare: undefined }, timeline, () => 0);
+    expect([...ledger.preMedicare, ...ledger.medicare, ...ledger.outOfPocket].every(v => v === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+// Healthcare costs in retirement: coverage premiums until Medicare, Medicare Part B / D premiums
+// with IRMAA income surcharges, and out-of-pocket spending. Amounts are per person per month in
+// today's dollars (the defaults below in HEALTHCARE_TABLE_YEAR dollars), and each grows at its own
+// medical inflation rate.
+
+import type { FilingStatus } from "./tax";
+
+/** Medicare coverage starts in the month a person turns this age. */
+export const MEDICARE_AGE = 65;
+
+/** Year the premiums and IRMAA table below describe. */
+export const HEALTHCARE_TABLE_YEAR = 2025;
+
+/** Standard Part B premium ($ / month) in HEALTHCARE_TABLE_YEAR. */
+export const DEFAULT_PART_B_MONTHLY = 185;
+
+/** Typical stand-alone Part D plan premium ($ / month) in HEALTHCARE_TABLE_YEAR. */
+export const DEFAULT_PART_D_MONTHLY = 40;
+
+/** Default yearly growth of every healthcare cost. */
+export const DEFAULT_MEDICAL_INFLATION = 0.05;
+
+/** IRMAA is set from the tax return filed two years earlier. */
+export const IRMAA_LOOKBACK_YEARS = 2;
+
+interface IrmaaTier {
+  /** Modified AGI above which the tier applies (single / joint filers). */
+  single: number;
+  joint: number;
+  /** Part B surcharge as a multiple of the standard premium. */
+  partB: number;
+  /** Part D surcharge ($ / month). */
+  partD: number;
+}
+
+/** 2025 IRMAA tiers, lowest first. */
+const IRMAA_TIERS: IrmaaTier[] = [
+  { single: 106000, joint: 212000, partB: 0.4, partD: 13.7 },
+  { single: 133000, joint: 266000, partB: 1.0, partD: 35.3 },
+  { single: 167000, joint: 334000, partB: 1.6, partD: 57.0 },
+  { single: 200000, joint: 400000, partB: 2.2, partD: 78.6 },
+  { single: 500000, joint: 750000, partB: 2.4, partD: 85.8 },
+];
+
+export interface IrmaaSurcharge {
+  /** Multiple of the standard Part B premium added on top of it. */
+  partBFactor: number;
+  /** $ / month added to the Part D premium, in HEALTHCARE_TABLE_YEAR dollars. */
+  partD: number;
+}
+
+/**
+ * IRMAA surcharge for a year's modified AGI. Thresholds are indexed with `indexRate` from
+ * HEALTHCARE_TABLE_YEAR. Joint thresholds apply to married couples filing jointly; every other
+ * filing status uses the single thresholds.
+ */
+export function irmaaSurchargeFor(magi: number, year: number, filingStatus: FilingStatus | undefined, indexRate: number): IrmaaSurcharge {
+  const joint = filingStatus === "Married Filing Jointly";
+  const indexFactor = Math.pow(1 + indexRate, Math.max(0, year - HEALTHCARE_TABLE_YEAR));
+  const tier = IRMAA_TIERS.slice().reverse().find(t => magi > (joint ? t.joint : t.single) * indexFactor);
+  return tier ? { partBFactor: tier.partB, partD: tier.partD } : { partBFactor: 0, partD: 0 };
+}
+
+/** Growth rate of a healthcare cost; blank uses DEFAULT_MEDICAL_INFLATION. */
+export const medicalInflationFrom = (val: unknown): number =>
+  val === undefined || val === '' || !isFinite(Number(val)) ? DEFAULT_MEDICAL_INFLATION : Number(val);
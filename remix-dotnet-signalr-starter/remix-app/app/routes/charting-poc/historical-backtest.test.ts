@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { historicalReturnFor, runHistoricalBacktest, stockAllocationFrom } from "./historical-backtest";
+import { FIRST_HISTORICAL_YEAR, LAST_HISTORICAL_YEAR } from "./historical-returns";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+
+const plan = (withdrawalMonthly: number): RetirementModel => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2030",
+  retireDate: "01/01/2030",
+  yearsAfterRetire: 9,
+  taxPercentage: 0.2,
+  projectionMode: "Historical Backtest",
+  investments: { items: { Portfolio: { balance: 500000, rate: 0.06, stockAllocation: 1, withdrawalDate: "01/01/2030", withdrawalStrategy: "Fixed Dollar Target", withdrawalMonthly } } },
+});
+
+describe("stockAllocationFrom", () => {
+  it("defaults to 60% stocks and keeps the share between 0 and 1", () => {
+    expect(stockAllocationFrom({})).toBe(0.6);
+    expect(stockAllocationFrom({ stockAllocation: 1.5 })).toBe(1);
+    expect(stockAllocationFrom({ stockAllocation: -0.2 })).toBe(0);
+  });
+});
+
+describe("historicalReturnFor", () => {
+  it("blends the year's stock and bond returns as a continuously compounded rate", () => {
+    expect(historicalReturnFor({ stockAllocation: 0.5 }, { stocks: 0.2, bonds: 0, cpi: 0.03 })).toBeCloseTo(Math.log(1.1), 10);
+  });
+});
+
+describe("runHistoricalBacktest", () => {
+  it("replays every start year with enough history for the whole plan", () => {
+    const result = runHistoricalBacktest(plan(2000));
+    const planYears = result.endYear - result.beginYear + 1;
+    expect(result.cohorts).toHaveLength(LAST_HISTORICAL_YEAR - FIRST_HISTORICAL_YEAR - planYears + 2);
+    expect(result.cohorts[0].startYear).toBe(FIRST_HISTORICAL_YEAR);
+    expect(result.cohorts[result.cohorts.length - 1].startYear).toBe(LAST_HISTORICAL_YEAR - planYears + 1);
+  });
+
+  it("counts the cohorts that never ran out and lists those that ran out soonest first", () => {
+    const { cohorts, successRate, worstCohorts } = runHistoricalBacktest(plan(5500));
+    const survived = cohorts.filter(c => c.depletionYear === undefined).length;
+    expect(survived).toBeLessThan(cohorts.length);
+    expect(successRate).toBeCloseTo(survived / cohorts.length, 10);
+    expect(worstCohorts).toHaveLength(5);
+    expect(worstCohorts[0].depletionYear).toBe(Math.min(...cohorts.map(c => c.depletionYear ?? Infinity)));
+  });
+
+  it("has no cohorts without investments", () => {
+    const result = runHistoricalBacktest({ ...plan(2000), investments: { items: {} } });
+    expect(result.cohorts).toEqual([]);
+    expect(result.successRate).toBeUndefined();
+  });
+});
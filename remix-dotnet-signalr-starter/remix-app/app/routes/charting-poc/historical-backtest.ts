@@ -0,0 +1,147 @@
+// Historical backtesting mode.
+// Replays the plan through every complete run of bundled market history (one cohort per
+// historical start year) so users can see how sequence-of-returns risk played out in practice.
+
+import { buildTotalInvestmentAggregates, depletionYearOf } from "./chart-builders";
+import { FIRST_HISTORICAL_YEAR, HISTORICAL_RETURNS, LAST_HISTORICAL_YEAR, type HistoricalYear } from "./historical-returns";
+import type { InvestmentItem, RetirementModel } from "./retirement-model";
+
+export const DEFAULT_STOCK_ALLOCATION = 0.6;
+
+/** Start years commonly cited as worst cases for new retirees; always charted when in range. */
+export const NOTABLE_COHORTS = [1929, 1966];
+
+const WORST_COHORT_COUNT = 5;
+
+const NO_HISTORY: HistoricalYear = { stocks: 0, bonds: 0, cpi: 0 };
+
+export interface HistoricalCohort {
+  /** Historical year the plan's first year is replayed in. */
+  startYear: number;
+  /** End-of-plan total balance after tax & inflation. */
+  endingRealBalance: number;
+  /** Lowest year-end balance after tax & inflation. */
+  lowestRealBalance: number;
+  /** Plan year the balance first ran out, if it did. */
+  depletionYear?: number;
+  /** Year-end balance after tax & inflation, keyed by plan year. */
+  realBalance: Record<number, number | null>;
+}
+
+export interface BacktestResult {
+  /** First and last plan years (not historical years). */
+  beginYear: number;
+  endYear: number;
+  /** One entry per historical start year, ascending. Empty when there are no investments or not enough history. */
+  cohorts: HistoricalCohort[];
+  /** Share of cohorts (0..1) whose balance never ran out; undefined without cohorts. */
+  successRate: number | undefined;
+  /** Cohorts that ran out soonest, then those ending with the least. */
+  worstCohorts: HistoricalCohort[];
+}
+
+/** Stock share of an investment's annually rebalanced stock/bond mix (defaults to 60%). */
+export const stockAllocationFrom = (item: InvestmentItem): number => {
+  const n = item.stockAllocation === undefined || item.stockAllocation === '' ? DEFAULT_STOCK_ALLOCATION : Number(item.stockAllocation);
+  return Math.min(1, Math.max(0, isFinite(n) ? n : DEFAULT_STOCK_ALLOCATION));
+};
+
+/** Continuously compounded return of an investment's mix in a historical year (matching the engine's `rate`). */
+export function historicalReturnFor(item: InvestmentItem, history: HistoricalYear): number {
+  const stocks = stockAllocationFrom(item);
+  return Math.log(1 + stocks * history.stocks + (1 - stocks) * history.bonds);
+}
+
+/**
+ * Run the plan once per historical start year. Plan year `beginYear + k` experiences the
+ * market returns and CPI of historical year `startYear + k`; only start years with a complete
+ * run of history through the end of the plan are used.
+ */
+export function runHistoricalBacktest(model: RetirementModel): BacktestResult {
+  const investments: Record<string, InvestmentItem> = model.investments?.items ?? {};
+  const { beginYear, endYear } = buildTotalInvestmentAggregates(model);
+  const planYears = endYear - beginYear + 1;
+  const lastStartYear = LAST_HISTORICAL_YEAR - planYears + 1;
+
+  const cohorts: HistoricalCohort[] = [];
+  if (Object.keys(investments).length) {
+    for (let startYear = FIRST_HISTORICAL_YEAR; startYear <= lastStartYear; startYear++) {
+      const historyFor = (year: number): HistoricalYear => HISTORICAL_RETURNS[startYear + year - beginYear] ?? NO_HISTORY;
+      const agg = buildTotalInvestmentAggregates(model, {
+        returnRateFor: (name, year) => historicalReturnFor(investments[name] ?? {}, historyFor(year)),
+        inflationRateFor: (year) => historyFor(year).cpi,
+      });
+
+      const nominalBalance = agg.balanceSeries[0]?.values || {};
+      const realBalance = agg.balanceSeries[2]?.values || {};
+      let lowestRealBalance = Infinity;
+      for (let y = beginYear; y <= endYear; y++) {
+        const real = realBalance[y];
+        if (typeof real === 'number') lowestRealBalance = Math.min(lowestRealBalance, real);
+      }
+      cohorts.push({
+        startYear,
+        endingRealBalance: realBalance[endYear] ?? 0,
+        lowestRealBalance: isFinite(lowestRealBalance) ? lowestRealBalance : 0,
+        depletionYear: depletionYearOf(nominalBalance, beginYear, endYear),
+        realBalance,
+      });
+    }
+  }
+
+  const worstCohorts = cohorts.slice().sort((a, b) =>
+    (a.depletionYear ?? Infinity) - (b.depletionYear ?? Infinity) || a.endingRealBalance - b.endingRealBalance
+  ).slice(0, WORST_COHORT_COUNT);
+
+  return {
+    beginYear,
+    endYear,
+    cohorts,
+    successRate: cohorts.length ? cohorts.filter(c => c.depletionYear === undefined).length / cohorts.length : undefined,
+    worstCohorts,
+  };
+}
+
+/** FinancialChart props: each start year's ending real balance (x axis = historical start year). */
+export function buildCohortOutcomeChart(result: BacktestResult): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  series: { name: string; values: Record<number, number | null>; color?: string; strokeWidth?: number }[];
+} {
+  const first = result.cohorts[0]?.startYear ?? FIRST_HISTORICAL_YEAR;
+  const last = result.cohorts[result.cohorts.length - 1]?.startYear ?? first;
+  return {
+    beginYear: first,
+    endYear: last,
+    valueLabel: 'Ending Real Balance by Start Year',
+    series: [{
+      name: 'Ending Balance After Tax & Inflation',
+      values: Object.fromEntries(result.cohorts.map(c => [c.startYear, c.endingRealBalance])),
+      color: '#059669',
+      strokeWidth: 3,
+    }],
+  };
+}
+
+/** FinancialChart props: real balance paths of the worst and notable cohorts over the plan years. */
+export function buildWorstCohortChart(result: BacktestResult): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  series: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[];
+} {
+  const worstStartYears = new Set(result.worstCohorts.slice(0, 3).map(c => c.startYear));
+  const shown = result.cohorts.filter(c => worstStartYears.has(c.startYear) || NOTABLE_COHORTS.includes(c.startYear));
+  return {
+    beginYear: result.beginYear,
+    endYear: result.endYear,
+    valueLabel: 'Real Balance',
+    series: shown.map(c => ({
+      name: `Starting ${c.startYear}`,
+      values: c.realBalance,
+      strokeWidth: worstStartYears.has(c.startYear) ? 3 : 2,
+      strokeDasharray: worstStartYears.has(c.startYear) ? undefined : '5 4',
+    })),
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { ownerOf } from "./household";
+import { householdEndYear, lastMonthAliveFor, planEndYear, toMonthIndex, wageStopDateFor } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+
+const couple: RetirementModel = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  householdMode: "Couple",
+  birthDate: "06/15/1960",
+  retireDate: "07/01/2027",
+  lifeExpectancy: 85,
+  yearsAfterRetire: 30,
+  partner: { birthDate: "03/01/1963", retireDate: "04/01/2030", lifeExpectancy: 90 },
+  wages: {
+    items: {
+      Teaching: { annual: 60000, owner: "Partner" },
+      Consulting: { annual: 40000, stopWorkDate: "12/31/2050" },
+    },
+  },
+};
+
+describe("ownerOf", () => {
+  it("reads the owner in couple mode and is always the primary member otherwise", () => {
+    const item = { owner: "Partner" };
+    expect(ownerOf(couple, item)).toBe("Partner");
+    expect(ownerOf({ ...couple, householdMode: "Single" }, item)).toBe("Primary");
+    expect(ownerOf(couple, {})).toBe("Primary");
+  });
+});
+
+describe("lastMonthAliveFor", () => {
+  it("adds the life expectancy to the birth month", () => {
+    expect(lastMonthAliveFor(couple, "Primary")).toBe(toMonthIndex(2045, 6));
+    expect(lastMonthAliveFor(couple, "Partner")).toBe(toMonthIndex(2053, 3));
+  });
+
+  it("is undefined outside couple mode", () => {
+    expect(lastMonthAliveFor({ ...couple, householdMode: "Single" }, "Primary")).toBeUndefined();
+  });
+});
+
+describe("plan horizon", () => {
+  it("runs to the second member's expected death", () => {
+    expect(householdEndYear(couple)).toBe(2053);
+    expect(planEndYear(couple, 2026)).toBe(2053);
+  });
+
+  it("falls back to retirement plus the years planned without both life expectancies", () => {
+    const partnerUnknown = { ...couple, partner: { ...couple.partner, lifeExpectancy: "" as const } };
+    expect(householdEndYear(partnerUnknown)).toBeUndefined();
+    expect(planEndYear(partnerUnknown, 2026)).toBe(2057);
+  });
+});
+
+describe("wageStopDateFor", () => {
+  it("stops a couple's wage at its owner's retirement date when it has no stop date", () => {
+    expect(wageStopDateFor(couple, "Teaching")).toEqual({ year: 2030, month: 4, day: 1 });
+  });
+
+  it("cuts a wage short at its owner's expected death", () => {
+    expect(wageStopDateFor(couple, "Consulting")).toEqual({ year: 2045, month: 6, day: 31 });
+  });
+});
@@ -0,0 +1,35 @@
+// Household members.
+// The plan's own birth and retirement dates describe the primary member; a couple adds a partner.
+// Income streams and accounts belong to one member, and in a couple the deceased member's
+// streams stop (or fall to their survivor share) after that member's life expectancy.
+
+import type { HouseholdMember, RetirementModel } from "./retirement-model";
+import { oneOf } from "./choices";
+
+export const HOUSEHOLD_MODES = ["Single", "Couple"] as const;
+
+export type HouseholdMode = typeof HOUSEHOLD_MODES[number];
+
+/** Plans without a household mode are single-person plans, the only kind before households existed. */
+export const householdModeFrom = oneOf(HOUSEHOLD_MODES, "Single");
+
+export const HOUSEHOLD_MEMBERS = ["Primary", "Partner"] as const;
+
+export type HouseholdMemberKey = typeof HOUSEHOLD_MEMBERS[number];
+
+export const householdMemberFrom = oneOf(HOUSEHOLD_MEMBERS, "Primary");
+
+export const isCouple = (model: RetirementModel): boolean => householdModeFrom(model.householdMode) === "Couple";
+
+/** Owner of a wage, account or benefit; always the primary member outside couple mode. */
+export const ownerOf = (model: RetirementModel, item: { owner?: unknown } | undefined): HouseholdMemberKey =>
+  isCouple(model) ? householdMemberFrom(item?.owner) : "Primary";
+
+/** The other member of a couple. */
+export const survivorOf = (key: HouseholdMemberKey): HouseholdMemberKey => key === "Primary" ? "Partner" : "Primary";
+
+/** Birth date, retirement date and life expectancy of a member. */
+export function memberOf(model: RetirementModel, key: HouseholdMemberKey): HouseholdMember {
+  if (key === "Partner") return model.partner ?? {};
+  return { birthDate: model.birthDate, retireDate: model.retireDate, lifeExpectancy: model.lifeExpectancy };
+}
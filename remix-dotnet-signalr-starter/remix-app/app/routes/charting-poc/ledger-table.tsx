@@ -0,0 +1,82 @@
+import React, { useMemo, useState } from 'react';
+import { defaultCurrencyFormatter } from './chart';
+
+type LedgerRow = {
+  year: number;
+  /** One value per column; null where the column has nothing that year. */
+  values: (number | null)[];
+};
+
+export interface LedgerTableProps {
+  columns: string[];
+  rows: LedgerRow[];
+  title?: string;
+  currency?: string;
+}
+
+/** Sort key: -1 is the year column, otherwise a value column index. */
+type SortState = { column: number; descending: boolean };
+
+/**
+ * Collapsible year-by-year table of the amounts behind a chart.
+ * Clicking a column header sorts by it; clicking it again reverses the order. Empty cells sort last.
+ */
+export default function LedgerTable({
+  columns,
+  rows,
+  title = 'Year-by-Year Ledger',
+  currency = 'USD',
+}: LedgerTableProps) {
+  const [sort, setSort] = useState<SortState>({ column: -1, descending: false });
+  const formatter = useMemo(() => defaultCurrencyFormatter(currency), [currency]);
+
+  const sortedRows = useMemo(() => {
+    const valueOf = (row: LedgerRow) => sort.column < 0 ? row.year : row.values[sort.column];
+    return rows.slice().sort((a, b) => {
+      const va = valueOf(a);
+      const vb = valueOf(b);
+      if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+      return sort.descending ? vb - va : va - vb;
+    });
+  }, [rows, sort]);
+
+  const header = (label: string, column: number) => {
+    const active = sort.column === column;
+    return (
+      <th
+        key={label}
+        scope="col"
+        aria-sort={active ? (sort.descending ? 'descending' : 'ascending') : 'none'}
+        style={{ cursor: 'pointer', whiteSpace: 'nowrap' }}
+        onClick={() => setSort((s) => ({ column, descending: s.column === column ? !s.descending : false }))}
+      >
+        {label}{active ? (sort.descending ? ' ▼' : ' ▲') : ''}
+      </th>
+    );
+  };
+
+  if (!rows.length) return null;
+  return (
+    <details>
+      <summary style={{ cursor: 'pointer' }}>{title}</summary>
+      <div style={{ overflowX: 'auto' }}>
+        <table className="data-table">
+          <thead>
+            <tr>
+              {header('Year', -1)}
+              {columns.map((label, c) => header(label, c))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map((row) => (
+              <tr key={row.year}>
+                <th scope="row">{row.year}</th>
+                {row.values.map((v, c) => <td key={columns[c]}>{v === null ? '—' : formatter.format(v)}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { amortizedPayment } from "./liabilities";
+import { createTimeline, projectLiabilityMonths, toMonthIndex } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type LiabilityItem, type RetirementModel } from "./retirement-model";
+
+const ledgerFor = (loan: LiabilityItem) => {
+  const model: RetirementModel = { schemaVersion: CURRENT_SCHEMA_VERSION, asOfDate: "01/01/2025", liabilities: { items: { Loan: loan } } };
+  return projectLiabilityMonths("Loan", model, createTimeline(toMonthIndex(2025, 1), 2026));
+};
+
+describe("amortizedPayment", () => {
+  it("levels the payment with monthly compounding", () => {
+    expect(amortizedPayment(200000, 0.06, 360)).toBeCloseTo(1199.10, 2);
+    expect(amortizedPayment(12000, 0, 12)).toBe(1000);
+  });
+
+  it("is zero without a balance or a term", () => {
+    expect(amortizedPayment(0, 0.05, 120)).toBe(0);
+    expect(amortizedPayment(10000, 0.05, 0)).toBe(0);
+  });
+});
+
+describe("projectLiabilityMonths", () => {
+  it("repays the loan over its term from now", () => {
+    const ledger = ledgerFor({ balance: 12000, rate: 0.12, termYears: 1 });
+    expect(ledger.interest[0]).toBeCloseTo(120, 6);
+    expect(ledger.payment[0]).toBeCloseTo(amortizedPayment(12000, 0.12, 12), 6);
+    expect(ledger.payoffMonth).toBe(toMonthIndex(2025, 12));
+    expect(ledger.balance[11]).toBe(0);
+    expect(ledger.payment[12]).toBeNull();
+  });
+
+  it("replays payments made since a past start date", () => {
+    const ledger = ledgerFor({ balance: 24000, rate: 0, termYears: 2, startDate: "01/01/2024" });
+    expect(ledger.balance[0]).toBe(11000);
+    expect(ledger.payoffMonth).toBe(toMonthIndex(2025, 12));
+  });
+
+  it("pays off sooner with extra principal", () => {
+    expect(ledgerFor({ balance: 12000, rate: 0, termYears: 1, extraMonthly: 1000 }).payoffMonth).toBe(toMonthIndex(2025, 6));
+  });
+
+  it("pays the remaining balance on the payoff date", () => {
+    const ledger = ledgerFor({ balance: 12000, rate: 0, termYears: 1, payoffDate: "04/15/2025" });
+    expect(ledger.payment.slice(2, 5)).toEqual([1000, 9000, null]);
+    expect(ledger.payoffMonth).toBe(toMonthIndex(2025, 4));
+  });
+
+  it("owes nothing before a future start date", () => {
+    const ledger = ledgerFor({ balance: 12000, rate: 0, termYears: 1, startDate: "07/01/2025" });
+    expect(ledger.balance[5]).toBe(0);
+    expect(ledger.payment[6]).toBe(1000);
+  });
+});
@@ -0,0 +1,22 @@
+// Loans and other debts: fixed-rate amortizing liabilities paid monthly out of after-tax income.
+
+import { oneOf } from "./choices";
+
+export const LIABILITY_KINDS = ["Mortgage", "Auto Loan", "Student Loan", "Other"] as const;
+
+export type LiabilityKind = typeof LIABILITY_KINDS[number];
+
+export const liabilityKindFrom = oneOf(LIABILITY_KINDS, "Other");
+
+/** Chart marker color for payoff dates. */
+export const PAYOFF_MARKER_COLOR = '#7c3aed';
+
+/**
+ * Level monthly payment that repays `principal` over `months` at a nominal annual `rate`
+ * compounded monthly (the usual loan convention, unlike the continuously compounded returns).
+ */
+export function amortizedPayment(principal: number, rate: number, months: number): number {
+  if (principal <= 0 || months <= 0) return 0;
+  const r = rate / 12;
+  return r === 0 ? principal / months : principal * r / (1 - Math.pow(1 + r, -months));
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildTotalInvestmentAggregates } from "./chart-builders";
+import { runMonteCarloSimulation } from "./monte-carlo";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+
+const plan = (volatility: number, trials = 25): RetirementModel => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2030",
+  retireDate: "01/01/2030",
+  yearsAfterRetire: 10,
+  inflationPercentage: 0.02,
+  taxPercentage: 0.2,
+  projectionMode: "Monte Carlo",
+  simulation: { trials, seed: 7 },
+  investments: { items: { IRA: { balance: 300000, rate: 0.05, volatility, withdrawalDate: "01/01/2030", withdrawalRate: 0.06 } } },
+});
+
+describe("runMonteCarloSimulation", () => {
+  it("replays the same trials for the same seed", () => {
+    expect(runMonteCarloSimulation(plan(0.15))).toEqual(runMonteCarloSimulation(plan(0.15)));
+  });
+
+  it("collapses to the deterministic projection without volatility", () => {
+    const result = runMonteCarloSimulation(plan(0, 3));
+    const realBalance = buildTotalInvestmentAggregates(plan(0)).balanceSeries[2].values;
+    expect(result.successProbability).toBe(1);
+    expect(result.balance.p10[2035]).toBe(result.balance.p90[2035]);
+    expect(result.balance.p50[2035]).toBe(Math.round(realBalance[2035] as number));
+  });
+
+  it("orders the percentiles and reports a success share", () => {
+    const result = runMonteCarloSimulation(plan(0.25, 50));
+    expect(result.balance.p10[2039]!).toBeLessThanOrEqual(result.balance.p50[2039]!);
+    expect(result.balance.p50[2039]!).toBeLessThanOrEqual(result.balance.p90[2039]!);
+    expect(result.successProbability).toBeGreaterThanOrEqual(0);
+    expect(result.successProbability).toBeLessThanOrEqual(1);
+  });
+
+  it("clamps the trial count and has no success rate without investments", () => {
+    const result = runMonteCarloSimulation({ ...plan(0.1), simulation: { trials: 0 }, investments: { items: {} } });
+    expect(result.trials).toBe(1000);
+    expect(result.successProbability).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+// Monte Carlo projection mode.
+// Re-runs the deterministic aggregate builder many times with randomly sampled
+// annual returns per investment and summarizes the spread of outcomes.
+
+import { buildTotalInvestmentAggregates, depletionYearOf } from "./chart-builders";
+import { planStartYear } from "./projection-engine";
+import type { InvestmentItem, RetirementModel } from "./retirement-model";
+
+export const DEFAULT_TRIALS = 1000;
+export const MAX_TRIALS = 10000;
+export const DEFAULT_SEED = 42;
+
+/** Percentiles reported for every simulated series (fractions). */
+const PERCENTILES = { p10: 0.1, p50: 0.5, p90: 0.9 } as const;
+
+type PercentileKey = keyof typeof PERCENTILES;
+
+export type PercentileValues = Record<PercentileKey, Record<number, number | null>>;
+
+export interface MonteCarloResult {
+  beginYear: number;
+  endYear: number;
+  trials: number;
+  /** Share of trials (0..1) whose total balance never ran out; undefined when there are no investments. */
+  successProbability: number | undefined;
+  /** Total investment balance after tax & inflation. */
+  balance: PercentileValues;
+  /** Total monthly income after tax & inflation. */
+  income: PercentileValues;
+}
+
+/** Small, fast seeded PRNG (mulberry32) so a given seed always replays the same trials. */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample via Box-Muller. */
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = 1 - random(); // (0, 1] so log never sees 0
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/** Linear-interpolated percentile of an ascending sorted array. */
+function percentileOfSorted(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function summarize(samplesByYear: Record<number, number[]>, years: number[]): PercentileValues {
+  const result = { p10: {}, p50: {}, p90: {} } as PercentileValues;
+  years.forEach(y => {
+    const sorted = (samplesByYear[y] || []).slice().sort((a, b) => a - b);
+    (Object.keys(PERCENTILES) as PercentileKey[]).forEach(k => {
+      const v = percentileOfSorted(sorted, PERCENTILES[k]);
+      result[k][y] = v === null ? null : Math.round(v);
+    });
+  });
+  return result;
+}
+
+/**
+ * Run the Monte Carlo projection.
+ * Each investment's yearly return is drawn from a normal distribution with the investment's
+ * `rate` as the mean and `volatility` as the standard deviation (both continuously compounded,
+ * matching the deterministic builder). Trial count and seed come from `model.simulation`.
+ */
+export function runMonteCarloSimulation(model: RetirementModel): MonteCarloResult {
+  const requestedTrials = Math.floor(Number(model.simulation?.trials)) || DEFAULT_TRIALS;
+  const trials = Math.min(Math.max(requestedTrials, 1), MAX_TRIALS);
+  const seedRaw = model.simulation?.seed;
+  const seed = typeof seedRaw === 'number' && isFinite(seedRaw) ? seedRaw : DEFAULT_SEED;
+
+  const investments: Record<string, InvestmentItem> = model.investments?.items ?? {};
+  const investmentNames = Object.keys(investments).sort();
+  const returnParams: Record<string, { mean: number; volatility: number }> = {};
+  investmentNames.forEach(n => {
+    returnParams[n] = {
+      mean: Number(investments[n].rate) || 0,
+      volatility: Math.abs(Number(investments[n].volatility) || 0),
+    };
+  });
+
+  const normal = createNormal(createRandom(seed));
+  const balanceSamples: Record<number, number[]> = {};
+  const incomeSamples: Record<number, number[]> = {};
+  let beginYear = planStartYear(model);
+  let endYear = beginYear;
+  let survivingTrials = 0;
+
+  for (let t = 0; t < trials; t++) {
+    // Sampled lazily per (investment, year) and cached so repeated lookups agree within a trial.
+    const sampled: Record<string, Record<number, number>> = {};
+    const agg = buildTotalInvestmentAggregates(model, {
+      returnRateFor: (name, year) => {
+        const params = returnParams[name] || { mean: 0, volatility: 0 };
+        const byYear = sampled[name] || (sampled[name] = {});
+        if (!(year in byYear)) byYear[year] = params.mean + params.volatility * normal();
+        return byYear[year];
+      }
+    });
+    beginYear = agg.beginYear;
+    endYear = agg.endYear;
+
+    const nominalBalance = agg.balanceSeries[0]?.values || {};
+    const realBalance = agg.balanceSeries[2]?.values || {};
+    const realIncome = agg.withdrawalSeries[2]?.values || {};
+    for (let y = beginYear; y <= endYear; y++) {
+      const bal = realBalance[y];
+      if (typeof bal === 'number') (balanceSamples[y] || (balanceSamples[y] = [])).push(bal);
+      const inc = realIncome[y];
+      if (typeof inc === 'number') (incomeSamples[y] || (incomeSamples[y] = [])).push(inc);
+    }
+    if (depletionYearOf(nominalBalance, beginYear, endYear) === undefined) survivingTrials++;
+  }
+
+  const years = Array.from({ length: endYear - beginYear + 1 }, (_, i) => beginYear + i);
+  return {
+    beginYear,
+    endYear,
+    trials,
+    successProbability: investmentNames.length ? survivingTrials / trials : undefined,
+    balance: summarize(balanceSamples, years),
+    income: summarize(incomeSamples, years),
+  };
+}
+
+/**
+ * Build FinancialChart props for a percentile fan: a shaded 10th–90th band with the
+ * median drawn as a solid line.
+ */
+export function buildPercentileFanChart(result: MonteCarloResult, which: 'balance' | 'income', label: string): {
+  beginYear: number;
+  endYear: number;
+  valueLabel: string;
+  series: { name: string; values: Record<number, number | null>; color?: string; strokeWidth?: number; strokeDasharray?: string }[];
+  bands: { name: string; lower: Record<number, number | null>; upper: Record<number, number | null>; color?: string }[];
+} {
+  const values = result[which];
+  return {
+    beginYear: result.beginYear,
+    endYear: result.endYear,
+    valueLabel: label,
+    series: [
+      { name: `${label} Median`, values: values.p50, color: '#059669', strokeWidth: 3 },
+      { name: `${label} 10th Percentile`, values: values.p10, color: '#059669', strokeDasharray: '2 3', strokeWidth: 1 },
+      { name: `${label} 90th Percentile`, values: values.p90, color: '#059669', strokeDasharray: '2 3', strokeWidth: 1 },
+    ],
+    bands: [
+      { name: `${label} 10th–90th Percentile`, lower: values.p10, upper: values.p90, color: '#059669' }
+    ]
+  };
+}
@@ -0,0 +1,135 @@
+// Runs projections (see projections.ts) in Web Workers so editing a plan never waits on the engine:
+// one worker shared by the charts, and one per long-running simulation (see projectionLaneOf).
+// Where no worker is available (arguments that cannot be cloned, or a worker that failed to load)
+// the projection runs inline instead.
+
+import { useEffect, useState } from "react";
+import {
+  projectionLaneOf,
+  runProjection,
+  type ProjectionArgs,
+  type ProjectionCall,
+  type ProjectionKind,
+  type ProjectionLane,
+  type ProjectionMessage,
+  type ProjectionResponse,
+  type ProjectionResult
+} from "./projections";
+
+/** A lane's worker; absent until first needed, null when workers are unavailable or it failed to load. */
+const workers = new Map<ProjectionLane, Worker | null>();
+let nextRequestId = 1;
+let nextChannel = 1;
+const pendingResponses = new Map<number, { lane: ProjectionLane; respond: (response: ProjectionResponse) => void }>();
+
+function failPending(lane: ProjectionLane, error: string): void {
+  [...pendingResponses.entries()]
+    .filter(([, pending]) => pending.lane === lane)
+    .forEach(([id, pending]) => {
+      pendingResponses.delete(id);
+      pending.respond({ id, error });
+    });
+}
+
+function projectionWorker(lane: ProjectionLane): Worker | null {
+  const existing = workers.get(lane);
+  if (existing !== undefined) return existing;
+  if (typeof Worker === 'undefined') {
+    workers.set(lane, null);
+    return null;
+  }
+  try {
+    const created = new Worker(new URL("./projection-worker.ts", import.meta.url), { type: "module" });
+    created.onmessage = (event: MessageEvent<ProjectionResponse>) => {
+      const pending = pendingResponses.get(event.data.id);
+      pendingResponses.delete(event.data.id);
+      pending?.respond(event.data);
+    };
+    created.onerror = (event) => {
+      // eslint-disable-next-line no-console
+      console.warn("Projection worker failed; projecting on the main thread.", event.message);
+      created.terminate();
+      workers.set(lane, null);
+      failPending(lane, "Projection worker failed");
+    };
+    workers.set(lane, created);
+    return created;
+  } catch {
+    workers.set(lane, null);
+    return null;
+  }
+}
+
+/**
+ * Send a projection to its lane's worker; returns a cancel function, or undefined if it could not
+ * be sent. Cancelling the last request on a dedicated lane stops its worker, so a simulation that
+ * is already running does not hold up the next one; a fresh worker starts on the next request.
+ */
+function requestProjection(channel: string, call: ProjectionCall, respond: (response: ProjectionResponse) => void): (() => void) | undefined {
+  const lane = projectionLaneOf(call.kind);
+  const target = projectionWorker(lane);
+  if (!target) return undefined;
+  const id = nextRequestId++;
+  pendingResponses.set(id, { lane, respond });
+  try {
+    target.postMessage({ type: 'run', id, channel, ...call } satisfies ProjectionMessage);
+  } catch {
+    pendingResponses.delete(id);
+    return undefined;
+  }
+  return () => {
+    if (!pendingResponses.delete(id)) return;
+    const laneBusy = [...pendingResponses.values()].some(pending => pending.lane === lane);
+    if (lane !== "charts" && !laneBusy && workers.get(lane) === target) {
+      target.terminate();
+      workers.delete(lane);
+    } else {
+      target.postMessage({ type: 'cancel', id, channel } satisfies ProjectionMessage);
+    }
+  };
+}
+
+/** Run one projection off the main thread (inline when no worker is available). */
+export function projectInBackground<K extends ProjectionKind>(kind: K, args: ProjectionArgs<K>): Promise<ProjectionResult<K>> {
+  return new Promise((resolve, reject) => {
+    const sent = requestProjection(`projection-${nextChannel++}`, { kind, args } as ProjectionCall, (response) =>
+      'error' in response ? reject(new Error(response.error)) : resolve(response.result as ProjectionResult<K>));
+    if (!sent) {
+      try {
+        resolve(runProjection(kind, args));
+      } catch (error) {
+        reject(error);
+      }
+    }
+  });
+}
+
+/**
+ * Result of a projection for the given arguments. Nothing is projected during render: the result is
+ * undefined until the worker answers for the first time (so server and client markup agree on a
+ * placeholder). After that, changed arguments return the last good result with `pending` set until
+ * the newest one arrives. Responses to superseded arguments are ignored, and requests still queued
+ * for them are cancelled.
+ */
+export function useProjection<K extends ProjectionKind>(kind: K, args: ProjectionArgs<K>): { result: ProjectionResult<K> | undefined; pending: boolean } {
+  const key = JSON.stringify([kind, args]);
+  const [channel] = useState(() => `projection-${nextChannel++}`);
+  const [latest, setLatest] = useState<{ key?: string; result?: ProjectionResult<K> }>({});
+
+  useEffect(() => {
+    if (latest.key === key) return;
+    const cancel = requestProjection(channel, { kind, args } as ProjectionCall, (response) => {
+      if ('error' in response) {
+        // eslint-disable-next-line no-console
+        console.warn(`Projection "${kind}" failed:`, response.error);
+        setLatest((last) => ({ ...last, key }));
+      } else {
+        setLatest({ key, result: response.result as ProjectionResult<K> });
+      }
+    });
+    if (!cancel) setLatest({ key, result: runProjection(kind, args) });
+    return cancel;
+  }, [key]);
+
+  return { result: latest.result, pending: latest.key !== key };
+}
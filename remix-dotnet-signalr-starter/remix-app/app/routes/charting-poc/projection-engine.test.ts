@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { buildTotalInvestmentAggregates } from "./chart-builders";
+import {
+  activeFraction,
+  adjustForInflation,
+  createPriceIndex,
+  createTimeline,
+  dollarBasisYearFor,
+  monthKey,
+  monthRangeOf,
+  planStartMonth,
+  priceIndexFor,
+  projectWageMonths,
+  rollUp,
+  toMonthIndex,
+} from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+
+const october2026 = toMonthIndex(2026, 10);
+
+describe("createTimeline", () => {
+  it("starts at the first month and runs through December of the end year", () => {
+    const timeline = createTimeline(october2026, 2027);
+    expect(timeline.beginYear).toBe(2026);
+    expect(timeline.endYear).toBe(2027);
+    expect(timeline.months).toHaveLength(15);
+    expect(timeline.months[0]).toBe(october2026);
+  });
+
+  it("covers at least the first year", () => {
+    expect(createTimeline(october2026, 2020).months).toHaveLength(3);
+  });
+});
+
+describe("monthRangeOf", () => {
+  it("gives a partial first year fewer months", () => {
+    const timeline = createTimeline(october2026, 2027);
+    expect(monthRangeOf(timeline, 2026)).toEqual({ start: 0, end: 3 });
+    expect(monthRangeOf(timeline, 2027)).toEqual({ start: 3, end: 15 });
+  });
+});
+
+describe("rollUp", () => {
+  const timeline = createTimeline(october2026, 2027);
+  const monthly = timeline.months.map((_, i) => i < 3 ? 100 : 200);
+
+  it("averages a partial first year over the months it has", () => {
+    expect(rollUp(timeline, monthly, 'year', 'average')).toEqual({ 2026: 100, 2027: 200 });
+  });
+
+  it("takes the year's last value and skips years without any", () => {
+    const balances = monthly.map((v, i) => i < 3 ? null : v + i);
+    expect(rollUp(timeline, balances, 'year', 'end')).toEqual({ 2026: null, 2027: 214 });
+  });
+
+  it("keys monthly values by fractional year", () => {
+    const byMonth = rollUp(timeline, monthly, 'month', 'average');
+    expect(byMonth[monthKey(october2026)]).toBe(100);
+    expect(Object.keys(byMonth)).toHaveLength(15);
+  });
+});
+
+describe("activeFraction", () => {
+  const june2030 = toMonthIndex(2030, 6);
+
+  it("pro-rates the first and last months by day", () => {
+    expect(activeFraction(june2030, { year: 2030, month: 6, day: 16 })).toBeCloseTo(0.5, 10);
+    expect(activeFraction(june2030, undefined, { year: 2030, month: 6, day: 10 })).toBeCloseTo(1 / 3, 10);
+    expect(activeFraction(june2030, { year: 2030, month: 6, day: 11 }, { year: 2030, month: 6, day: 20 })).toBeCloseTo(1 / 3, 10);
+  });
+
+  it("is whole inside the range and zero outside it", () => {
+    expect(activeFraction(june2030, { year: 2030, month: 1, day: 1 })).toBe(1);
+    expect(activeFraction(june2030, { year: 2030, month: 7, day: 1 })).toBe(0);
+    expect(activeFraction(june2030, undefined, { year: 2030, month: 5, day: 31 })).toBe(0);
+  });
+});
+
+describe("a plan starting mid-year", () => {
+  const model: RetirementModel = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    asOfDate: "10/01/2026",
+    retireDate: "01/01/2030",
+    yearsAfterRetire: 2,
+    inflationPercentage: 0,
+    taxPercentage: 0.2,
+    wages: { items: { Salary: { annual: 120000, stopWorkDate: "11/15/2026" } } },
+    investments: { items: { Brokerage: { balance: 100000, rate: 0.12 } } },
+  };
+
+  it("pays wages from the first month, pro-rating a partial month", () => {
+    const wages = projectWageMonths("Salary", model, createTimeline(october2026, 2027));
+    expect(wages.slice(0, 4)).toEqual([10000, 5000, null, null]);
+  });
+
+  it("grows balances only for the months left in the first year", () => {
+    const nominal = buildTotalInvestmentAggregates(model).balanceSeries[0].values;
+    expect(nominal[2026]).toBe(Math.round(100000 * Math.exp(0.03)));
+  });
+});
+
+describe("the plan's as-of date", () => {
+  const asOfOctober: RetirementModel = { schemaVersion: CURRENT_SCHEMA_VERSION, asOfDate: "10/15/2026", inflationPercentage: 0.04 };
+
+  it("is the first projected month", () => {
+    expect(planStartMonth(asOfOctober)).toBe(october2026);
+  });
+
+  it("inflates prices only for the months left in the first year", () => {
+    const prices = priceIndexFor(asOfOctober, 2026);
+    expect(prices.levelFor(2026)).toBe(1);
+    expect(prices.levelFor(2027)).toBeCloseTo(Math.pow(1.04, 0.25), 10);
+    expect(prices.levelFor(2028)).toBeCloseTo(Math.pow(1.04, 1.25), 10);
+    expect(prices.basisLevel).toBe(1);
+  });
+
+  it("restates real amounts in the dollar basis year", () => {
+    expect(dollarBasisYearFor(asOfOctober, 2026)).toBe(2026);
+    const earlier = priceIndexFor({ ...asOfOctober, dollarBasisYear: 2025 }, 2026);
+    expect(earlier.basisLevel).toBeCloseTo(1 / Math.pow(1.04, 1.75), 10);
+    const later = priceIndexFor({ ...asOfOctober, dollarBasisYear: 2028 }, 2026);
+    expect(adjustForInflation(1000, 2028, later)).toBeCloseTo(1000, 10);
+    expect(adjustForInflation(1000, 2026, later)).toBeCloseTo(1000 * Math.pow(1.04, 1.25), 10);
+  });
+
+  it("compounds whole years when the plan starts in January", () => {
+    const prices = createPriceIndex(2026, year => year === 2026 ? 0.1 : 0.02);
+    expect(prices.levelFor(2028)).toBeCloseTo(1.1 * 1.02, 10);
+    expect(prices.levelFor(2020)).toBe(1);
+  });
+});
@@ -0,0 +1,836 @@
+// Shared month-by-month simulation core for the chart builders.
+// Every income source and account is stepped one calendar month at a time using the full
+// MM/DD/YYYY dates from the model; chart builders then roll the monthly ledgers up to yearly
+// (or monthly) chart points.
+
+import { isFilingStatus, taxTreatmentFrom, type TaxTreatment } from "./tax";
+import { claimingAdjustmentFactor, fullRetirementAge } from "./social-security";
+import { requiredMinimumDistribution } from "./rmd";
+import { createWithdrawalSchedule } from "./withdrawal-strategies";
+import { expenseGrowthFrom, expenseKindFrom } from "./expenses";
+import { annuityColaFrom } from "./annuities";
+import { eventDirectionFrom } from "./events";
+import { annualContributionLimit, contributionLimitTypeFrom, employerMatchRate, matchTiersFrom } from "./contributions";
+import {
+  DEFAULT_PART_B_MONTHLY,
+  DEFAULT_PART_D_MONTHLY,
+  HEALTHCARE_TABLE_YEAR,
+  IRMAA_LOOKBACK_YEARS,
+  irmaaSurchargeFor,
+  MEDICARE_AGE,
+  medicalInflationFrom,
+} from "./healthcare";
+import { amortizedPayment } from "./liabilities";
+import { allocateWithdrawals, withdrawalOrderFrom, withdrawalPlanModeFrom } from "./withdrawal-sequencing";
+import { isCouple, memberOf, ownerOf, survivorOf, type HouseholdMemberKey } from "./household";
+import type { InvestmentItem, RetirementModel } from "./retirement-model";
+
+/** Months since year 0: `year * 12 + (month - 1)`. */
+export type MonthIndex = number;
+
+/** Chart point spacing. Yearly points are keyed by year, monthly points by fractional year. */
+export type Granularity = 'year' | 'month';
+
+export interface DateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+/**
+ * A run of consecutive months from the plan's first month (in `beginYear`; January unless the plan
+ * starts mid-year) through December of `endYear`.
+ */
+export interface Timeline {
+  beginYear: number;
+  endYear: number;
+  months: MonthIndex[];
+}
+
+/** Date regex for very lightweight validation (MM/DD/YYYY). */
+const DATE_REGEX = /^(\d{2})\/(\d{2})\/(\d{4})$/;
+
+/** Parse a MM/DD/YYYY string or return undefined. */
+export function parseDate(dateStr: unknown): DateParts | undefined {
+  if (typeof dateStr !== 'string') return undefined;
+  const m = DATE_REGEX.exec(dateStr);
+  return m ? { year: Number(m[3]), month: Number(m[1]), day: Number(m[2]) } : undefined;
+}
+
+/** Extract year integer from a date string (MM/DD/YYYY) or return undefined. */
+export function extractYear(dateStr: unknown): number | undefined {
+  return parseDate(dateStr)?.year;
+}
+
+export const toMonthIndex = (year: number, month: number): MonthIndex => year * 12 + month - 1;
+export const yearOfMonth = (m: MonthIndex): number => Math.floor(m / 12);
+const isJanuary = (m: MonthIndex): boolean => m % 12 === 0;
+const daysInMonth = (m: MonthIndex): number => new Date(yearOfMonth(m), (m % 12) + 1, 0).getDate();
+
+/** Chart key for a month: fractional year so monthly points sit between the yearly ticks. */
+export const monthKey = (m: MonthIndex): number => yearOfMonth(m) + (m % 12) / 12;
+
+export function createTimeline(firstMonth: MonthIndex, endYear: number): Timeline {
+  const beginYear = yearOfMonth(firstMonth);
+  const last = Math.max(endYear, beginYear);
+  return {
+    beginYear,
+    endYear: last,
+    months: Array.from({ length: toMonthIndex(last + 1, 1) - firstMonth }, (_, i) => firstMonth + i),
+  };
+}
+
+/** Indexes [start, end) of `year`'s months in `timeline.months`; fewer than 12 in a partial first year. */
+export function monthRangeOf(timeline: Timeline, year: number): { start: number; end: number } {
+  const first = timeline.months[0] ?? toMonthIndex(timeline.beginYear, 1);
+  return { start: Math.max(0, toMonthIndex(year, 1) - first), end: Math.max(0, toMonthIndex(year + 1, 1) - first) };
+}
+
+/**
+ * Fraction (0..1) of month `m` covered by the inclusive date range [start, end].
+ * Either bound may be omitted. Partial months are pro-rated by day.
+ */
+export function activeFraction(m: MonthIndex, start?: DateParts, end?: DateParts): number {
+  const days = daysInMonth(m);
+  let firstDay = 1;
+  let lastDay = days;
+  if (start) {
+    const startMonth = toMonthIndex(start.year, start.month);
+    if (m < startMonth) return 0;
+    if (m === startMonth) firstDay = Math.min(start.day, days);
+  }
+  if (end) {
+    const endMonth = toMonthIndex(end.year, end.month);
+    if (m > endMonth) return 0;
+    if (m === endMonth) lastDay = Math.min(end.day, days);
+  }
+  return lastDay >= firstDay ? (lastDay - firstDay + 1) / days : 0;
+}
+
+/** Monthly growth for a continuously compounded annual rate (12 months compound to e^r - 1). */
+export const monthlyGrowth = (annualRate: number): number => Math.exp(annualRate / 12) - 1;
+
+/** Cumulative prices by year, so nominal dollars can be restated in dollar-basis-year dollars. */
+export interface PriceIndex {
+  /** Inflation during `year`. */
+  rateFor: (year: number) => number;
+  /** Price level at the start of `year` relative to the first projected month (1 in `beginYear` and earlier). */
+  levelFor: (year: number) => number;
+  /** Price level of the dollar basis year relative to the first projected month (below 1 for earlier years). */
+  basisLevel: number;
+}
+
+/**
+ * Price index that compounds a per-year inflation rate in whole-year steps.
+ * `basisYear` (default `beginYear`) is the year real amounts are restated in. `firstYearShare` is the
+ * part of `beginYear` the projection covers (a plan as of October inflates three months into the next year).
+ */
+export function createPriceIndex(
+  beginYear: number,
+  rateFor: (year: number) => number,
+  basisYear: number = beginYear,
+  firstYearShare: number = 1,
+): PriceIndex {
+  const levels: number[] = [1];
+  const stepFor = (year: number): number => Math.pow(1 + rateFor(year), year === beginYear ? firstYearShare : 1);
+  const levelFor = (year: number): number => {
+    const steps = year - beginYear;
+    if (steps <= 0) return 1;
+    for (let i = levels.length; i <= steps; i++) levels.push(levels[i - 1] * stepFor(beginYear + i - 1));
+    return levels[steps];
+  };
+  let basisLevel = levelFor(basisYear);
+  // An earlier basis year is restated from the start of `beginYear`, before the months already behind the plan.
+  if (basisYear < beginYear) basisLevel /= Math.pow(1 + rateFor(beginYear), 1 - firstYearShare);
+  for (let year = basisYear; year < beginYear; year++) basisLevel /= 1 + rateFor(year);
+  return { rateFor, levelFor, basisLevel };
+}
+
+/**
+ * Price index for a per-year inflation schedule, or the model's constant inflation assumption,
+ * restating real amounts in the plan's dollar basis year. Inflation starts at the plan's first month.
+ */
+export function priceIndexFor(model: RetirementModel, beginYear: number, inflationRateFor?: (year: number) => number): PriceIndex {
+  const constantRate: number = Number(model.inflationPercentage) || 0;
+  const firstMonth = planStartMonth(model);
+  const firstYearShare = yearOfMonth(firstMonth) === beginYear ? (12 - firstMonth % 12) / 12 : 1;
+  return createPriceIndex(beginYear, inflationRateFor ?? (() => constantRate), dollarBasisYearFor(model, beginYear), firstYearShare);
+}
+
+/** Inflation adjust a nominal value to dollar basis year purchasing power (whole-year steps). */
+export function adjustForInflation(value: number, year: number, prices: PriceIndex): number {
+  return value / prices.levelFor(year) * prices.basisLevel;
+}
+
+/** Month of the plan's as-of date, or the current month. */
+export function planStartMonth(model: RetirementModel): MonthIndex {
+  const asOf = parseDate(model.asOfDate);
+  const now = new Date();
+  return asOf ? toMonthIndex(asOf.year, asOf.month) : toMonthIndex(now.getFullYear(), now.getMonth() + 1);
+}
+
+/** First year of every projection: the year of the plan's as-of date, or the current year. */
+export const planStartYear = (model: RetirementModel): number => yearOfMonth(planStartMonth(model));
+
+/** Year real amounts are stated in: the plan's dollar basis year, or the first projected year. */
+export function dollarBasisYearFor(model: RetirementModel, beginYear: number): number {
+  const basisYear = Number(model.dollarBasisYear);
+  return model.dollarBasisYear !== undefined && model.dollarBasisYear !== '' && Number.isInteger(basisYear) ? basisYear : beginYear;
+}
+
+/**
+ * Roll monthly values up to rounded chart points.
+ * - 'average': yearly point = sum of the year's months / the months the timeline has in that year
+ *   (monthly equivalent of the annual total), so a stream active for only part of a year shows
+ *   proportionally less; a plan that starts mid-year averages its first year over the months left.
+ * - 'end': yearly point = the year's last value (balances).
+ * Null months are skipped; a year with no values is null. Monthly granularity keeps every month.
+ */
+export function rollUp(
+  timeline: Timeline,
+  monthly: (number | null)[],
+  granularity: Granularity,
+  mode: 'average' | 'end'
+): Record<number, number | null> {
+  const out: Record<number, number | null> = {};
+  if (granularity === 'month') {
+    timeline.months.forEach((m, i) => {
+      const v = monthly[i];
+      out[monthKey(m)] = typeof v === 'number' ? Math.round(v) : null;
+    });
+    return out;
+  }
+  for (let y = timeline.beginYear; y <= timeline.endYear; y++) {
+    const { start, end } = monthRangeOf(timeline, y);
+    const values = monthly.slice(start, end).filter((v): v is number => typeof v === 'number');
+    out[y] = !values.length ? null
+      : Math.round(mode === 'end' ? values[values.length - 1] : values.reduce((a, b) => a + b, 0) / (end - start));
+  }
+  return out;
+}
+
+/**
+ * Last month a member of a couple is expected to be alive (birth month + life expectancy).
+ * Undefined outside couple mode or while the member's birth date or life expectancy is missing.
+ */
+export function lastMonthAliveFor(model: RetirementModel, member: HouseholdMemberKey): MonthIndex | undefined {
+  if (!isCouple(model)) return undefined;
+  const { birthDate, lifeExpectancy } = memberOf(model, member);
+  const birth = parseDate(birthDate);
+  const years: number = Number(lifeExpectancy) || 0;
+  return birth && years > 0 ? toMonthIndex(birth.year, birth.month) + Math.round(years * 12) : undefined;
+}
+
+/** Couples with both life expectancies: the year the second member is expected to die. */
+export function householdEndYear(model: RetirementModel): number | undefined {
+  const primary = lastMonthAliveFor(model, "Primary");
+  const partner = lastMonthAliveFor(model, "Partner");
+  return primary !== undefined && partner !== undefined ? yearOfMonth(Math.max(primary, partner)) : undefined;
+}
+
+/**
+ * Horizon for retirement-phase sources: a fixed horizon, the last expected death of a couple,
+ * retirement + years planned, or +10 years.
+ */
+export function planEndYear(model: RetirementModel, beginYear: number): number {
+  const retireYear = extractYear(model.retireDate);
+  const yearsAfterRetire: number = Number(model.yearsAfterRetire) || 0;
+  const planningHorizonYears = Number(model.planningHorizonYears) || undefined;
+  if (planningHorizonYears && planningHorizonYears > 0) return beginYear + planningHorizonYears - 1;
+  const householdEnd = householdEndYear(model);
+  if (householdEnd !== undefined) return Math.max(householdEnd, beginYear);
+  return retireYear ? retireYear + yearsAfterRetire : beginYear + 10;
+}
+
+/**
+ * Last day a wage is paid: its stop-work date (couples: the owner's retirement date when blank),
+ * cut short by the owner's expected death.
+ */
+export function wageStopDateFor(model: RetirementModel, wageName: string): DateParts | undefined {
+  const wageData = model.wages?.items?.[wageName] ?? {};
+  const owner = ownerOf(model, wageData);
+  const stopWork = parseDate(wageData.stopWorkDate) ?? (isCouple(model) ? parseDate(memberOf(model, owner).retireDate) : undefined);
+  const lastAlive = lastMonthAliveFor(model, owner);
+  if (lastAlive === undefined || (stopWork && toMonthIndex(stopWork.year, stopWork.month) <= lastAlive)) return stopWork;
+  return { year: yearOfMonth(lastAlive), month: lastAlive % 12 + 1, day: 31 };
+}
+
+/** Monthly gross wage: annual salary / 12 with yearly raises, pro-rated through the stop-work date. */
+export function projectWageMonths(wageName: string, model: RetirementModel, timeline: Timeline): (number | null)[] {
+  const wageData = model.wages?.items?.[wageName] ?? {};
+  const annual: number = Number(wageData.annual) || 0;
+  const raise: number = Number(wageData.raise) || 0;
+  const stopWork = wageStopDateFor(model, wageName);
+  return timeline.months.map(m => {
+    const fraction = activeFraction(m, undefined, stopWork);
+    if (!fraction) return null;
+    return annual * Math.pow(1 + raise, yearOfMonth(m) - timeline.beginYear) / 12 * fraction;
+  });
+}
+
+/**
+ * Monthly annuity payment from the start date (first month pro-rated) until the end date or the
+ * end of the term-certain period, whichever comes first. Payments rise every year after they start
+ * by a fixed COLA or with prices, and step down to the survivor share after the annuitant's
+ * expected death (stopping for single-life annuities). In a couple the owner's life expectancy
+ * stands in for a blank survivor date.
+ */
+export function projectAnnuityMonths(
+  annuityName: string,
+  model: RetirementModel,
+  timeline: Timeline,
+  prices: PriceIndex = priceIndexFor(model, timeline.beginYear)
+): (number | null)[] {
+  const annuity = model.annuities?.items?.[annuityName] ?? {};
+  const monthly: number = Number(annuity.monthly) || 0;
+  const start = parseDate(annuity.startDate);
+  if (!start) return timeline.months.map(() => null);
+  const end = parseDate(annuity.endDate);
+  const termYears: number = Number(annuity.termYears) || 0;
+  const termEnd: MonthIndex | undefined = termYears > 0 ? toMonthIndex(start.year, start.month) + Math.round(termYears * 12) : undefined;
+  const survivor = parseDate(annuity.survivorDate);
+  const ownerLastMonth = lastMonthAliveFor(model, ownerOf(model, annuity));
+  const survivorFrom: MonthIndex | undefined = survivor
+    ? toMonthIndex(survivor.year, survivor.month) + 1
+    : ownerLastMonth !== undefined ? ownerLastMonth + 1 : undefined;
+  const survivorShare: number = Number(annuity.survivorPercentage) || 0;
+  // `monthly` is the payment when it starts, or today's payment for annuities already paying.
+  const baseYear = Math.max(start.year, timeline.beginYear);
+  const cola = annuityColaFrom(annuity.colaType);
+  const colaRate: number = Number(annuity.colaRate) || 0;
+  const colaFactor = (year: number): number => {
+    if (year <= baseYear || cola === "None") return 1;
+    return cola === "Fixed" ? Math.pow(1 + colaRate, year - baseYear) : prices.levelFor(year) / prices.levelFor(baseYear);
+  };
+  return timeline.months.map(m => {
+    if (termEnd !== undefined && m >= termEnd) return null;
+    const share = survivorFrom !== undefined && m >= survivorFrom ? survivorShare : 1;
+    const fraction = activeFraction(m, start, end) * share;
+    return fraction ? monthly * colaFactor(yearOfMonth(m)) * fraction : null;
+  });
+}
+
+/**
+ * Monthly Social Security benefit: primary insurance amount (today's dollars) x claiming-age
+ * adjustment, grown by the annual COLA, paid from the month the claiming age is reached
+ * (defaults to full retirement age). In a couple the benefit stops after the owner's expected death;
+ * the survivor keeps their own benefit (survivor benefits are not modelled).
+ */
+export function projectSocialSecurityMonths(benefitName: string, model: RetirementModel, timeline: Timeline): (number | null)[] {
+  const benefit = model.socialSecurity?.items?.[benefitName] ?? {};
+  const pia: number = Number(benefit.pia) || 0;
+  const cola: number = Number(benefit.cola) || 0;
+  const birth = parseDate(benefit.birthDate);
+  if (!birth) return timeline.months.map(() => null);
+  const claimingAge: number = Number(benefit.claimingAge) || fullRetirementAge(birth.year);
+  const claimMonth = toMonthIndex(birth.year, birth.month) + Math.round(claimingAge * 12);
+  const adjustedMonthly = pia * claimingAdjustmentFactor(birth.year, claimingAge);
+  const lastMonth = lastMonthAliveFor(model, ownerOf(model, benefit));
+  return timeline.months.map(m => m >= claimMonth && (lastMonth === undefined || m <= lastMonth)
+    ? adjustedMonthly * Math.pow(1 + cola, yearOfMonth(m) - timeline.beginYear)
+    : null);
+}
+
+/**
+ * Monthly spending for an expense item. Amounts are in today's dollars and grow each year with
+ * prices (or by the item's custom rate). Recurring items are pro-rated over [startDate, endDate];
+ * one-time items fall entirely in the month of their date.
+ */
+export function projectExpenseMonths(
+  expenseName: string,
+  model: RetirementModel,
+  timeline: Timeline,
+  prices: PriceIndex = priceIndexFor(model, timeline.beginYear)
+): (number | null)[] {
+  const expense = model.expenses?.items?.[expenseName] ?? {};
+  const amount: number = Number(expense.amount) || 0;
+  const customGrowth: number | undefined = expenseGrowthFrom(expense.growth) === "Custom Rate"
+    ? Number(expense.growthRate) || 0
+    : undefined;
+  const start = parseDate(expense.startDate);
+  const grown = (m: MonthIndex): number => amount * (customGrowth === undefined
+    ? prices.levelFor(yearOfMonth(m))
+    : Math.pow(1 + customGrowth, yearOfMonth(m) - timeline.beginYear));
+  if (expenseKindFrom(expense.kind) === "One-Time") {
+    const paidIn = start ? toMonthIndex(start.year, start.month) : undefined;
+    return timeline.months.map(m => m === paidIn ? grown(m) : null);
+  }
+  const end = parseDate(expense.endDate);
+  return timeline.months.map(m => {
+    const fraction = activeFraction(m, start, end);
+    return fraction ? grown(m) * fraction : null;
+  });
+}
+
+/**
+ * Signed one-time event amounts for an investment by month: inflows positive, outflows negative.
+ * Amounts are in today's dollars and grow with prices to the event's year.
+ */
+export function projectEventFlows(
+  investmentName: string,
+  model: RetirementModel,
+  timeline: Timeline,
+  prices: PriceIndex = priceIndexFor(model, timeline.beginYear)
+): number[] {
+  const flows = timeline.months.map(() => 0);
+  const first = timeline.months[0];
+  Object.values(model.events?.items ?? {}).forEach(event => {
+    const date = parseDate(event.date);
+    if (event.investment !== investmentName || !date) return;
+    const i = toMonthIndex(date.year, date.month) - first;
+    if (i < 0 || i >= flows.length) return;
+    const amount = (Number(event.amount) || 0) * prices.levelFor(date.year);
+    flows[i] += eventDirectionFrom(event.direction) === "Outflow" ? -amount : amount;
+  });
+  return flows;
+}
+
+export interface HealthcareLedger {
+  /** Coverage premiums from retirement until Medicare, each month, for the whole household. */
+  preMedicare: number[];
+  /** Part B + Part D premiums including IRMAA. */
+  medicare: number[];
+  /** The IRMAA share of `medicare`. */
+  irmaa: number[];
+  outOfPocket: number[];
+}
+
+/**
+ * Monthly healthcare costs for each living member of the household (see healthcare.ts): coverage
+ * premiums from the member's retirement date until the month they turn 65, Medicare premiums from
+ * then on, and out-of-pocket costs from retirement. IRMAA uses `magiFor` (the year's taxable
+ * income) from IRMAA_LOOKBACK_YEARS earlier, or the first plan year's for the first years.
+ */
+export function projectHealthcareMonths(
+  model: RetirementModel,
+  timeline: Timeline,
+  magiFor: (year: number) => number
+): HealthcareLedger {
+  const ledger: HealthcareLedger = {
+    preMedicare: timeline.months.map(() => 0),
+    medicare: timeline.months.map(() => 0),
+    irmaa: timeline.months.map(() => 0),
+    outOfPocket: timeline.months.map(() => 0),
+  };
+  const settings = model.healthcare;
+  if (!settings) return ledger;
+  // Entered amounts are in as-of-year dollars; the default premiums and IRMAA surcharges are HEALTHCARE_TABLE_YEAR figures.
+  const asOfYear = planStartYear(model);
+  const grownFrom = (monthly: number, rate: unknown, fromYear: number, year: number): number =>
+    monthly * Math.pow(1 + medicalInflationFrom(rate), year - fromYear);
+  const grown = (monthly: unknown, rate: unknown, year: number): number =>
+    grownFrom(Number(monthly) || 0, rate, asOfYear, year);
+  const premiumFrom = (entered: unknown, tableMonthly: number): { monthly: number; fromYear: number } =>
+    entered === undefined || entered === '' ? { monthly: tableMonthly, fromYear: HEALTHCARE_TABLE_YEAR } : { monthly: Number(entered) || 0, fromYear: asOfYear };
+  const partBBase = premiumFrom(settings.partBMonthly, DEFAULT_PART_B_MONTHLY);
+  const partDBase = premiumFrom(settings.partDMonthly, DEFAULT_PART_D_MONTHLY);
+  const filingStatus = isFilingStatus(model.filingStatus) ? model.filingStatus : undefined;
+  const indexRate: number = Number(model.inflationPercentage) || 0;
+  const members: HouseholdMemberKey[] = isCouple(model) ? ["Primary", "Partner"] : ["Primary"];
+
+  members.forEach(key => {
+    const member = memberOf(model, key);
+    const birth = parseDate(member.birthDate);
+    const retire = parseDate(member.retireDate);
+    const medicareFrom: MonthIndex | undefined = birth ? toMonthIndex(birth.year, birth.month) + MEDICARE_AGE * 12 : undefined;
+    const retiredFrom: MonthIndex | undefined = retire ? toMonthIndex(retire.year, retire.month) : undefined;
+    const lastMonth = lastMonthAliveFor(model, key);
+    timeline.months.forEach((m, i) => {
+      if (lastMonth !== undefined && m > lastMonth) return;
+      const year = yearOfMonth(m);
+      const retired = retiredFrom !== undefined && m >= retiredFrom;
+      if (retired) ledger.outOfPocket[i] += grown(settings.outOfPocketMonthly, settings.outOfPocketInflation, year);
+      if (medicareFrom === undefined || m < medicareFrom) {
+        if (retired) ledger.preMedicare[i] += grown(settings.preMedicareMonthly, settings.preMedicareInflation, year);
+        return;
+      }
+      const surcharge = irmaaSurchargeFor(magiFor(Math.max(timeline.beginYear, year - IRMAA_LOOKBACK_YEARS)), year, filingStatus, indexRate);
+      const partB = grownFrom(partBBase.monthly, settings.medicareInflation, partBBase.fromYear, year);
+      const partD = grownFrom(partDBase.monthly, settings.medicareInflation, partDBase.fromYear, year);
+      const irmaa = partB * surcharge.partBFactor
+        + grownFrom(surcharge.partD, settings.medicareInflation, HEALTHCARE_TABLE_YEAR, year);
+      ledger.medicare[i] += partB + partD + irmaa;
+      ledger.irmaa[i] += irmaa;
+    });
+  });
+  return ledger;
+}
+
+export interface ContributionSchedule {
+  /** Employee contribution each month (linked wage x contribution rate, within the IRS limit). */
+  employee: number[];
+  /** Employer match each month, on the deferral actually made. */
+  employerMatch: number[];
+  /** Years the IRS limit cut the employee contributions short. */
+  limitedYears: number[];
+}
+
+/**
+ * Monthly payroll contributions for every investment linked to a wage.
+ * Each owner's yearly IRS limit is shared by their accounts of the same limit type, filled in
+ * account-name order month by month; once it is reached, deferrals (and so the match) stop for
+ * the rest of the year. Limits grow by `contributionLimitIndex` (default: inflation).
+ */
+export function projectContributionMonths(model: RetirementModel, timeline: Timeline): Record<string, ContributionSchedule> {
+  const indexRate: number = model.contributionLimitIndex === undefined || model.contributionLimitIndex === ''
+    ? Number(model.inflationPercentage) || 0
+    : Number(model.contributionLimitIndex) || 0;
+  const wageMonths: Record<string, (number | null)[]> = {};
+  const schedules: Record<string, ContributionSchedule> = {};
+  const accounts = Object.entries(model.investments?.items ?? {}).sort(([a], [b]) => a.localeCompare(b)).flatMap(([name, investment]) => {
+    const wageName = investment.contributionsFrom;
+    const rate: number = Number(investment.contributionRate) || 0;
+    if (!wageName || !model.wages?.items?.[wageName] || rate <= 0) return [];
+    wageMonths[wageName] ??= projectWageMonths(wageName, model, timeline);
+    schedules[name] = { employee: [], employerMatch: [], limitedYears: [] };
+    const owner = ownerOf(model, investment);
+    const limitType = contributionLimitTypeFrom(investment.contributionLimit);
+    return [{ name, wage: wageMonths[wageName], rate, tiers: matchTiersFrom(investment), limitType, limitKey: `${owner}/${limitType}`, birthYear: extractYear(memberOf(model, owner).birthDate) }];
+  });
+
+  // Contributions so far this year per owner and limit type.
+  let used: Record<string, number> = {};
+  timeline.months.forEach((m, i) => {
+    const year = yearOfMonth(m);
+    if (i === 0 || isJanuary(m)) used = {};
+    accounts.forEach(account => {
+      const pay = account.wage[i] || 0;
+      const limit = annualContributionLimit(account.limitType, year, account.birthYear !== undefined ? year - account.birthYear : undefined, indexRate);
+      const room = limit === undefined ? Infinity : Math.max(0, limit - (used[account.limitKey] ?? 0));
+      const employee = Math.min(pay * account.rate, room);
+      const schedule = schedules[account.name];
+      if (employee < pay * account.rate && schedule.limitedYears[schedule.limitedYears.length - 1] !== year) schedule.limitedYears.push(year);
+      used[account.limitKey] = (used[account.limitKey] ?? 0) + employee;
+      schedule.employee.push(employee);
+      schedule.employerMatch.push(pay > 0 ? pay * employerMatchRate(employee / pay, account.tiers) : 0);
+    });
+  });
+  return schedules;
+}
+
+export interface LiabilityLedger {
+  /** Amount owed at the end of each month (0 before the start date and once repaid). */
+  balance: number[];
+  /** Payment each month (scheduled + extra, or the payoff); null while nothing is paid. */
+  payment: (number | null)[];
+  /** Interest charged each month. */
+  interest: number[];
+  /** Month the balance reached zero, if it does within the timeline. */
+  payoffMonth?: MonthIndex;
+}
+
+/**
+ * Amortize a liability month by month: the level payment over the term from the start date plus
+ * any extra principal, and the whole remaining balance on the payoff date. A start date in the
+ * past replays the payments made since; without one the loan is repaid from now.
+ */
+export function projectLiabilityMonths(liabilityName: string, model: RetirementModel, timeline: Timeline): LiabilityLedger {
+  const liability = model.liabilities?.items?.[liabilityName] ?? {};
+  const principal: number = Number(liability.balance) || 0;
+  const rate: number = Number(liability.rate) || 0;
+  const extraMonthly: number = Math.max(0, Number(liability.extraMonthly) || 0);
+  const first = timeline.months[0];
+  const last = timeline.months[timeline.months.length - 1];
+  const start = parseDate(liability.startDate);
+  const startMonth: MonthIndex = start ? toMonthIndex(start.year, start.month) : first;
+  const payoff = parseDate(liability.payoffDate);
+  const payoffDateMonth: MonthIndex | undefined = payoff ? toMonthIndex(payoff.year, payoff.month) : undefined;
+  const scheduled = amortizedPayment(principal, rate, Math.round((Number(liability.termYears) || 0) * 12));
+
+  const ledger: LiabilityLedger = { balance: [], payment: [], interest: [] };
+  let balance = 0;
+  for (let m = Math.min(startMonth, first); m <= last; m++) {
+    let interest = 0;
+    let payment: number | null = null;
+    if (m === startMonth) balance = principal;
+    if (m >= startMonth && balance > 0) {
+      interest = balance * rate / 12;
+      const owed = balance + interest;
+      payment = payoffDateMonth !== undefined && m >= payoffDateMonth ? owed : Math.min(owed, scheduled + extraMonthly);
+      balance = owed - payment;
+      if (balance < 0.005) {
+        balance = 0;
+        ledger.payoffMonth = m;
+      }
+    }
+    if (m < first) continue;
+    ledger.balance.push(balance);
+    ledger.payment.push(payment);
+    ledger.interest.push(interest);
+  }
+  return ledger;
+}
+
+export interface InvestmentLedger {
+  taxTreatment: TaxTreatment;
+  /** Wage the contributions come from (if any). */
+  contributionsFrom?: string;
+  /** End-of-month balance. */
+  balance: number[];
+  /** Employee contribution added each month (from the linked wage). */
+  contribution: number[];
+  /** Employer match added each month. */
+  employerMatch: number[];
+  /** One-time events applied each month: inflows positive, outflows negative (capped at the balance). */
+  eventFlow: number[];
+  /** Part of each month's outflows the balance could not cover (positive); it is not paid. */
+  unfundedEventFlow: number[];
+  /** Taxable portion of each month's paid outflows, taxed as ordinary income like a withdrawal. */
+  taxableEventFlow: number[];
+  /** Gross withdrawal each month; null while the account is not distributing. */
+  withdrawal: (number | null)[];
+  /** Taxable portion of each month's withdrawal. */
+  taxableWithdrawal: number[];
+  /** Portion of each end-of-month balance that would be taxed as income if withdrawn. */
+  taxableBalance: number[];
+}
+
+/** A month of an account before its withdrawal is paid. */
+interface AccruedMonth {
+  /** Balance after contributions, growth and events. */
+  balance: number;
+  /** Withdrawal the account's own strategy plans this month (0 when the strategy is ignored). */
+  planned: number;
+  /** RMD installment due this month. */
+  required: number;
+  /** Whether the strategy's withdrawal period or RMDs have begun. */
+  distributing: boolean;
+}
+
+/**
+ * An investment account stepped one month at a time. Each month is `accrue`d, then its withdrawal
+ * is paid with `withdraw`, so household sequencing can see every account's balance before deciding
+ * how much each one pays.
+ */
+interface InvestmentAccount {
+  ledger: InvestmentLedger;
+  accrue: (i: number) => AccruedMonth;
+  /** Pay the accrued month's withdrawal (capped at the balance); `distributing` is false to record none. */
+  withdraw: (amount: number, distributing: boolean) => void;
+}
+
+/** Share of money taken out of an account that is taxable income; `gainShare` is the unrealized gain share of a Taxable account. */
+const taxableShareFor = (taxTreatment: TaxTreatment, gainShare: number): number =>
+  taxTreatment === 'Roth' ? 0 : taxTreatment === 'Taxable' ? gainShare : 1;
+
+function createInvestmentAccount(
+  investmentName: string,
+  model: RetirementModel,
+  timeline: Timeline,
+  returnRateFor: ((investmentName: string, year: number) => number) | undefined,
+  prices: PriceIndex,
+  contributions: ContributionSchedule | undefined,
+  useStrategy: boolean
+): InvestmentAccount {
+  const investment: InvestmentItem = model.investments?.items?.[investmentName] ?? {};
+  const initialBalance: number = Number(investment.balance) || 0;
+  const rate: number = Number(investment.rate) || 0;
+  const withdrawalStart = useStrategy ? parseDate(investment.withdrawalDate) : undefined;
+  const contributionsFrom: string | undefined = investment.contributionsFrom || undefined;
+  const taxTreatment = taxTreatmentFrom(investment.taxTreatment);
+  const owner = ownerOf(model, investment);
+  const ownerBirthYear = extractYear(memberOf(model, owner).birthDate);
+  const ownerLastMonth = lastMonthAliveFor(model, owner);
+  const rolloverYear = ownerLastMonth !== undefined ? yearOfMonth(ownerLastMonth) + 1 : undefined;
+  const survivorBirthYear = extractYear(memberOf(model, survivorOf(owner)).birthDate);
+  const schedule = createWithdrawalSchedule(investment, prices);
+  const lastPlanYear = planEndYear(model, timeline.beginYear);
+  const eventFlows = projectEventFlows(investmentName, model, timeline, prices);
+
+  let balance = initialBalance;
+  let costBasis = investment.costBasis === undefined || investment.costBasis === ''
+    ? initialBalance
+    : Number(investment.costBasis) || 0;
+  let plannedAnnual = 0;
+  let requiredAnnual = 0;
+  let growth = monthlyGrowth(rate);
+  // Prior-year return for strategies that react to performance: growth net of contributions and withdrawals.
+  let yearStartBalance = balance;
+  let yearNetFlows = 0;
+  let priorYearReturn: number | undefined;
+  // Inflows of the month being stepped, counted once its withdrawal is known.
+  let monthInflows = 0;
+
+  const ledger: InvestmentLedger = {
+    taxTreatment,
+    contributionsFrom,
+    balance: [],
+    contribution: [],
+    employerMatch: [],
+    eventFlow: [],
+    unfundedEventFlow: [],
+    taxableEventFlow: [],
+    withdrawal: [],
+    taxableWithdrawal: [],
+    taxableBalance: [],
+  };
+
+  const accrue = (i: number): AccruedMonth => {
+    const m = timeline.months[i];
+    const year = yearOfMonth(m);
+    if (i === 0 || isJanuary(m)) {
+      // A partial first year's return is not annual, so strategies see none until a whole year has passed.
+      if (i > 0) priorYearReturn = yearStartBalance > 0 && i >= 12 && isJanuary(timeline.months[i - 12])
+        ? (balance - yearNetFlows - yearStartBalance) / yearStartBalance
+        : undefined;
+      yearStartBalance = balance;
+      yearNetFlows = 0;
+      // Annual amounts are fixed from the start-of-year balance (= prior year-end balance). A plan that
+      // starts mid-year fixes its first year's amounts from the as-of balance and pays them for the months left.
+      plannedAnnual = schedule.isConfigured && withdrawalStart && year >= withdrawalStart.year
+        ? schedule.annualWithdrawalFor({ year, balance, priorYearReturn, yearsRemaining: Math.max(1, lastPlanYear - year + 1) })
+        : 0;
+      const rmdBirthYear = rolloverYear !== undefined && year >= rolloverYear ? survivorBirthYear : ownerBirthYear;
+      requiredAnnual = taxTreatment === 'Traditional' && rmdBirthYear !== undefined
+        ? requiredMinimumDistribution(balance, rmdBirthYear, year)
+        : 0;
+      if (returnRateFor) growth = monthlyGrowth(returnRateFor(investmentName, year));
+    }
+
+    const contribution = contributions?.employee[i] ?? 0;
+    const employerMatch = contributions?.employerMatch[i] ?? 0;
+    balance += contribution + employerMatch;
+    costBasis += contribution + employerMatch;
+    balance += balance * growth;
+
+    const eventFlow = Math.max(-Math.max(0, balance), eventFlows[i]);
+    const eventGainShare = balance > 0 ? Math.min(1, Math.max(0, 1 - costBasis / balance)) : 0;
+    if (eventFlow > 0) costBasis += eventFlow;
+    else if (eventFlow < 0) costBasis = Math.max(0, costBasis + eventFlow * (1 - eventGainShare));
+    balance += eventFlow;
+    monthInflows = contribution + employerMatch + eventFlow;
+
+    ledger.contribution.push(contribution);
+    ledger.employerMatch.push(employerMatch);
+    ledger.eventFlow.push(eventFlow);
+    ledger.unfundedEventFlow.push(eventFlow - eventFlows[i]);
+    ledger.taxableEventFlow.push(Math.max(0, -eventFlow) * taxableShareFor(taxTreatment, eventGainShare));
+
+    const plannedFraction = schedule.isConfigured && withdrawalStart ? activeFraction(m, withdrawalStart) : 0;
+    const required = requiredAnnual / 12;
+    return { balance, planned: plannedAnnual / 12 * plannedFraction, required, distributing: plannedFraction > 0 || required > 0 };
+  };
+
+  const withdraw = (amount: number, distributing: boolean): void => {
+    const withdrawal = Math.min(balance, Math.max(0, amount));
+    const gainShare = balance > 0 ? Math.min(1, Math.max(0, 1 - costBasis / balance)) : 0;
+    costBasis = Math.max(0, costBasis - withdrawal * (1 - gainShare));
+    balance -= withdrawal;
+    yearNetFlows += monthInflows - withdrawal;
+
+    ledger.balance.push(balance);
+    ledger.withdrawal.push(distributing ? withdrawal : null);
+    ledger.taxableWithdrawal.push(withdrawal * taxableShareFor(taxTreatment, gainShare));
+    ledger.taxableBalance.push(taxTreatment === 'Roth' ? 0
+      : taxTreatment === 'Taxable' ? Math.max(0, balance - costBasis)
+        : balance);
+  };
+
+  return { ledger, accrue, withdraw };
+}
+
+const isHouseholdIncomeTarget = (model: RetirementModel): boolean =>
+  withdrawalPlanModeFrom(model.withdrawalPlan?.mode) === "Household Income Target";
+
+/**
+ * Step an investment account month by month:
+ * - Contributions (linked wage x contribution rate, within the IRS limit, plus employer match; see
+ *   projectContributionMonths) and monthly-compounded growth.
+ * - Planned withdrawals come from the account's withdrawal strategy once a year (from the
+ *   start-of-year balance), paid monthly from the withdrawal date (first month pro-rated). With a
+ *   household income target the strategy is ignored and withdrawals are sequenced across every
+ *   account instead (see projectInvestmentLedgers).
+ * - Traditional accounts pay at least the year's RMD (prior year-end balance / IRS divisor) in
+ *   monthly installments once the owner reaches RMD age. In a couple the survivor rolls the account
+ *   over after the owner's expected death, and RMDs follow the survivor's age from the next year.
+ * - One-time events are applied in their month, after growth and before withdrawals. Inflows are
+ *   after-tax cash that adds to the balance and cost basis. Outflows are taxed like withdrawals (in
+ *   full from Traditional accounts, the gain share from Taxable ones) but are not counted as income;
+ *   any part the balance cannot cover is recorded as unfunded rather than paid.
+ * - Withdrawals never exceed the balance.
+ * - Taxable accounts track average cost basis so only the gain share of a withdrawal is taxable.
+ */
+export function projectInvestmentMonths(
+  investmentName: string,
+  model: RetirementModel,
+  timeline: Timeline,
+  returnRateFor?: (investmentName: string, year: number) => number,
+  prices: PriceIndex = priceIndexFor(model, timeline.beginYear)
+): InvestmentLedger {
+  if (isHouseholdIncomeTarget(model) && model.investments?.items?.[investmentName]) {
+    return projectInvestmentLedgers(model, timeline, returnRateFor, prices)[investmentName];
+  }
+  const contributions = projectContributionMonths(model, timeline)[investmentName];
+  const account = createInvestmentAccount(investmentName, model, timeline, returnRateFor, prices, contributions, true);
+  timeline.months.forEach((_, i) => {
+    const accrued = account.accrue(i);
+    account.withdraw(Math.max(accrued.planned, accrued.required), accrued.distributing);
+  });
+  return account.ledger;
+}
+
+/**
+ * Income the household receives each month before touching its investments: wages net of the
+ * employee contributions they fund, annuities and Social Security.
+ */
+function householdIncomeMonths(
+  model: RetirementModel,
+  timeline: Timeline,
+  prices: PriceIndex,
+  contributions: Record<string, ContributionSchedule>
+): number[] {
+  const income = timeline.months.map(() => 0);
+  const add = (values: (number | null)[], sign = 1) => values.forEach((v, i) => { income[i] += sign * (v ?? 0); });
+  Object.keys(model.wages?.items ?? {}).forEach(n => add(projectWageMonths(n, model, timeline)));
+  Object.values(contributions).forEach(c => add(c.employee, -1));
+  Object.keys(model.annuities?.items ?? {}).forEach(n => add(projectAnnuityMonths(n, model, timeline, prices)));
+  Object.keys(model.socialSecurity?.items ?? {}).forEach(n => add(projectSocialSecurityMonths(n, model, timeline)));
+  return income;
+}
+
+/**
+ * Ledgers for every investment account, keyed by name.
+ * Per Account mode steps each account with its own withdrawal strategy. With a household income
+ * target, from the primary member's retirement date (first month pro-rated) the household draws
+ * the target (real, before tax) less other income and RMDs from the accounts in the chosen order;
+ * accounts of the same tax treatment are drawn in name order. RMDs are always paid.
+ */
+export function projectInvestmentLedgers(
+  model: RetirementModel,
+  timeline: Timeline,
+  returnRateFor?: (investmentName: string, year: number) => number,
+  prices: PriceIndex = priceIndexFor(model, timeline.beginYear)
+): Record<string, InvestmentLedger> {
+  const names = Object.keys(model.investments?.items ?? {}).sort((a, b) => a.localeCompare(b));
+  const contributions = projectContributionMonths(model, timeline);
+  const household = isHouseholdIncomeTarget(model);
+  const accounts = names.map(n => createInvestmentAccount(n, model, timeline, returnRateFor, prices, contributions[n], !household));
+
+  if (!household) {
+    timeline.months.forEach((_, i) => accounts.forEach(account => {
+      const accrued = account.accrue(i);
+      account.withdraw(Math.max(accrued.planned, accrued.required), accrued.distributing);
+    }));
+  } else {
+    const plan = model.withdrawalPlan ?? {};
+    const targetMonthly: number = Number(plan.targetMonthly) || 0;
+    const order = withdrawalOrderFrom(plan.order);
+    const drawStart = parseDate(model.retireDate);
+    const otherIncome = householdIncomeMonths(model, timeline, prices, contributions);
+    timeline.months.forEach((m, i) => {
+      const accrued = accounts.map(account => account.accrue(i));
+      const fraction = drawStart ? activeFraction(m, drawStart) : 0;
+      const required = accrued.reduce((sum, a) => sum + a.required, 0);
+      const shortfall = targetMonthly * prices.levelFor(yearOfMonth(m)) * fraction - otherIncome[i] - required;
+      const draws = allocateWithdrawals(
+        shortfall,
+        accounts.map((account, k) => ({ taxTreatment: account.ledger.taxTreatment, available: accrued[k].balance - accrued[k].required })),
+        order
+      );
+      accounts.forEach((account, k) => account.withdraw(accrued[k].required + draws[k], fraction > 0 || accrued[k].required > 0));
+    });
+  }
+
+  return Object.fromEntries(names.map((n, k) => [n, accounts[k].ledger]));
+}
@@ -0,0 +1,48 @@
+// Web Worker entry: runs projections for projection-client.ts one at a time. There is one instance
+// per lane (see projectionLaneOf), so long simulations and the charts run side by side.
+// Requests wait in a queue keyed by channel, so when a caller sends a newer request before its
+// last one started, only the newest is run.
+
+import { runProjection, type ProjectionMessage, type ProjectionResponse } from "./projections";
+
+type RunMessage = Extract<ProjectionMessage, { type: 'run' }>;
+
+// The app's TypeScript lib is DOM, not WebWorker; only these two members of the worker scope are used.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ProjectionMessage>) => void) | null;
+  postMessage: (response: ProjectionResponse) => void;
+};
+
+const queue = new Map<string, RunMessage>();
+let draining = false;
+
+function drain(): void {
+  const next = queue.values().next();
+  if (next.done) {
+    draining = false;
+    return;
+  }
+  const request = next.value;
+  queue.delete(request.channel);
+  try {
+    scope.postMessage({ id: request.id, result: runProjection(request.kind, request.args) });
+  } catch (error) {
+    scope.postMessage({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+  }
+  // Yield between requests so messages that arrived meanwhile can replace or cancel queued ones.
+  setTimeout(drain, 0);
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'cancel') {
+    if (queue.get(message.channel)?.id === message.id) queue.delete(message.channel);
+    return;
+  }
+  queue.delete(message.channel);
+  queue.set(message.channel, message);
+  if (!draining) {
+    draining = true;
+    setTimeout(drain, 0);
+  }
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { buildWageMonthlyIncomeChart } from "./chart-builders";
+import { projectionLaneOf, runProjection } from "./projections";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+
+const model: RetirementModel = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2030",
+  retireDate: "01/01/2033",
+  yearsAfterRetire: 5,
+  taxPercentage: 0.2,
+  inflationPercentage: 0.03,
+  wages: { items: { Job: { annual: 80000, stopWorkDate: "12/31/2032" } } },
+  investments: { items: { IRA: { balance: 200000, rate: 0.05, withdrawalDate: "01/01/2033", withdrawalRate: 0.04 } } },
+  liabilities: { items: { Car: { balance: 20000, rate: 0.05, termYears: 4 } } },
+};
+
+describe("projectionLaneOf", () => {
+  it("gives each long simulation a worker of its own and shares one across the charts", () => {
+    expect(projectionLaneOf("monteCarlo")).toBe("monteCarlo");
+    expect(projectionLaneOf("goalSeek")).toBe("goalSeek");
+    expect(projectionLaneOf("wageChart")).toBe("charts");
+    expect(projectionLaneOf("summaryCharts")).toBe("charts");
+  });
+});
+
+describe("runProjection", () => {
+  it("runs the projection of the given kind", () => {
+    expect(runProjection("wageChart", ["Job", model])).toEqual(buildWageMonthlyIncomeChart("Job", model));
+  });
+
+  it("returns plain data that can cross the worker boundary", () => {
+    const summary = runProjection("summaryCharts", [model]);
+    expect(summary.netWorth).toBeDefined();
+    expect(structuredClone(summary)).toEqual(summary);
+    const scenarios = runProjection("scenarioComparison", [model, ["Base Plan"]]);
+    expect(structuredClone(scenarios)).toEqual(scenarios);
+  });
+});
@@ -0,0 +1,91 @@
+// Projections the UI runs off the main thread, and the message protocol between the page
+// (projection-client.ts) and the worker (projection-worker.ts).
+// Arguments and results cross the worker boundary by structured clone, so they must be plain data:
+// projection options may only carry `granularity` (no rate callbacks).
+
+import {
+  buildAnnuityLumpSumComparison,
+  buildAnnuityMonthlyIncomeChart,
+  buildContributionSummary,
+  buildExpenseMonthlySpendingChart,
+  buildHealthcareCostChart,
+  buildInvestmentBalanceAndWithdrawalChart,
+  buildLiabilityAmortizationChart,
+  buildNetWorthChart,
+  buildSocialSecurityMonthlyIncomeChart,
+  buildSpendingComparisonChart,
+  buildTotalInvestmentAggregates,
+  buildWageMonthlyIncomeChart,
+  type ProjectionOptions
+} from "./chart-builders";
+import { runMonteCarloSimulation } from "./monte-carlo";
+import { runHistoricalBacktest } from "./historical-backtest";
+import { runSensitivityAnalysis } from "./sensitivity";
+import { buildScenarioComparison } from "./scenarios";
+import { solveGoal } from "./goal-seek";
+import type { RetirementModel } from "./retirement-model";
+
+/** Every projection by kind. */
+export const PROJECTIONS = {
+  wageChart: buildWageMonthlyIncomeChart,
+  investmentChart: buildInvestmentBalanceAndWithdrawalChart,
+  annuityCharts: (annuityName: string, model: RetirementModel, options?: ProjectionOptions) => ({
+    income: buildAnnuityMonthlyIncomeChart(annuityName, model, options),
+    lumpSum: buildAnnuityLumpSumComparison(annuityName, model, options),
+  }),
+  socialSecurityChart: buildSocialSecurityMonthlyIncomeChart,
+  expenseChart: buildExpenseMonthlySpendingChart,
+  liabilityChart: buildLiabilityAmortizationChart,
+  healthcareChart: buildHealthcareCostChart,
+  /** Everything the Summary step charts from the deterministic projection. */
+  summaryCharts: (model: RetirementModel, options?: ProjectionOptions) => {
+    const aggregates = buildTotalInvestmentAggregates(model, options);
+    return {
+      aggregates,
+      spending: buildSpendingComparisonChart(model, options, aggregates),
+      netWorth: Object.keys(model.liabilities?.items ?? {}).length ? buildNetWorthChart(model, options, aggregates) : undefined,
+    };
+  },
+  contributionSummary: buildContributionSummary,
+  monteCarlo: runMonteCarloSimulation,
+  historicalBacktest: runHistoricalBacktest,
+  sensitivity: runSensitivityAnalysis,
+  scenarioComparison: buildScenarioComparison,
+  goalSeek: solveGoal,
+};
+
+export type ProjectionKind = keyof typeof PROJECTIONS;
+
+/** Simulations that can run for seconds; each gets a worker of its own so it never holds up the charts. */
+const DEDICATED_KINDS = ["monteCarlo", "historicalBacktest", "sensitivity", "goalSeek"] as const satisfies readonly ProjectionKind[];
+
+/** Which worker runs a kind: a dedicated kind's own, or the one shared by every chart. */
+export type ProjectionLane = typeof DEDICATED_KINDS[number] | "charts";
+
+export const projectionLaneOf = (kind: ProjectionKind): ProjectionLane =>
+  (DEDICATED_KINDS as readonly ProjectionKind[]).includes(kind) ? kind as ProjectionLane : "charts";
+
+export type ProjectionArgs<K extends ProjectionKind> = Parameters<typeof PROJECTIONS[K]>;
+
+export type ProjectionResult<K extends ProjectionKind> = ReturnType<typeof PROJECTIONS[K]>;
+
+/** One projection to run: its kind with matching arguments. */
+export type ProjectionCall = { [K in ProjectionKind]: { kind: K; args: ProjectionArgs<K> } }[ProjectionKind];
+
+/**
+ * Page -> worker. `channel` identifies the caller: a newer `run` on the same channel replaces one
+ * still queued, and `cancel` drops a queued request the caller no longer needs.
+ */
+export type ProjectionMessage =
+  | ({ type: 'run'; id: number; channel: string } & ProjectionCall)
+  | { type: 'cancel'; id: number; channel: string };
+
+/** Worker -> page, for each `run` that was not replaced or cancelled. */
+export type ProjectionResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+export function runProjection<K extends ProjectionKind>(kind: K, args: ProjectionArgs<K>): ProjectionResult<K> {
+  const project = PROJECTIONS[kind] as unknown as (...args: ProjectionArgs<K>) => ProjectionResult<K>;
+  return project(...args);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, migrateRetirementModel, validateRetirementModel } from "./retirement-model";
+
+describe("migrateRetirementModel", () => {
+  const v0Plan = {
+    retireDate: "01/01/2035",
+    taxPercentage: 22,
+    inflationPercentage: "3",
+    investments: {
+      IRA: { balance: 100000, rate: 7, withdrawalRate: 0.04 },
+      Notes: "keep an eye on fees",
+    },
+    wages: { items: { Salary: { annual: 90000, raise: 3 } } },
+  };
+
+  it("upgrades a plan saved before versioning to the current schema", () => {
+    const { model, changed } = migrateRetirementModel(v0Plan);
+    expect(changed).toBe(true);
+    expect(model.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(model.taxPercentage).toBeCloseTo(0.22, 10);
+    expect(model.inflationPercentage).toBeCloseTo(0.03, 10);
+    expect(model.wages?.items?.Salary.raise).toBeCloseTo(0.03, 10);
+    expect(model.investments?.items?.IRA).toEqual({ balance: 100000, rate: 0.07, withdrawalRate: 0.04, taxTreatment: "Traditional" });
+  });
+
+  it("reports what it could not carry forward", () => {
+    const { model, issues } = migrateRetirementModel(v0Plan);
+    expect(model.investments?.items?.Notes).toBeUndefined();
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^investments\.Notes: could not be moved/);
+    expect(issues[1]).toMatch(/^taxPercentage: the flat 22% tax rate/);
+  });
+
+  it("leaves the stored plan untouched", () => {
+    const stored = structuredClone(v0Plan);
+    migrateRetirementModel(stored);
+    expect(stored).toEqual(v0Plan);
+  });
+
+  it("loads a current plan without changes", () => {
+    const current = { schemaVersion: CURRENT_SCHEMA_VERSION, filingStatus: "Single", retireDate: "01/01/2035" };
+    expect(migrateRetirementModel(current)).toEqual({ model: current, issues: [], changed: false });
+  });
+
+  it("does not downgrade a plan from a newer version", () => {
+    const newer = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, somethingNew: true };
+    const { model, issues, changed } = migrateRetirementModel(newer);
+    expect(model).toBe(newer);
+    expect(issues).toHaveLength(1);
+    expect(changed).toBe(false);
+  });
+});
+
+describe("validateRetirementModel", () => {
+  it("removes invalid fields and reports each one", () => {
+    const { model, issues } = validateRetirementModel({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      yearsAfterRetire: "thirty",
+      filingStatus: "Married",
+      wages: { items: { Salary: { annual: 90000 }, Bonus: 5000 } },
+    });
+    expect(model).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, wages: { items: { Salary: { annual: 90000 } } } });
+    expect(issues).toHaveLength(3);
+  });
+
+  it("replaces a plan that is not an object", () => {
+    expect(validateRetirementModel("plan").model).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION });
+  });
+});
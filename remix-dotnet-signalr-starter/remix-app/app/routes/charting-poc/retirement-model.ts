@@ -0,0 +1,656 @@
+// Typed, versioned shape of the "retirement" plan kept in local storage.
+// Stored plans are upgraded on load by the migration pipeline below and then checked by the
+// runtime validator, so the builders can rely on the types instead of guessing at legacy shapes.
+
+import { FILING_STATUSES, TAX_TREATMENTS, type FilingStatus, type TaxTreatment } from "./tax";
+import { WITHDRAWAL_STRATEGIES, type WithdrawalStrategy } from "./withdrawal-strategies";
+import { DISPLAY_BASES, type DisplayBasis } from "./display-basis";
+import { WITHDRAWAL_ORDERS, WITHDRAWAL_PLAN_MODES, type WithdrawalOrder, type WithdrawalPlanMode } from "./withdrawal-sequencing";
+import { ANNUITY_COLA_OPTIONS, type AnnuityCola } from "./annuities";
+import { EVENT_DIRECTIONS, type EventDirection } from "./events";
+import { CONTRIBUTION_LIMIT_TYPES, type ContributionLimitType } from "./contributions";
+import { LIABILITY_KINDS, type LiabilityKind } from "./liabilities";
+import { EXPENSE_GROWTH_OPTIONS, EXPENSE_KINDS, type ExpenseGrowth, type ExpenseKind } from "./expenses";
+import { GOAL_SEEK_TARGETS, GOAL_SEEK_VARIABLES, type GoalSeekTarget, type GoalSeekVariable } from "./goal-seek";
+import { HOUSEHOLD_MEMBERS, HOUSEHOLD_MODES, type HouseholdMemberKey, type HouseholdMode } from "./household";
+import type { ModelPath } from "../../forms/Form";
+
+export const RETIREMENT_MODEL_STORAGE_KEY = "retirement";
+
+/** Bump together with a new entry in MIGRATIONS whenever the stored shape changes. */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/** MM/DD/YYYY */
+export type DateString = string;
+
+/** Numeric form value; a cleared input stores "". */
+export type NumberInput = number | "";
+
+/** Fraction (0.0925 for 9.25%); a cleared input stores "". */
+export type PercentInput = number | "";
+
+/** Select value; "Select..." stores "". */
+export type SelectInput<T extends string> = T | "";
+
+interface StepItem {
+  /** Set by the step's Form when it has no validation errors. */
+  isComplete?: boolean;
+}
+
+/** Items that belong to one member of a couple. */
+interface OwnedItem {
+  /** Defaults to Primary; ignored outside couple mode. */
+  owner?: SelectInput<HouseholdMemberKey>;
+}
+
+export interface WageItem extends StepItem, OwnedItem {
+  annual?: NumberInput;
+  raise?: PercentInput;
+  /** Couples: defaults to the owner's retirement date. */
+  stopWorkDate?: DateString;
+}
+
+export interface InvestmentItem extends StepItem, OwnedItem {
+  balance?: NumberInput;
+  taxTreatment?: SelectInput<TaxTreatment>;
+  /** Taxable accounts only; defaults to the initial balance. */
+  costBasis?: NumberInput;
+  rate?: PercentInput;
+  /** Monte Carlo standard deviation of the annual return. */
+  volatility?: PercentInput;
+  /** Historical backtest stock share (the rest is bonds); defaults to 60%. */
+  stockAllocation?: PercentInput;
+  withdrawalDate?: DateString;
+  /** Defaults to Fixed Percentage. */
+  withdrawalStrategy?: SelectInput<WithdrawalStrategy>;
+  /** Fixed Percentage rate, or the initial rate for the 4% rule and guardrails. */
+  withdrawalRate?: PercentInput;
+  /** Fixed Real Amount (today's dollars) and Fixed Dollar Target. */
+  withdrawalMonthly?: NumberInput;
+  /** Guyton-Klinger band around the initial rate. */
+  guardrailPercentage?: PercentInput;
+  /** Guyton-Klinger spending cut / raise when a guardrail is crossed. */
+  guardrailAdjustment?: PercentInput;
+  /** VPW expected real return. */
+  vpwReturn?: PercentInput;
+  /** Name of the wage the contributions are taken from. */
+  contributionsFrom?: string;
+  contributionRate?: PercentInput;
+  /** IRS limit the employee contributions count toward; defaults to Workplace Plan. */
+  contributionLimit?: SelectInput<ContributionLimitType>;
+  /** Employer match: `matchRate` of deferrals up to `matchUpTo` of pay... */
+  matchRate?: PercentInput;
+  matchUpTo?: PercentInput;
+  /** ...then `matchRate2` of deferrals from `matchUpTo` up to `matchUpTo2` of pay. */
+  matchRate2?: PercentInput;
+  matchUpTo2?: PercentInput;
+}
+
+export interface AnnuityItem extends StepItem, OwnedItem {
+  /** Payment at the start date (or today, for annuities already paying). */
+  monthly?: NumberInput;
+  startDate?: DateString;
+  /** Defaults to None (flat nominal payments). */
+  colaType?: SelectInput<AnnuityCola>;
+  /** Annual raise when `colaType` is Fixed. */
+  colaRate?: PercentInput;
+  /** Last payment date; blank for life (the rest of the plan). */
+  endDate?: DateString;
+  /** Term-certain period: payments stop this many years after the start date. */
+  termYears?: NumberInput;
+  /**
+   * Annuitant's expected date of death; payments then continue at `survivorPercentage`.
+   * Couples: defaults to the owner's life expectancy.
+   */
+  survivorDate?: DateString;
+  /** Share of the payment a survivor keeps; blank or 0 for a single-life annuity. */
+  survivorPercentage?: PercentInput;
+  /** Lump sum offered instead of the annuity, paid on the start date. */
+  lumpSum?: NumberInput;
+  /** Return assumed on the invested lump sum (continuously compounded, like investment rates). */
+  lumpSumRate?: PercentInput;
+}
+
+export interface SocialSecurityItem extends StepItem, OwnedItem {
+  birthDate?: DateString;
+  /** Primary insurance amount ($ / month at full retirement age, today's dollars). */
+  pia?: NumberInput;
+  claimingAge?: NumberInput;
+  cola?: PercentInput;
+}
+
+export interface ExpenseItem extends StepItem {
+  /** Defaults to Recurring. */
+  kind?: SelectInput<ExpenseKind>;
+  /** $ / month for recurring items, $ total for one-time items (today's dollars). */
+  amount?: NumberInput;
+  /** Recurring: first day of spending (defaults to now). One-time: the date it is paid. */
+  startDate?: DateString;
+  /** Recurring only; open-ended when blank. */
+  endDate?: DateString;
+  /** Defaults to Inflation. */
+  growth?: SelectInput<ExpenseGrowth>;
+  /** Annual growth when `growth` is Custom Rate. */
+  growthRate?: PercentInput;
+}
+
+export interface EventItem extends StepItem {
+  date?: DateString;
+  /** Today's dollars; grows with prices to the event date. */
+  amount?: NumberInput;
+  /** Defaults to Inflow. */
+  direction?: SelectInput<EventDirection>;
+  /** Investment the money goes into (inflow) or comes out of (outflow). */
+  investment?: string;
+}
+
+export interface LiabilityItem extends StepItem {
+  /** Defaults to Other. */
+  kind?: SelectInput<LiabilityKind>;
+  /** Amount borrowed on the start date, or owed now when there is no start date. */
+  balance?: NumberInput;
+  /** Annual interest rate (compounded monthly). */
+  rate?: PercentInput;
+  /** Years of payments from the start date. */
+  termYears?: NumberInput;
+  /** First payment; defaults to now. A past date replays the payments made since. */
+  startDate?: DateString;
+  /** Extra principal paid with every payment ($ / month). */
+  extraMonthly?: NumberInput;
+  /** Date the remaining balance is paid off in one payment. */
+  payoffDate?: DateString;
+}
+
+export interface ItemCollection<T> {
+  items?: Record<string, T>;
+}
+
+export interface SimulationSettings {
+  trials?: NumberInput;
+  seed?: NumberInput;
+}
+
+/** How far the Summary's sensitivity analysis moves each assumption. */
+export interface SensitivitySettings {
+  /** Percentage points for rate assumptions (default 1). */
+  rateStep?: PercentInput;
+  /** Years for the retirement date and years after retirement (default 1). */
+  yearStep?: NumberInput;
+}
+
+/**
+ * Healthcare costs per person ($ / month, today's dollars), each with its own yearly growth
+ * (default 5%). Plans without these settings have no healthcare costs.
+ */
+export interface HealthcareSettings {
+  /** Coverage premium from retirement until Medicare at 65. */
+  preMedicareMonthly?: NumberInput;
+  preMedicareInflation?: PercentInput;
+  /** Defaults to the standard Part B premium for HEALTHCARE_TABLE_YEAR, grown from that year. */
+  partBMonthly?: NumberInput;
+  /** Defaults to a typical Part D plan premium for HEALTHCARE_TABLE_YEAR, grown from that year. */
+  partDMonthly?: NumberInput;
+  medicareInflation?: PercentInput;
+  /** Deductibles, copays and uncovered care from retirement on. */
+  outOfPocketMonthly?: NumberInput;
+  outOfPocketInflation?: PercentInput;
+}
+
+/** How the household draws on its investments. */
+export interface WithdrawalPlanSettings {
+  /** Defaults to Per Account (each account's own withdrawal strategy). */
+  mode?: SelectInput<WithdrawalPlanMode>;
+  /** Household Income Target: real (today's dollars) $ / month before tax, from the retirement date. */
+  targetMonthly?: NumberInput;
+  /** Defaults to Taxable, Tax-Deferred, Roth. */
+  order?: SelectInput<WithdrawalOrder>;
+}
+
+/** The second member of a couple; the plan's own dates describe the first. */
+export interface HouseholdMember {
+  birthDate?: DateString;
+  retireDate?: DateString;
+  /** Age the member is expected to live to. */
+  lifeExpectancy?: NumberInput;
+}
+
+/** A named what-if copy of the plan, stored as the fields it changes. */
+export interface ScenarioItem {
+  /**
+   * Values by dot path (e.g. `retireDate`, `wages.items.Job.raise`) that replace the base plan's;
+   * null removes the field. Migrations that reshape plan fields must rewrite these paths too.
+   */
+  overrides?: Record<string, unknown>;
+}
+
+/** Inputs of the Summary's goal-seek solver. */
+export interface GoalSeekSettings {
+  variable?: SelectInput<GoalSeekVariable>;
+  target?: SelectInput<GoalSeekTarget>;
+  /** Real (today's dollars) after-tax $ / month for the income target. */
+  targetIncome?: NumberInput;
+  /** Investment whose rate is solved for; blank or "All Investments" changes every eligible one. */
+  investment?: string;
+}
+
+export interface RetirementModel {
+  schemaVersion: number;
+  /** Date the plan is projected from (its first year); blank is today. Fixes a plan as it was printed. */
+  asOfDate?: DateString;
+  /** Year whose dollars real amounts are shown in; defaults to the as-of year. */
+  dollarBasisYear?: NumberInput;
+  birthDate?: DateString;
+  retireDate?: DateString;
+  yearsAfterRetire?: NumberInput;
+  /** Defaults to Single. */
+  householdMode?: SelectInput<HouseholdMode>;
+  /** Couples: the primary member's life expectancy (age). */
+  lifeExpectancy?: NumberInput;
+  partner?: HouseholdMember;
+  /** Legacy fixed horizon (years from the as-of year); overrides retireDate + yearsAfterRetire. */
+  planningHorizonYears?: NumberInput;
+  filingStatus?: SelectInput<FilingStatus>;
+  stateOfResidence?: string;
+  /** Legacy flat tax rate, only used while no filing status is set. */
+  taxPercentage?: PercentInput;
+  inflationPercentage?: PercentInput;
+  /** Yearly growth of the IRS contribution limits; defaults to the inflation percentage. */
+  contributionLimitIndex?: PercentInput;
+  chartDetail?: string;
+  /** Defaults to Real. */
+  displayBasis?: SelectInput<DisplayBasis>;
+  projectionMode?: string;
+  healthcare?: HealthcareSettings;
+  withdrawalPlan?: WithdrawalPlanSettings;
+  simulation?: SimulationSettings;
+  goalSeek?: GoalSeekSettings;
+  sensitivity?: SensitivitySettings;
+  scenarios?: ItemCollection<ScenarioItem>;
+  /** Scenario the wizard is editing; blank for the base plan. */
+  activeScenario?: string;
+  wages?: ItemCollection<WageItem>;
+  investments?: ItemCollection<InvestmentItem>;
+  annuities?: ItemCollection<AnnuityItem>;
+  socialSecurity?: ItemCollection<SocialSecurityItem>;
+  expenses?: ItemCollection<ExpenseItem>;
+  events?: ItemCollection<EventItem>;
+  liabilities?: ItemCollection<LiabilityItem>;
+}
+
+/** Model keys that hold a named list of items, each with its own wizard step. */
+export type CollectionKey = "wages" | "investments" | "annuities" | "socialSecurity" | "expenses" | "events" | "liabilities";
+
+/** Dot path to any field of the model, e.g. `wages.items.${string}.annual`. */
+export type RetirementModelPath = ModelPath<RetirementModel>;
+
+/** Dot path to one named item of a collection (a dynamic step's record). */
+export type ItemPath = `${CollectionKey}.items.${string}`;
+
+export const emptyRetirementModel = (): RetirementModel => ({ schemaVersion: CURRENT_SCHEMA_VERSION });
+
+const isRecord = (val: unknown): val is Record<string, unknown> =>
+  typeof val === "object" && val !== null && !Array.isArray(val);
+
+// ---------------------------------------------------------------------------
+// Runtime validator
+// ---------------------------------------------------------------------------
+
+interface Rule {
+  expected: string;
+  test: (value: unknown) => boolean;
+}
+
+/** One rule per field, so adding a field to a type without a rule is a compile error. */
+type Rules<T> = { [K in keyof Required<T>]: Rule };
+
+const numberRule: Rule = { expected: "a number", test: v => v === "" || (typeof v === "number" && isFinite(v)) };
+const textRule: Rule = { expected: "text", test: v => typeof v === "string" };
+const flagRule: Rule = { expected: "true or false", test: v => typeof v === "boolean" };
+const oneOfRule = (options: readonly string[]): Rule => ({
+  expected: `one of ${options.join(", ")}`,
+  test: v => v === "" || (typeof v === "string" && options.includes(v)),
+});
+
+const PLAN_RULES: Rules<Omit<RetirementModel, "schemaVersion" | "scenarios" | GroupKey | CollectionKey>> = {
+  asOfDate: textRule,
+  dollarBasisYear: numberRule,
+  birthDate: textRule,
+  retireDate: textRule,
+  yearsAfterRetire: numberRule,
+  householdMode: oneOfRule(HOUSEHOLD_MODES),
+  lifeExpectancy: numberRule,
+  planningHorizonYears: numberRule,
+  filingStatus: oneOfRule(FILING_STATUSES),
+  stateOfResidence: textRule,
+  taxPercentage: numberRule,
+  inflationPercentage: numberRule,
+  contributionLimitIndex: numberRule,
+  chartDetail: textRule,
+  displayBasis: oneOfRule(DISPLAY_BASES),
+  projectionMode: textRule,
+  activeScenario: textRule,
+};
+
+/** Model keys that hold a nested group of fields: tool settings, the partner's details or household-wide inputs. */
+type GroupKey = "partner" | "healthcare" | "withdrawalPlan" | "simulation" | "goalSeek" | "sensitivity";
+
+const GROUP_RULES: { [K in GroupKey]: Rules<NonNullable<RetirementModel[K]>> } = {
+  partner: {
+    birthDate: textRule,
+    retireDate: textRule,
+    lifeExpectancy: numberRule,
+  },
+  healthcare: {
+    preMedicareMonthly: numberRule,
+    preMedicareInflation: numberRule,
+    partBMonthly: numberRule,
+    partDMonthly: numberRule,
+    medicareInflation: numberRule,
+    outOfPocketMonthly: numberRule,
+    outOfPocketInflation: numberRule,
+  },
+  withdrawalPlan: {
+    mode: oneOfRule(WITHDRAWAL_PLAN_MODES),
+    targetMonthly: numberRule,
+    order: oneOfRule(WITHDRAWAL_ORDERS),
+  },
+  simulation: {
+    trials: numberRule,
+    seed: numberRule,
+  },
+  goalSeek: {
+    variable: oneOfRule(GOAL_SEEK_VARIABLES),
+    target: oneOfRule(GOAL_SEEK_TARGETS),
+    targetIncome: numberRule,
+    investment: textRule,
+  },
+  sensitivity: {
+    rateStep: numberRule,
+    yearStep: numberRule,
+  },
+};
+
+const ITEM_RULES: { [K in CollectionKey]: Rules<NonNullable<NonNullable<RetirementModel[K]>["items"]>[string]> } = {
+  wages: {
+    isComplete: flagRule,
+    owner: oneOfRule(HOUSEHOLD_MEMBERS),
+    annual: numberRule,
+    raise: numberRule,
+    stopWorkDate: textRule,
+  },
+  investments: {
+    isComplete: flagRule,
+    owner: oneOfRule(HOUSEHOLD_MEMBERS),
+    balance: numberRule,
+    taxTreatment: oneOfRule(TAX_TREATMENTS),
+    costBasis: numberRule,
+    rate: numberRule,
+    volatility: numberRule,
+    stockAllocation: numberRule,
+    withdrawalDate: textRule,
+    withdrawalStrategy: oneOfRule(WITHDRAWAL_STRATEGIES),
+    withdrawalRate: numberRule,
+    withdrawalMonthly: numberRule,
+    guardrailPercentage: numberRule,
+    guardrailAdjustment: numberRule,
+    vpwReturn: numberRule,
+    contributionsFrom: textRule,
+    contributionRate: numberRule,
+    contributionLimit: oneOfRule(CONTRIBUTION_LIMIT_TYPES),
+    matchRate: numberRule,
+    matchUpTo: numberRule,
+    matchRate2: numberRule,
+    matchUpTo2: numberRule,
+  },
+  annuities: {
+    isComplete: flagRule,
+    owner: oneOfRule(HOUSEHOLD_MEMBERS),
+    monthly: numberRule,
+    startDate: textRule,
+    colaType: oneOfRule(ANNUITY_COLA_OPTIONS),
+    colaRate: numberRule,
+    endDate: textRule,
+    termYears: numberRule,
+    survivorDate: textRule,
+    survivorPercentage: numberRule,
+    lumpSum: numberRule,
+    lumpSumRate: numberRule,
+  },
+  socialSecurity: {
+    isComplete: flagRule,
+    owner: oneOfRule(HOUSEHOLD_MEMBERS),
+    birthDate: textRule,
+    pia: numberRule,
+    claimingAge: numberRule,
+    cola: numberRule,
+  },
+  expenses: {
+    isComplete: flagRule,
+    kind: oneOfRule(EXPENSE_KINDS),
+    amount: numberRule,
+    startDate: textRule,
+    endDate: textRule,
+    growth: oneOfRule(EXPENSE_GROWTH_OPTIONS),
+    growthRate: numberRule,
+  },
+  events: {
+    isComplete: flagRule,
+    date: textRule,
+    amount: numberRule,
+    direction: oneOfRule(EVENT_DIRECTIONS),
+    investment: textRule,
+  },
+  liabilities: {
+    isComplete: flagRule,
+    kind: oneOfRule(LIABILITY_KINDS),
+    balance: numberRule,
+    rate: numberRule,
+    termYears: numberRule,
+    startDate: textRule,
+    extraMonthly: numberRule,
+    payoffDate: textRule,
+  },
+};
+
+const describe = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+/** Remove (and report) every field of `target` that breaks its rule. Unknown keys are left alone. */
+function checkFields(target: Record<string, unknown>, rules: Record<string, Rule>, path: string, issues: string[]): void {
+  Object.keys(rules).forEach(key => {
+    const value = target[key];
+    if (value === undefined) return;
+    if (!rules[key].test(value)) {
+      issues.push(`${path}${key}: expected ${rules[key].expected} but found ${describe(value)}; the value was removed.`);
+      delete target[key];
+    }
+  });
+}
+
+/**
+ * Check a plan against the RetirementModel types.
+ * Returns a copy with every invalid field removed, plus one issue per removal.
+ */
+export function validateRetirementModel(value: unknown): { model: RetirementModel; issues: string[] } {
+  if (!isRecord(value)) {
+    return { model: emptyRetirementModel(), issues: ["The saved plan is not an object and was replaced with an empty plan."] };
+  }
+  const issues: string[] = [];
+  const plan = structuredClone(value);
+  if (typeof plan.schemaVersion !== "number") {
+    issues.push(`schemaVersion: expected a number but found ${describe(plan.schemaVersion)}; set to ${CURRENT_SCHEMA_VERSION}.`);
+    plan.schemaVersion = CURRENT_SCHEMA_VERSION;
+  }
+  checkFields(plan, PLAN_RULES, "", issues);
+
+  (Object.keys(GROUP_RULES) as GroupKey[]).forEach(key => {
+    const group = plan[key];
+    if (group === undefined) return;
+    if (isRecord(group)) checkFields(group, GROUP_RULES[key], `${key}.`, issues);
+    else {
+      issues.push(`${key}: expected an object but found ${describe(group)}; the value was removed.`);
+      delete plan[key];
+    }
+  });
+
+  if (plan.scenarios !== undefined) {
+    const items = isRecord(plan.scenarios) ? plan.scenarios.items : undefined;
+    if (!isRecord(plan.scenarios) || (items !== undefined && !isRecord(items))) {
+      issues.push(`scenarios: expected a list of named scenarios; the list was removed.`);
+      delete plan.scenarios;
+    } else if (items) {
+      Object.keys(items).forEach(name => {
+        const scenario = items[name];
+        if (isRecord(scenario) && (scenario.overrides === undefined || isRecord(scenario.overrides))) return;
+        issues.push(`scenarios.items.${name}: expected a scenario with a list of overrides; the scenario was removed.`);
+        delete items[name];
+      });
+    }
+  }
+
+  (Object.keys(ITEM_RULES) as CollectionKey[]).forEach(key => {
+    const collection = plan[key];
+    if (collection === undefined) return;
+    if (!isRecord(collection) || (collection.items !== undefined && !isRecord(collection.items))) {
+      issues.push(`${key}: expected a list of named items; the list was removed.`);
+      delete plan[key];
+      return;
+    }
+    const items = isRecord(collection.items) ? collection.items : {};
+    Object.entries(items).forEach(([name, item]) => {
+      if (!isRecord(item)) {
+        issues.push(`${key}.items.${name}: expected an object but found ${describe(item)}; the item was removed.`);
+        delete items[name];
+        return;
+      }
+      checkFields(item, ITEM_RULES[key], `${key}.items.${name}.`, issues);
+    });
+  });
+
+  // Every field left has passed its rule.
+  return { model: plan as unknown as RetirementModel, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+interface Migration {
+  /** Schema version the plan is at after this migration. */
+  version: number;
+  description: string;
+  /** Mutates the (cloned) plan; calls `report` for anything it could not carry forward. */
+  migrate: (plan: Record<string, unknown>, report: (issue: string) => void) => void;
+}
+
+/** Percent fields per collection, used by the whole-percent fix-up. */
+const PERCENT_FIELDS: { plan: string[]; items: Partial<Record<CollectionKey, string[]>> } = {
+  plan: ["taxPercentage", "inflationPercentage"],
+  items: {
+    wages: ["raise"],
+    investments: ["rate", "volatility", "withdrawalRate", "contributionRate"],
+    socialSecurity: ["cola"],
+    expenses: ["growthRate"],
+  },
+};
+
+/** 9.25 (or "9.25") => 0.0925. Values already between -1 and 1 are taken to be fractions. */
+function wholePercentToFraction(target: Record<string, unknown>, field: string): void {
+  const raw = target[field];
+  if (typeof raw !== "number" && (typeof raw !== "string" || raw.trim() === "")) return;
+  const n = Number(raw);
+  if (!isFinite(n)) return; // left for the validator to report
+  target[field] = n > 1 || n < -1 ? n / 100 : n;
+}
+
+/** The `items` record of a plan's collection, if the plan has one. */
+function itemsOf(plan: Record<string, unknown>, key: CollectionKey): Record<string, unknown> | undefined {
+  const collection = plan[key];
+  return isRecord(collection) && isRecord(collection.items) ? collection.items : undefined;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Move flat `investments` records under `investments.items` and store every percent as a fraction",
+    migrate: (plan, report) => {
+      const investments = plan.investments;
+      if (isRecord(investments) && !("items" in investments)) {
+        const items: Record<string, unknown> = {};
+        Object.entries(investments).forEach(([name, record]) => {
+          if (isRecord(record)) items[name] = record;
+          else report(`investments.${name}: could not be moved to investments.items.${name} because it is not an account record; it was removed.`);
+        });
+        plan.investments = { items };
+      }
+
+      PERCENT_FIELDS.plan.forEach(field => wholePercentToFraction(plan, field));
+      (Object.keys(PERCENT_FIELDS.items) as CollectionKey[]).forEach(key => {
+        const items = itemsOf(plan, key);
+        if (!items) return;
+        Object.values(items).forEach(item => {
+          if (isRecord(item)) PERCENT_FIELDS.items[key]!.forEach(field => wholePercentToFraction(item, field));
+        });
+      });
+    },
+  },
+  {
+    version: 2,
+    description: "Progressive tax engine and account tax treatments",
+    migrate: (plan, report) => {
+      const items = itemsOf(plan, "investments");
+      if (items) {
+        Object.values(items).forEach(item => {
+          // Accounts created before treatments existed were taxed as fully taxable withdrawals.
+          if (isRecord(item) && !item.taxTreatment) item.taxTreatment = "Traditional";
+        });
+      }
+      const flatRate = Number(plan.taxPercentage);
+      if (!plan.filingStatus && plan.taxPercentage !== undefined && plan.taxPercentage !== "" && isFinite(flatRate)) {
+        report(`taxPercentage: the flat ${+(flatRate * 100).toFixed(2)}% tax rate cannot be converted to tax brackets and is still used; choose a Tax Filing Status and State of Residence on the Planning step to switch to the progressive tax engine.`);
+      }
+    },
+  },
+];
+
+export interface MigrationResult {
+  model: RetirementModel;
+  /** Anything the pipeline could not migrate or had to drop, as user-facing messages. */
+  issues: string[];
+  /** True when the loaded plan differs from what is stored and should be saved back. */
+  changed: boolean;
+}
+
+/**
+ * Upgrade a stored plan to CURRENT_SCHEMA_VERSION and validate it.
+ * Plans saved before versioning are treated as version 0. Plans from a newer version of the
+ * app are returned untouched (with an issue) rather than downgraded.
+ */
+export function migrateRetirementModel(stored: unknown): MigrationResult {
+  if (stored === undefined || stored === null) return { model: emptyRetirementModel(), issues: [], changed: false };
+  if (!isRecord(stored)) {
+    return { ...validateRetirementModel(stored), changed: true };
+  }
+
+  const storedVersion = typeof stored.schemaVersion === "number" ? stored.schemaVersion : 0;
+  if (storedVersion > CURRENT_SCHEMA_VERSION) {
+    return {
+      model: stored as unknown as RetirementModel,
+      issues: [`The saved plan uses schema version ${storedVersion}, which is newer than this app supports (${CURRENT_SCHEMA_VERSION}); it was loaded without changes.`],
+      changed: false,
+    };
+  }
+
+  const issues: string[] = [];
+  const plan = structuredClone(stored);
+  MIGRATIONS.filter(m => m.version > storedVersion).forEach(m => {
+    m.migrate(plan, issue => issues.push(issue));
+    plan.schemaVersion = m.version;
+  });
+
+  const validated = validateRetirementModel(plan);
+  return {
+    model: validated.model,
+    issues: [...issues, ...validated.issues],
+    changed: storedVersion !== CURRENT_SCHEMA_VERSION || validated.issues.length > 0,
+  };
+}
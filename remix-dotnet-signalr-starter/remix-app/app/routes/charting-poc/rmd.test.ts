@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { requiredMinimumDistribution, rmdStartAge } from "./rmd";
+
+describe("rmdStartAge", () => {
+  it("follows the SECURE 2.0 birth-year cutoffs", () => {
+    expect(rmdStartAge(1950)).toBe(72);
+    expect(rmdStartAge(1951)).toBe(73);
+    expect(rmdStartAge(1959)).toBe(73);
+    expect(rmdStartAge(1960)).toBe(75);
+  });
+});
+
+describe("requiredMinimumDistribution", () => {
+  it("requires nothing before the start age", () => {
+    expect(requiredMinimumDistribution(500000, 1955, 2027)).toBe(0);
+  });
+
+  it("divides the prior year-end balance by the distribution period", () => {
+    expect(requiredMinimumDistribution(265000, 1955, 2028)).toBeCloseTo(10000, 6);
+    expect(requiredMinimumDistribution(246000, 1960, 2035)).toBeCloseTo(10000, 6);
+  });
+
+  it("uses the final period past the table and nothing for an empty account", () => {
+    expect(requiredMinimumDistribution(20000, 1900, 2030)).toBeCloseTo(10000, 6);
+    expect(requiredMinimumDistribution(0, 1950, 2030)).toBe(0);
+  });
+});
@@ -0,0 +1,30 @@
+// Required Minimum Distribution rules for tax-deferred (Traditional) accounts.
+
+/** IRS Uniform Lifetime Table (effective 2022): age => distribution period. */
+const UNIFORM_LIFETIME_TABLE: Record<number, number> = {
+  72: 27.4, 73: 26.5, 74: 25.5, 75: 24.6, 76: 23.7, 77: 22.9, 78: 22.0, 79: 21.1,
+  80: 20.2, 81: 19.4, 82: 18.5, 83: 17.7, 84: 16.8, 85: 16.0, 86: 15.2, 87: 14.4,
+  88: 13.7, 89: 12.9, 90: 12.2, 91: 11.5, 92: 10.8, 93: 10.1, 94: 9.5, 95: 8.9,
+  96: 8.4, 97: 7.8, 98: 7.3, 99: 6.8, 100: 6.4, 101: 6.0, 102: 5.6, 103: 5.2,
+  104: 4.9, 105: 4.6, 106: 4.3, 107: 4.1, 108: 3.9, 109: 3.7, 110: 3.5, 111: 3.4,
+  112: 3.3, 113: 3.1, 114: 3.0, 115: 2.9, 116: 2.8, 117: 2.7, 118: 2.5, 119: 2.3,
+};
+const FINAL_DISTRIBUTION_PERIOD = 2.0; // age 120+
+
+/** Age RMDs begin under SECURE 2.0 for a given birth year. */
+export function rmdStartAge(birthYear: number): number {
+  if (birthYear >= 1960) return 75;
+  if (birthYear >= 1951) return 73;
+  return 72;
+}
+
+/**
+ * Required distribution for a year: prior year-end balance divided by the distribution
+ * period for the age reached that year. Zero before the RMD start age.
+ */
+export function requiredMinimumDistribution(priorYearEndBalance: number, birthYear: number, year: number): number {
+  const age = year - birthYear;
+  if (age < rmdStartAge(birthYear) || priorYearEndBalance <= 0) return 0;
+  const period = UNIFORM_LIFETIME_TABLE[age] ?? (age < 72 ? UNIFORM_LIFETIME_TABLE[72] : FINAL_DISTRIBUTION_PERIOD);
+  return priorYearEndBalance / period;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+import { applyScenarioEdit, overridesFrom, scenarioModelFrom } from "./scenarios";
+
+const base: RetirementModel = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  retireDate: "01/01/2035",
+  inflationPercentage: 0.03,
+  wages: { items: { Salary: { annual: 90000, raise: 0.02 }, Bonus: { annual: 5000 } } },
+  investments: { items: { IRA: { balance: 100000, rate: 0.06 } } },
+};
+
+const edited: RetirementModel = {
+  ...base,
+  retireDate: "01/01/2033",
+  wages: { items: { Salary: { annual: 90000 } } },
+  investments: { items: { IRA: { balance: 100000, rate: 0.05 }, Brokerage: { balance: 20000 } } },
+};
+
+describe("overridesFrom", () => {
+  it("keeps changed leaves, new items and removals by path", () => {
+    expect(overridesFrom(base, edited)).toEqual({
+      "retireDate": "01/01/2033",
+      "wages.items.Salary.raise": null,
+      "wages.items.Bonus": null,
+      "investments.items.IRA.rate": 0.05,
+      "investments.items.Brokerage": { balance: 20000 },
+    });
+  });
+
+  it("never overrides the keys shared by every scenario", () => {
+    expect(overridesFrom(base, { ...base, schemaVersion: 99, activeScenario: "Retire Early" })).toEqual({});
+  });
+});
+
+describe("scenarioModelFrom", () => {
+  const withScenario = (plan: RetirementModel): RetirementModel => ({
+    ...plan,
+    scenarios: { items: { "Retire Early": { overrides: overridesFrom(base, edited) } } },
+  });
+
+  it("round-trips an edited plan through its overrides", () => {
+    const { scenarios, ...effective } = scenarioModelFrom(withScenario(base), "Retire Early");
+    expect(effective).toEqual(edited);
+    expect(scenarios).toEqual(withScenario(base).scenarios);
+  });
+
+  it("follows later base plan changes to fields it does not override", () => {
+    const later = withScenario({ ...base, inflationPercentage: 0.025 });
+    expect(scenarioModelFrom(later, "Retire Early").inflationPercentage).toBe(0.025);
+  });
+
+  it("returns the base plan for unknown scenarios", () => {
+    const plan = withScenario(base);
+    expect(scenarioModelFrom(plan, "Missing")).toBe(plan);
+    expect(scenarioModelFrom(plan, undefined)).toBe(plan);
+  });
+});
+
+describe("applyScenarioEdit", () => {
+  it("stores a scenario edit as overrides and leaves the base plan alone", () => {
+    const plan: RetirementModel = { ...base, activeScenario: "Retire Early", scenarios: { items: { "Retire Early": {} } } };
+    const effective = scenarioModelFrom(plan, "Retire Early");
+    const saved = applyScenarioEdit(plan, { ...effective, retireDate: "01/01/2032" });
+    expect(saved.retireDate).toBe(base.retireDate);
+    expect(saved.scenarios?.items?.["Retire Early"]?.overrides).toEqual({ retireDate: "01/01/2032" });
+  });
+
+  it("keeps edits of the base plan as they are", () => {
+    expect(applyScenarioEdit(base, edited)).toBe(edited);
+  });
+});
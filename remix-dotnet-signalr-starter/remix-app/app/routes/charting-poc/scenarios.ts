@@ -0,0 +1,184 @@
+// Named what-if scenarios.
+// A scenario is the base plan plus a set of overrides keyed by dot path, so it follows every later
+// change to the base plan except for the fields it overrides. While a scenario is being edited the
+// wizard works on its effective plan and each edit is turned back into overrides.
+
+import { buildSpendingComparisonChart, buildTotalInvestmentAggregates, depletionYearOf, type ProjectionOptions } from "./chart-builders";
+import { extractYear, planStartYear, type Granularity } from "./projection-engine";
+import { validateRetirementModel, type RetirementModel } from "./retirement-model";
+
+export const BASE_SCENARIO = "Base Plan";
+
+/** Keys that belong to the plan file rather than to a scenario; they are never overridden. */
+const SHARED_KEYS = ["schemaVersion", "scenarios", "activeScenario"] as const satisfies readonly (keyof RetirementModel)[];
+
+const isSharedKey = (key: string): boolean => (SHARED_KEYS as readonly string[]).includes(key);
+
+const isPlainObject = (val: unknown): val is Record<string, unknown> =>
+  typeof val === "object" && val !== null && !Array.isArray(val);
+
+/** Names of the plan's scenarios, sorted. */
+export const scenarioNamesFrom = (base: RetirementModel): string[] =>
+  Object.keys(base.scenarios?.items ?? {}).sort();
+
+/** The scenario being edited, or undefined for the base plan (including a deleted scenario). */
+export const activeScenarioFrom = (base: RetirementModel): string | undefined =>
+  base.activeScenario && base.scenarios?.items?.[base.activeScenario] ? base.activeScenario : undefined;
+
+/**
+ * Effective plan of a scenario: the base plan with its overrides applied (a null override removes
+ * the field). Overrides are re-validated because they bypass the base plan's validation.
+ * Unknown names (and the base plan itself) return the base plan.
+ */
+export function scenarioModelFrom(base: RetirementModel, scenarioName: string | undefined): RetirementModel {
+  const overrides = scenarioName ? base.scenarios?.items?.[scenarioName]?.overrides : undefined;
+  if (!overrides || !Object.keys(overrides).length) return base;
+  const plan: Record<string, unknown> = { ...structuredClone(base) };
+  Object.keys(overrides).sort().forEach(path => {
+    const keys = path.split(".");
+    if (isSharedKey(keys[0])) return;
+    let target = plan;
+    for (const key of keys.slice(0, -1)) {
+      const existing = target[key];
+      const next = isPlainObject(existing) ? existing : {};
+      target[key] = next;
+      target = next;
+    }
+    const last = keys[keys.length - 1];
+    if (overrides[path] === null) delete target[last];
+    else target[last] = structuredClone(overrides[path]);
+  });
+  return validateRetirementModel(plan).model;
+}
+
+/**
+ * Overrides that turn `base` into `edited`: changed leaves by path, whole objects for items the
+ * base plan does not have, and null for fields or items the scenario removes.
+ */
+export function overridesFrom(base: RetirementModel, edited: RetirementModel): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+  const visit = (from: Record<string, unknown>, to: Record<string, unknown>, prefix: string): void => {
+    new Set([...Object.keys(from), ...Object.keys(to)]).forEach(key => {
+      if (!prefix && isSharedKey(key)) return;
+      const path = `${prefix}${key}`;
+      const before = from[key];
+      const after = to[key];
+      if (after === undefined) {
+        if (before !== undefined) overrides[path] = null;
+      } else if (isPlainObject(after) && isPlainObject(before)) {
+        visit(before, after, `${path}.`);
+      } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+        overrides[path] = structuredClone(after);
+      }
+    });
+  };
+  visit({ ...base }, { ...edited }, "");
+  return overrides;
+}
+
+/**
+ * Store an edit of the effective plan being worked on. Edits of the base plan are kept as they are;
+ * edits of a scenario become that scenario's overrides and leave the base plan's fields untouched.
+ */
+export function applyScenarioEdit(base: RetirementModel, edited: RetirementModel): RetirementModel {
+  const active = activeScenarioFrom(base);
+  if (!active) return edited;
+  const shared: Pick<RetirementModel, typeof SHARED_KEYS[number]> = {
+    schemaVersion: edited.schemaVersion,
+    scenarios: edited.scenarios,
+    activeScenario: edited.activeScenario,
+  };
+  const scenarios = shared.scenarios ?? base.scenarios;
+  if (!scenarios?.items?.[active]) return { ...base, ...shared };
+  return {
+    ...base,
+    ...shared,
+    scenarios: {
+      ...scenarios,
+      items: { ...scenarios.items, [active]: { ...scenarios.items[active], overrides: overridesFrom(base, edited) } },
+    },
+  };
+}
+
+export interface ScenarioSummary {
+  name: string;
+  retireDate?: string;
+  /** Real after-tax monthly income in the first full calendar year after retiring. */
+  firstRetirementIncome?: number;
+  /** Lowest real after-tax monthly income from that year to the end of the plan. */
+  lowestRetirementIncome?: number;
+  endingRealBalance?: number;
+  /** Year the total balance first ran out, if it did. */
+  depletionYear?: number;
+  /** First year spending exceeds real after-tax income (plans with expenses only). */
+  firstShortfallYear?: number;
+  /** Paths the scenario overrides (empty for the base plan). */
+  changedFields: string[];
+}
+
+/**
+ * Overlay of the Summary's real income and real balance series for several scenarios, plus the
+ * key figures of each. Series are named after their scenario; the x range covers every scenario.
+ */
+export function buildScenarioComparison(
+  base: RetirementModel,
+  scenarioNames: string[],
+  options?: ProjectionOptions
+): {
+  beginYear: number;
+  endYear: number;
+  granularity: Granularity;
+  incomeSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[];
+  balanceSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[];
+  summaries: ScenarioSummary[];
+} {
+  const granularity = options?.granularity ?? 'year';
+  let beginYear = Infinity;
+  let endYear = -Infinity;
+  const incomeSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[] = [];
+  const balanceSeries: { name: string; values: Record<number, number | null>; strokeWidth?: number; strokeDasharray?: string }[] = [];
+  const summaries = scenarioNames.map((name, i): ScenarioSummary => {
+    const isBase = name === BASE_SCENARIO;
+    const model = isBase ? base : scenarioModelFrom(base, name);
+    const agg = buildTotalInvestmentAggregates(model, options);
+    beginYear = Math.min(beginYear, agg.beginYear);
+    endYear = Math.max(endYear, agg.endYear);
+    const style = { strokeWidth: isBase ? 3 : 2, strokeDasharray: i === 0 ? undefined : ['6 3', '2 3', '8 3 2 3'][(i - 1) % 3] };
+    const realIncome = agg.withdrawalSeries[2]?.values ?? {};
+    const realBalance = agg.balanceSeries[2]?.values ?? {};
+    if (agg.withdrawalSeries[2]) incomeSeries.push({ name, values: realIncome, ...style });
+    if (agg.balanceSeries[2]) balanceSeries.push({ name, values: realBalance, ...style });
+
+    // Key figures always use yearly points, whatever the chart detail.
+    const yearlyOptions: ProjectionOptions = { ...options, granularity: 'year' };
+    const yearlyAgg = granularity === 'year' ? agg : buildTotalInvestmentAggregates(model, yearlyOptions);
+    const yearly = {
+      realIncome: yearlyAgg.withdrawalSeries[2]?.values ?? {},
+      realBalance: yearlyAgg.balanceSeries[2]?.values ?? {},
+      nominalBalance: yearlyAgg.balanceSeries[0]?.values ?? {},
+    };
+    const firstYear = Math.max(agg.beginYear, (extractYear(model.retireDate) ?? agg.beginYear - 1) + 1);
+    const retirementIncome: number[] = [];
+    for (let y = firstYear; y <= agg.endYear; y++) retirementIncome.push(yearly.realIncome[y] ?? 0);
+    const spending = buildSpendingComparisonChart(model, yearlyOptions, yearlyAgg);
+    return {
+      name,
+      retireDate: model.retireDate,
+      firstRetirementIncome: retirementIncome[0],
+      lowestRetirementIncome: retirementIncome.length ? Math.min(...retirementIncome) : undefined,
+      endingRealBalance: yearly.realBalance[agg.endYear] ?? undefined,
+      depletionYear: depletionYearOf(yearly.nominalBalance, agg.beginYear, agg.endYear),
+      firstShortfallYear: spending.shortfallYears[0],
+      changedFields: isBase ? [] : Object.keys(base.scenarios?.items?.[name]?.overrides ?? {}).sort(),
+    };
+  });
+  const startYear = planStartYear(base);
+  return {
+    beginYear: isFinite(beginYear) ? beginYear : startYear,
+    endYear: isFinite(endYear) ? endYear : startYear,
+    granularity,
+    incomeSeries,
+    balanceSeries,
+    summaries,
+  };
+}
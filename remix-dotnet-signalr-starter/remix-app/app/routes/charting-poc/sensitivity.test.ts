@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+import { buildTornadoChart, runSensitivityAnalysis, sensitivityOutcomeFor } from "./sensitivity";
+
+const plan: RetirementModel = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  asOfDate: "01/01/2030",
+  retireDate: "01/01/2035",
+  yearsAfterRetire: 15,
+  taxPercentage: 0.2,
+  inflationPercentage: 0.03,
+  investments: { items: { IRA: { balance: 400000, rate: 0.06, withdrawalDate: "01/01/2035", withdrawalRate: 0.04 } } },
+};
+
+describe("runSensitivityAnalysis", () => {
+  it("nudges only the assumptions the plan uses", () => {
+    const { rows } = runSensitivityAnalysis(plan);
+    expect(rows.map(r => r.assumption)).toEqual(["Return Rate", "Inflation", "Tax Rate", "Withdrawal Rate", "Retirement Date", "Years After Retirement"]);
+    expect(rows[0]).toMatchObject({ downLabel: "-1%", upLabel: "+1%" });
+    expect(rows[4]).toMatchObject({ downLabel: "1 year earlier", upLabel: "1 year later" });
+  });
+
+  it("moves the outcome the expected way", () => {
+    const { base, rows } = runSensitivityAnalysis(plan, { rateStep: 0.02 });
+    const row = (name: string) => rows.find(r => r.assumption === name)!;
+    expect(row("Return Rate").down.endingRealBalance).toBeLessThan(base.endingRealBalance);
+    expect(row("Return Rate").up.endingRealBalance).toBeGreaterThan(base.endingRealBalance);
+    expect(row("Tax Rate").up.averageRealIncome).toBeLessThan(base.averageRealIncome);
+    expect(row("Withdrawal Rate").up.averageRealIncome).toBeGreaterThan(base.averageRealIncome);
+    expect(row("Return Rate").upLabel).toBe("+2%");
+  });
+
+  it("matches a direct projection of the base plan", () => {
+    expect(runSensitivityAnalysis(plan).base).toEqual(sensitivityOutcomeFor(plan));
+  });
+});
+
+describe("buildTornadoChart", () => {
+  it("orders rows by swing, largest first", () => {
+    const chart = buildTornadoChart(runSensitivityAnalysis(plan), "endingRealBalance", "Ending Balance");
+    const swings = chart.rows.map(r => Math.abs(r.high - r.low));
+    expect(swings).toEqual(swings.slice().sort((a, b) => b - a));
+  });
+});
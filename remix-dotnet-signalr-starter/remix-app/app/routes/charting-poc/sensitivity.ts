@@ -0,0 +1,183 @@
+// Sensitivity analysis.
+// Nudges one assumption at a time down and up, reruns the aggregate projection and ranks the
+// assumptions by how far they move the end-of-plan real balance and the average real income.
+
+import { buildTotalInvestmentAggregates, type ProjectionOptions } from "./chart-builders";
+import { extractYear, householdEndYear } from "./projection-engine";
+import { withRetirementShift } from "./goal-seek";
+import { WITHDRAWAL_STRATEGY_DEFINITIONS, withdrawalStrategyFrom } from "./withdrawal-strategies";
+import type { InvestmentItem, RetirementModel, SensitivitySettings, WageItem } from "./retirement-model";
+
+/** Rate assumptions move by one percentage point either way unless the plan says otherwise. */
+export const DEFAULT_RATE_STEP = 0.01;
+/** Date and horizon assumptions move by one year either way unless the plan says otherwise. */
+export const DEFAULT_YEAR_STEP = 1;
+
+export const SENSITIVITY_ASSUMPTIONS = [
+  "Return Rate",
+  "Inflation",
+  "Tax Rate",
+  "Raise",
+  "Withdrawal Rate",
+  "Retirement Date",
+  "Years After Retirement",
+] as const;
+
+export type SensitivityAssumption = typeof SENSITIVITY_ASSUMPTIONS[number];
+
+export interface SensitivityOutcome {
+  /** Total real (after tax & inflation) balance at the end of the plan. */
+  endingRealBalance: number;
+  /** Average real after-tax monthly income over the years after retirement. */
+  averageRealIncome: number;
+}
+
+export interface SensitivityRow {
+  assumption: SensitivityAssumption;
+  /** How the assumption was moved, e.g. "-1%" / "+1%" or "1 year earlier" / "1 year later". */
+  downLabel: string;
+  upLabel: string;
+  down: SensitivityOutcome;
+  up: SensitivityOutcome;
+}
+
+export interface SensitivityResult {
+  base: SensitivityOutcome;
+  /** Assumptions the plan uses, in SENSITIVITY_ASSUMPTIONS order. */
+  rows: SensitivityRow[];
+}
+
+interface Nudge {
+  /** Plan (and projection options) with the assumption moved `direction` steps. */
+  apply: (model: RetirementModel, direction: -1 | 1) => { model: RetirementModel; options?: ProjectionOptions };
+  labels: [string, string];
+}
+
+const num = (val: unknown): number => Number(val) || 0;
+
+const stepFrom = (val: unknown, fallback: number): number => {
+  const n = val === undefined || val === '' ? fallback : Number(val);
+  return isFinite(n) && n > 0 ? n : fallback;
+};
+
+const formatStep = (rate: number): string => `${+(rate * 100).toFixed(2)}%`;
+
+const yearsLabel = (years: number): string => `${years} year${years === 1 ? "" : "s"}`;
+
+/** Plan with `field` of every item in `items` (that has a value for it) moved by `delta`. */
+function withItemsShifted<T extends object>(items: Record<string, T> | undefined, field: keyof T, delta: number): Record<string, T> {
+  return Object.fromEntries(Object.entries(items ?? {}).map(([name, item]) =>
+    [name, item[field] === undefined || item[field] === '' ? item : { ...item, [field]: num(item[field]) + delta }]));
+}
+
+const usesWithdrawalRate = (item: InvestmentItem): boolean =>
+  WITHDRAWAL_STRATEGY_DEFINITIONS[withdrawalStrategyFrom(item.withdrawalStrategy)].fields.some(f => f.field === "withdrawalRate")
+  && num(item.withdrawalRate) > 0;
+
+/** The nudges that apply to this plan; assumptions it does not use are left out. */
+function nudgesFor(model: RetirementModel, rateStep: number, yearStep: number): Partial<Record<SensitivityAssumption, Nudge>> {
+  const investments: Record<string, InvestmentItem> = model.investments?.items ?? {};
+  const wages: Record<string, WageItem> = model.wages?.items ?? {};
+  const rateLabels: [string, string] = [`-${formatStep(rateStep)}`, `+${formatStep(rateStep)}`];
+  const nudges: Partial<Record<SensitivityAssumption, Nudge>> = {};
+  if (Object.keys(investments).length) {
+    nudges["Return Rate"] = {
+      apply: (m, d) => ({ model: { ...m, investments: { ...m.investments, items: withItemsShifted(m.investments?.items, "rate", d * rateStep) } } }),
+      labels: rateLabels,
+    };
+  }
+  nudges["Inflation"] = {
+    apply: (m, d) => ({ model: { ...m, inflationPercentage: num(m.inflationPercentage) + d * rateStep } }),
+    labels: rateLabels,
+  };
+  nudges["Tax Rate"] = {
+    apply: (m, d) => ({ model: m, options: { taxRateAdjustment: d * rateStep } }),
+    labels: rateLabels,
+  };
+  if (Object.values(wages).some(w => w.raise !== undefined && w.raise !== '')) {
+    nudges["Raise"] = {
+      apply: (m, d) => ({ model: { ...m, wages: { ...m.wages, items: withItemsShifted(m.wages?.items, "raise", d * rateStep) } } }),
+      labels: rateLabels,
+    };
+  }
+  if (Object.values(investments).some(usesWithdrawalRate)) {
+    nudges["Withdrawal Rate"] = {
+      apply: (m, d) => {
+        const items = Object.fromEntries(Object.entries(m.investments?.items ?? {}).map(([name, item]) =>
+          [name, usesWithdrawalRate(item) ? { ...item, withdrawalRate: Math.max(0, num(item.withdrawalRate) + d * rateStep) } : item]));
+        return { model: { ...m, investments: { ...m.investments, items } } };
+      },
+      labels: rateLabels,
+    };
+  }
+  if (extractYear(model.retireDate) !== undefined) {
+    nudges["Retirement Date"] = {
+      apply: (m, d) => ({ model: withRetirementShift(m, d * yearStep * 12) }),
+      labels: [`${yearsLabel(yearStep)} earlier`, `${yearsLabel(yearStep)} later`],
+    };
+  }
+  if (model.yearsAfterRetire !== undefined && model.yearsAfterRetire !== '' && !num(model.planningHorizonYears) && householdEndYear(model) === undefined) {
+    nudges["Years After Retirement"] = {
+      apply: (m, d) => ({ model: { ...m, yearsAfterRetire: Math.max(0, num(m.yearsAfterRetire) + d * yearStep) } }),
+      labels: [`${yearsLabel(yearStep)} fewer`, `${yearsLabel(yearStep)} more`],
+    };
+  }
+  return nudges;
+}
+
+/** End-of-plan real balance and average real income of one projection (always yearly points). */
+export function sensitivityOutcomeFor(model: RetirementModel, options?: ProjectionOptions): SensitivityOutcome {
+  const agg = buildTotalInvestmentAggregates(model, { ...options, granularity: 'year' });
+  const realIncome = agg.withdrawalSeries[2]?.values ?? {};
+  const firstYear = Math.max(agg.beginYear, (extractYear(model.retireDate) ?? agg.beginYear - 1) + 1);
+  let total = 0;
+  let years = 0;
+  for (let y = firstYear; y <= agg.endYear; y++) {
+    total += realIncome[y] ?? 0;
+    years++;
+  }
+  return {
+    endingRealBalance: agg.balanceSeries[2]?.values[agg.endYear] ?? 0,
+    averageRealIncome: years ? total / years : 0,
+  };
+}
+
+/** Run every applicable nudge in both directions. */
+export function runSensitivityAnalysis(model: RetirementModel, settings: SensitivitySettings = model.sensitivity ?? {}): SensitivityResult {
+  const rateStep = stepFrom(settings.rateStep, DEFAULT_RATE_STEP);
+  const yearStep = Math.round(stepFrom(settings.yearStep, DEFAULT_YEAR_STEP)) || DEFAULT_YEAR_STEP;
+  const nudges = nudgesFor(model, rateStep, yearStep);
+  const rows = SENSITIVITY_ASSUMPTIONS.flatMap((assumption): SensitivityRow[] => {
+    const nudge = nudges[assumption];
+    if (!nudge) return [];
+    const [down, up] = ([-1, 1] as const).map(direction => {
+      const nudged = nudge.apply(model, direction);
+      return sensitivityOutcomeFor(nudged.model, nudged.options);
+    });
+    return [{ assumption, downLabel: nudge.labels[0], upLabel: nudge.labels[1], down, up }];
+  });
+  return { base: sensitivityOutcomeFor(model), rows };
+}
+
+/**
+ * Tornado chart props for one outcome: rows sorted by swing (largest first), each with the
+ * outcome after moving the assumption down and up.
+ */
+export function buildTornadoChart(result: SensitivityResult, outcome: keyof SensitivityOutcome, valueLabel: string): {
+  base: number;
+  valueLabel: string;
+  rows: { name: string; low: number; high: number; lowLabel: string; highLabel: string }[];
+} {
+  const swing = (row: SensitivityRow): number => Math.abs(row.up[outcome] - row.down[outcome]);
+  return {
+    base: result.base[outcome],
+    valueLabel,
+    rows: result.rows.slice().sort((a, b) => swing(b) - swing(a)).map(row => ({
+      name: row.assumption,
+      low: row.down[outcome],
+      high: row.up[outcome],
+      lowLabel: row.downLabel,
+      highLabel: row.upLabel,
+    })),
+  };
+}
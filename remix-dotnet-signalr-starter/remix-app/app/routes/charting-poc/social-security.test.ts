@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { claimingAdjustmentFactor, fullRetirementAge } from "./social-security";
+import { taxableSocialSecurity } from "./tax";
+
+describe("fullRetirementAge", () => {
+  it("steps up two months per birth year toward 67", () => {
+    expect(fullRetirementAge(1954)).toBe(66);
+    expect(fullRetirementAge(1957)).toBeCloseTo(66.5, 10);
+    expect(fullRetirementAge(1960)).toBe(67);
+  });
+});
+
+describe("claimingAdjustmentFactor", () => {
+  it("reduces early benefits in two monthly tiers", () => {
+    // 60 months early: 36 at 5/9% and 24 at 5/12%.
+    expect(claimingAdjustmentFactor(1960, 62)).toBeCloseTo(0.70, 10);
+    expect(claimingAdjustmentFactor(1960, 64)).toBeCloseTo(0.80, 10);
+  });
+
+  it("pays the full benefit at full retirement age and credits delay up to 70", () => {
+    expect(claimingAdjustmentFactor(1960, 67)).toBe(1);
+    expect(claimingAdjustmentFactor(1960, 70)).toBeCloseTo(1.24, 10);
+    expect(claimingAdjustmentFactor(1960, 75)).toBeCloseTo(1.24, 10);
+    expect(claimingAdjustmentFactor(1960, 55)).toBeCloseTo(0.70, 10);
+  });
+});
+
+describe("taxableSocialSecurity", () => {
+  it("taxes nothing while provisional income stays under the base", () => {
+    expect(taxableSocialSecurity(20000, 10000, "Single")).toBe(0);
+  });
+
+  it("taxes half the excess between the two thresholds", () => {
+    // Provisional 30,000: half of the 5,000 over 25,000.
+    expect(taxableSocialSecurity(20000, 20000, "Single")).toBeCloseTo(2500, 6);
+  });
+
+  it("taxes 85% of the excess above the adjusted base", () => {
+    // Provisional 35,000: 85% of 1,000 plus the 4,500 first tier.
+    expect(taxableSocialSecurity(20000, 25000, "Single")).toBeCloseTo(5350, 6);
+    expect(taxableSocialSecurity(20000, 200000, "Single")).toBeCloseTo(17000, 6);
+  });
+
+  it("uses the joint thresholds and taxes separate filers from the first dollar", () => {
+    expect(taxableSocialSecurity(20000, 20000, "Married Filing Jointly")).toBe(0);
+    expect(taxableSocialSecurity(20000, 0, "Married Filing Separately")).toBeCloseTo(8500, 6);
+  });
+});
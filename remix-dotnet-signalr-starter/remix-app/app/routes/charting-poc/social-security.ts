@@ -0,0 +1,40 @@
+// Social Security claiming-age rules (SSA retirement benefit formulas).
+
+export const EARLIEST_CLAIMING_AGE = 62;
+export const LATEST_CLAIMING_AGE = 70;
+
+/** Full retirement age in years (fractional months) for a given birth year. */
+export function fullRetirementAge(birthYear: number): number {
+  if (birthYear <= 1937) return 65;
+  if (birthYear <= 1942) return 65 + (birthYear - 1937) * 2 / 12;
+  if (birthYear <= 1954) return 66;
+  if (birthYear <= 1959) return 66 + (birthYear - 1954) * 2 / 12;
+  return 67;
+}
+
+/** Annual delayed retirement credit for claiming after full retirement age. */
+function delayedCreditPerYear(birthYear: number): number {
+  if (birthYear >= 1943) return 0.08;
+  if (birthYear >= 1941) return 0.075;
+  if (birthYear >= 1939) return 0.07;
+  if (birthYear >= 1937) return 0.065;
+  return 0.06;
+}
+
+/**
+ * Fraction of the primary insurance amount paid when claiming at `claimingAge`.
+ * - Early: 5/9 of 1% per month for the first 36 months, 5/12 of 1% per month beyond that.
+ * - Delayed: the birth-year credit per year (pro-rated monthly) until age 70.
+ */
+export function claimingAdjustmentFactor(birthYear: number, claimingAge: number): number {
+  const age = Math.min(Math.max(claimingAge, EARLIEST_CLAIMING_AGE), LATEST_CLAIMING_AGE);
+  const fra = fullRetirementAge(birthYear);
+  const monthsFromFra = Math.round((age - fra) * 12);
+  if (monthsFromFra < 0) {
+    const earlyMonths = -monthsFromFra;
+    const firstTier = Math.min(earlyMonths, 36);
+    const secondTier = earlyMonths - firstTier;
+    return 1 - firstTier * (5 / 9) / 100 - secondTier * (5 / 12) / 100;
+  }
+  return 1 + monthsFromFra * delayedCreditPerYear(birthYear) / 12;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { computeIncomeTax, NO_STATE_TAX, taxTreatmentFrom, type TaxProfile } from "./tax";
+
+const single: TaxProfile = { filingStatus: "Single", state: NO_STATE_TAX, inflationRate: 0 };
+
+describe("computeIncomeTax", () => {
+  it("taxes income above the standard deduction bracket by bracket", () => {
+    // 50,000 - 14,600 = 35,400 taxable: 10% of 11,600 + 12% of 23,800.
+    const tax = computeIncomeTax(50000, 2024, single);
+    expect(tax.federal).toBeCloseTo(1160 + 2856, 6);
+    expect(tax.state).toBe(0);
+    expect(tax.marginalRate).toBe(0.12);
+    expect(tax.effectiveRate).toBeCloseTo(4016 / 50000, 10);
+  });
+
+  it("owes nothing below the standard deduction and reports the first bracket as marginal", () => {
+    const tax = computeIncomeTax(10000, 2024, single);
+    expect(tax.total).toBe(0);
+    expect(tax.marginalRate).toBe(0.10);
+  });
+
+  it("reports a zero effective rate without income", () => {
+    expect(computeIncomeTax(0, 2024, single).effectiveRate).toBe(0);
+    expect(computeIncomeTax(-5000, 2024, single).total).toBe(0);
+  });
+
+  it("indexes thresholds and deductions with inflation from the table year", () => {
+    const indexed = computeIncomeTax(50000 * 1.03, 2025, { ...single, inflationRate: 0.03 });
+    expect(indexed.federal).toBeCloseTo(4016 * 1.03, 6);
+  });
+
+  it("doubles state thresholds and deduction for joint filers", () => {
+    // Federal: 100,000 - 29,200 = 70,800 taxable. Arizona: 2.5% above a doubled 14,600 deduction.
+    const tax = computeIncomeTax(100000, 2024, { filingStatus: "Married Filing Jointly", state: "Arizona", inflationRate: 0 });
+    expect(tax.federal).toBeCloseTo(2320 + 5712, 6);
+    expect(tax.state).toBeCloseTo(1770, 6);
+    expect(tax.marginalRate).toBeCloseTo(0.145, 10);
+  });
+
+  it("leaves states without a table untaxed", () => {
+    expect(computeIncomeTax(80000, 2024, { ...single, state: "Atlantis" }).state).toBe(0);
+  });
+});
+
+describe("taxTreatmentFrom", () => {
+  it("reads plans saved before treatments existed as Traditional", () => {
+    expect(taxTreatmentFrom(undefined)).toBe("Traditional");
+    expect(taxTreatmentFrom("Roth")).toBe("Roth");
+    expect(taxTreatmentFrom("HSA")).toBe("Traditional");
+  });
+});
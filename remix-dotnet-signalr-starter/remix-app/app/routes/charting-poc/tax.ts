@@ -0,0 +1,247 @@
+// Progressive income tax engine used by the projection builders.
+// Bracket tables are plain data so they can be extended or replaced without touching the math.
+
+import { oneOf } from "./choices";
+
+export type Bracket = { upTo: number; rate: number };
+
+export interface TaxTable {
+  brackets: Bracket[];
+  standardDeduction: number;
+}
+
+export const FILING_STATUSES = [
+  "Single",
+  "Married Filing Jointly",
+  "Married Filing Separately",
+  "Head of Household",
+] as const;
+
+export type FilingStatus = typeof FILING_STATUSES[number];
+
+/** Year the bundled tables describe; thresholds are inflation-indexed from here. */
+export const TAX_TABLE_YEAR = 2024;
+
+/** Federal ordinary income brackets and standard deductions (tax year 2024). */
+export const FEDERAL_TAX_TABLES: Record<FilingStatus, TaxTable> = {
+  "Single": {
+    standardDeduction: 14600,
+    brackets: [
+      { upTo: 11600, rate: 0.10 },
+      { upTo: 47150, rate: 0.12 },
+      { upTo: 100525, rate: 0.22 },
+      { upTo: 191950, rate: 0.24 },
+      { upTo: 243725, rate: 0.32 },
+      { upTo: 609350, rate: 0.35 },
+      { upTo: Infinity, rate: 0.37 },
+    ]
+  },
+  "Married Filing Jointly": {
+    standardDeduction: 29200,
+    brackets: [
+      { upTo: 23200, rate: 0.10 },
+      { upTo: 94300, rate: 0.12 },
+      { upTo: 201050, rate: 0.22 },
+      { upTo: 383900, rate: 0.24 },
+      { upTo: 487450, rate: 0.32 },
+      { upTo: 731200, rate: 0.35 },
+      { upTo: Infinity, rate: 0.37 },
+    ]
+  },
+  "Married Filing Separately": {
+    standardDeduction: 14600,
+    brackets: [
+      { upTo: 11600, rate: 0.10 },
+      { upTo: 47150, rate: 0.12 },
+      { upTo: 100525, rate: 0.22 },
+      { upTo: 191950, rate: 0.24 },
+      { upTo: 243725, rate: 0.32 },
+      { upTo: 365600, rate: 0.35 },
+      { upTo: Infinity, rate: 0.37 },
+    ]
+  },
+  "Head of Household": {
+    standardDeduction: 21900,
+    brackets: [
+      { upTo: 16550, rate: 0.10 },
+      { upTo: 63100, rate: 0.12 },
+      { upTo: 100500, rate: 0.22 },
+      { upTo: 191950, rate: 0.24 },
+      { upTo: 243700, rate: 0.32 },
+      { upTo: 609350, rate: 0.35 },
+      { upTo: Infinity, rate: 0.37 },
+    ]
+  },
+};
+
+/** Option shown for residents of states without a bundled table. */
+export const NO_STATE_TAX = "None / Not Listed";
+
+const flat = (rate: number, standardDeduction = 0): TaxTable => ({ standardDeduction, brackets: [{ upTo: Infinity, rate }] });
+const NONE: TaxTable = flat(0);
+
+/**
+ * State tables for a single filer (tax year 2024, simplified). Joint filers use doubled
+ * thresholds and deduction, which matches most states closely enough for planning.
+ */
+export const STATE_TAX_TABLES: Record<string, TaxTable> = {
+  [NO_STATE_TAX]: NONE,
+  "Alaska": NONE,
+  "Arizona": flat(0.025, 14600),
+  "California": {
+    standardDeduction: 5540,
+    brackets: [
+      { upTo: 10756, rate: 0.01 },
+      { upTo: 25499, rate: 0.02 },
+      { upTo: 40245, rate: 0.04 },
+      { upTo: 55866, rate: 0.06 },
+      { upTo: 70606, rate: 0.08 },
+      { upTo: 360659, rate: 0.093 },
+      { upTo: 432787, rate: 0.103 },
+      { upTo: 721314, rate: 0.113 },
+      { upTo: Infinity, rate: 0.123 },
+    ]
+  },
+  "Colorado": flat(0.044, 14600),
+  "Florida": NONE,
+  "Georgia": flat(0.0539, 12000),
+  "Illinois": flat(0.0495, 2775),
+  "Indiana": flat(0.0305, 1000),
+  "Kentucky": flat(0.04, 3160),
+  "Massachusetts": flat(0.05, 4400),
+  "Michigan": flat(0.0425, 5600),
+  "Nevada": NONE,
+  "New Hampshire": NONE,
+  "New Jersey": {
+    standardDeduction: 1000,
+    brackets: [
+      { upTo: 20000, rate: 0.014 },
+      { upTo: 35000, rate: 0.0175 },
+      { upTo: 40000, rate: 0.035 },
+      { upTo: 75000, rate: 0.05525 },
+      { upTo: 500000, rate: 0.0637 },
+      { upTo: 1000000, rate: 0.0897 },
+      { upTo: Infinity, rate: 0.1075 },
+    ]
+  },
+  "New York": {
+    standardDeduction: 8000,
+    brackets: [
+      { upTo: 8500, rate: 0.04 },
+      { upTo: 11700, rate: 0.045 },
+      { upTo: 13900, rate: 0.0525 },
+      { upTo: 80650, rate: 0.055 },
+      { upTo: 215400, rate: 0.06 },
+      { upTo: 1077550, rate: 0.0685 },
+      { upTo: 5000000, rate: 0.0965 },
+      { upTo: 25000000, rate: 0.103 },
+      { upTo: Infinity, rate: 0.109 },
+    ]
+  },
+  "North Carolina": flat(0.045, 12750),
+  "Ohio": {
+    standardDeduction: 0,
+    brackets: [
+      { upTo: 26050, rate: 0 },
+      { upTo: 100000, rate: 0.0275 },
+      { upTo: Infinity, rate: 0.035 },
+    ]
+  },
+  "Pennsylvania": flat(0.0307),
+  "South Dakota": NONE,
+  "Tennessee": NONE,
+  "Texas": NONE,
+  "Utah": flat(0.0465, 876),
+  "Washington": NONE,
+  "Wyoming": NONE,
+};
+
+export const STATES = Object.keys(STATE_TAX_TABLES).sort((a, b) =>
+  a === NO_STATE_TAX ? -1 : b === NO_STATE_TAX ? 1 : a.localeCompare(b));
+
+export interface TaxProfile {
+  filingStatus: FilingStatus;
+  state: string;
+  inflationRate: number;
+}
+
+export interface TaxBreakdown {
+  federal: number;
+  state: number;
+  total: number;
+  /** total / gross income (0 when there is no income). */
+  effectiveRate: number;
+  /** Combined federal + state rate on the next dollar of income. */
+  marginalRate: number;
+}
+
+export const isFilingStatus = (val: unknown): val is FilingStatus =>
+  typeof val === 'string' && (FILING_STATUSES as readonly string[]).includes(val);
+
+/** Scale a table's thresholds and deduction by a factor (inflation indexing / joint filers). */
+function scaleTable(table: TaxTable, factor: number): TaxTable {
+  if (factor === 1) return table;
+  return {
+    standardDeduction: table.standardDeduction * factor,
+    brackets: table.brackets.map(b => ({ upTo: b.upTo * factor, rate: b.rate })),
+  };
+}
+
+/** Tax owed on an amount already net of deductions, and the rate of the bracket it ends in. */
+function applyBrackets(taxable: number, brackets: Bracket[]): { tax: number; marginalRate: number } {
+  let tax = 0;
+  let lower = 0;
+  for (const b of brackets) {
+    if (taxable > lower) tax += (Math.min(taxable, b.upTo) - lower) * b.rate;
+    if (taxable < b.upTo) return { tax, marginalRate: b.rate };
+    lower = b.upTo;
+  }
+  return { tax, marginalRate: brackets[brackets.length - 1]?.rate ?? 0 };
+}
+
+/**
+ * Compute federal + state income tax on a year's combined gross taxable income.
+ * Thresholds and deductions are indexed with inflation from TAX_TABLE_YEAR.
+ */
+export function computeIncomeTax(grossAnnualIncome: number, year: number, profile: TaxProfile): TaxBreakdown {
+  const indexFactor = Math.pow(1 + profile.inflationRate, year - TAX_TABLE_YEAR);
+  const federalTable = scaleTable(FEDERAL_TAX_TABLES[profile.filingStatus], indexFactor);
+  const stateBase = STATE_TAX_TABLES[profile.state] ?? NONE;
+  const stateTable = scaleTable(stateBase, indexFactor * (profile.filingStatus === "Married Filing Jointly" ? 2 : 1));
+
+  const income = Math.max(0, grossAnnualIncome);
+  const federal = applyBrackets(Math.max(0, income - federalTable.standardDeduction), federalTable.brackets);
+  const state = applyBrackets(Math.max(0, income - stateTable.standardDeduction), stateTable.brackets);
+  const total = federal.tax + state.tax;
+  return {
+    federal: federal.tax,
+    state: state.tax,
+    total,
+    effectiveRate: income > 0 ? total / income : 0,
+    marginalRate: federal.marginalRate + state.marginalRate,
+  };
+}
+
+/**
+ * Portion of a year's Social Security benefits subject to income tax, using the IRS
+ * provisional-income test (50% / 85% tiers; thresholds are fixed by statute, not indexed).
+ */
+export function taxableSocialSecurity(annualBenefits: number, otherAnnualIncome: number, filingStatus: FilingStatus): number {
+  if (annualBenefits <= 0) return 0;
+  const [base, adjustedBase] = filingStatus === "Married Filing Jointly" ? [32000, 44000]
+    : filingStatus === "Married Filing Separately" ? [0, 0]
+      : [25000, 34000];
+  const provisional = Math.max(0, otherAnnualIncome) + annualBenefits / 2;
+  if (provisional <= base) return 0;
+  const firstTier = Math.min(annualBenefits / 2, (Math.min(provisional, adjustedBase) - base) / 2);
+  if (provisional <= adjustedBase) return firstTier;
+  return Math.min(annualBenefits * 0.85, (provisional - adjustedBase) * 0.85 + Math.min(firstTier, (adjustedBase - base) / 2));
+}
+
+/** How an investment account's withdrawals are taxed. */
+export const TAX_TREATMENTS = ["Traditional", "Roth", "Taxable"] as const;
+
+export type TaxTreatment = typeof TAX_TREATMENTS[number];
+
+/** Accounts default to Traditional (fully taxable withdrawals), matching plans created before treatments existed. */
+export const taxTreatmentFrom = oneOf(TAX_TREATMENTS, "Traditional");
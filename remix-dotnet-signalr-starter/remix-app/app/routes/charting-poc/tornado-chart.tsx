@@ -0,0 +1,106 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import type { Formatter, NameType, Payload, ValueType } from 'recharts/types/component/DefaultTooltipContent';
+import React, { useMemo } from 'react';
+import { defaultCurrencyFormatter } from './chart';
+
+type TornadoRow = {
+  name: string;
+  /** Outcome after moving the input down / up. */
+  low: number;
+  high: number;
+  /** How the input was moved, e.g. "-1%" / "+1%". */
+  lowLabel?: string;
+  highLabel?: string;
+};
+
+export interface TornadoChartProps {
+  /** Outcome with every input at its planned value; bars grow out from it. */
+  base: number;
+  /** Rows in display order, top first (usually largest swing first). */
+  rows: TornadoRow[];
+  currency?: string;
+  valueLabel?: string;
+  height?: number;
+  maxWidth?: number | string;
+}
+
+/** Horizontal range bars from the base outcome to the outcome with each input lowered and raised. */
+export default function TornadoChart({
+  base,
+  rows,
+  currency = 'USD',
+  valueLabel,
+  height,
+  maxWidth,
+}: TornadoChartProps) {
+  // Range bars take a [from, to] tuple per row, ordered low to high whichever way the outcome moved.
+  const data = useMemo(() => rows.map((r) => ({
+    name: r.name,
+    lowered: [Math.min(base, r.low), Math.max(base, r.low)] as [number, number],
+    raised: [Math.min(base, r.high), Math.max(base, r.high)] as [number, number],
+    low: r.low,
+    high: r.high,
+    lowLabel: r.lowLabel,
+    highLabel: r.highLabel,
+  })), [rows, base]);
+
+  const xDomain = useMemo<[number, number]>(() => {
+    const vals = [base, ...rows.flatMap((r) => [r.low, r.high])].filter((v) => isFinite(v));
+    const min = Math.min(...vals);
+    const max = Math.max(...vals);
+    const pad = (max - min || Math.abs(max) || 1) * 0.05;
+    return [Math.floor(min - pad), Math.ceil(max + pad)];
+  }, [rows, base]);
+
+  const formatter = useMemo(() => defaultCurrencyFormatter(currency), [currency]);
+
+  const tooltipFormatter: Formatter<ValueType, NameType> = (value, name, item: Payload<ValueType, NameType>) => {
+    const row: typeof data[number] | undefined = item.payload;
+    if (!row) return value;
+    return name === 'Lowered'
+      ? [`${formatter.format(row.low)}${row.lowLabel ? ` (${row.lowLabel})` : ''}`, name]
+      : [`${formatter.format(row.high)}${row.highLabel ? ` (${row.highLabel})` : ''}`, name];
+  };
+
+  const outerStyle: React.CSSProperties = { width: '100%', height: height ?? Math.max(160, 60 + rows.length * 44), borderRadius: 8, padding: 8 };
+  if (maxWidth !== undefined) outerStyle.maxWidth = maxWidth;
+
+  return (
+    <div style={outerStyle}>
+      <ResponsiveContainer>
+        <BarChart data={data} layout="vertical" barGap={-16} barSize={16} margin={{ top: 10, right: 24, left: 8, bottom: 8 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" horizontal={false} />
+          <XAxis
+            type="number"
+            domain={xDomain}
+            tick={{ fontSize: 12 }}
+            tickFormatter={(n: number) => formatter.format(n)}
+            tickLine={false}
+            axisLine={{ stroke: 'var(--color-border)' }}
+          />
+          <YAxis
+            type="category"
+            dataKey="name"
+            width={150}
+            tick={{ fontSize: 12 }}
+            tickLine={false}
+            axisLine={{ stroke: 'var(--color-border)' }}
+          />
+          <Tooltip
+            formatter={tooltipFormatter}
+            labelFormatter={(label: string) => `${label}${valueLabel ? ` • ${valueLabel}` : ''}`}
+            contentStyle={{ background: 'var(--color-surface)', border: '1px solid var(--color-border)', borderRadius: 6, color: 'var(--color-text)', boxShadow: '0 4px 12px rgba(0,0,0,.08)', padding: '8px 10px' }}
+            itemStyle={{ color: 'var(--color-text)', fontSize: 12, lineHeight: 1.2 }}
+            labelStyle={{ color: 'var(--color-primary)', fontSize: 11, fontWeight: 500, marginBottom: 4 }}
+            cursor={{ fill: 'var(--color-border)', opacity: 0.3 }}
+            wrapperStyle={{ outline: 'none' }}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <ReferenceLine x={base} stroke="var(--color-text)" strokeDasharray="4 3" />
+          <Bar dataKey="lowered" name="Lowered" fill="#dc2626" fillOpacity={0.75} isAnimationActive={false} />
+          <Bar dataKey="raised" name="Raised" fill="#059669" fillOpacity={0.75} isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { createTimeline, projectInvestmentLedgers, toMonthIndex } from "./projection-engine";
+import { CURRENT_SCHEMA_VERSION, type RetirementModel } from "./retirement-model";
+import { allocateWithdrawals } from "./withdrawal-sequencing";
+
+const accounts = [
+  { taxTreatment: "Roth" as const, available: 5000 },
+  { taxTreatment: "Traditional" as const, available: 3000 },
+  { taxTreatment: "Taxable" as const, available: 1000 },
+];
+
+describe("allocateWithdrawals", () => {
+  it("empties each tax treatment before moving to the next", () => {
+    expect(allocateWithdrawals(2500, accounts, "Taxable, Tax-Deferred, Roth")).toEqual([0, 1500, 1000]);
+    expect(allocateWithdrawals(4500, accounts, "Tax-Deferred, Taxable, Roth")).toEqual([500, 3000, 1000]);
+    expect(allocateWithdrawals(2500, accounts, "Roth, Taxable, Tax-Deferred")).toEqual([2500, 0, 0]);
+  });
+
+  it("draws in proportion to what each account has", () => {
+    const draws = allocateWithdrawals(4500, accounts, "Proportional");
+    expect(draws[0]).toBeCloseTo(2500, 6);
+    expect(draws[1]).toBeCloseTo(1500, 6);
+    expect(draws[2]).toBeCloseTo(500, 6);
+  });
+
+  it("never draws more than is available", () => {
+    expect(allocateWithdrawals(20000, accounts, "Taxable, Tax-Deferred, Roth")).toEqual([5000, 3000, 1000]);
+    expect(allocateWithdrawals(20000, accounts, "Proportional")).toEqual([5000, 3000, 1000]);
+    expect(allocateWithdrawals(-100, accounts, "Proportional")).toEqual([0, 0, 0]);
+  });
+});
+
+describe("projectInvestmentLedgers with a household income target", () => {
+  const plan: RetirementModel = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    asOfDate: "01/01/2030",
+    retireDate: "01/01/2030",
+    inflationPercentage: 0,
+    withdrawalPlan: { mode: "Household Income Target", targetMonthly: 5000, order: "Taxable, Tax-Deferred, Roth" },
+    annuities: { items: { Pension: { monthly: 2000, startDate: "01/01/2030" } } },
+    investments: {
+      items: {
+        Brokerage: { balance: 6000, rate: 0, taxTreatment: "Taxable" },
+        IRA: { balance: 100000, rate: 0, taxTreatment: "Traditional", withdrawalRate: 0.5 },
+      },
+    },
+  };
+  const ledgers = projectInvestmentLedgers(plan, createTimeline(toMonthIndex(2030, 1), 2030));
+
+  it("draws the target less other income in the chosen order, ignoring each account's own strategy", () => {
+    expect(ledgers.Brokerage.withdrawal.slice(0, 3)).toEqual([3000, 3000, 0]);
+    expect(ledgers.IRA.withdrawal.slice(0, 3)).toEqual([0, 0, 3000]);
+  });
+});
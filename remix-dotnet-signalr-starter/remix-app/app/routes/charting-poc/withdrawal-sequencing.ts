@@ -0,0 +1,60 @@
+// Household withdrawal sequencing.
+// Instead of each account withdrawing by its own strategy, the household sets a target real
+// monthly income and the shortfall left by other income is drawn from the accounts in order.
+
+import { oneOf } from "./choices";
+import type { TaxTreatment } from "./tax";
+
+export const WITHDRAWAL_PLAN_MODES = ["Per Account", "Household Income Target"] as const;
+
+export type WithdrawalPlanMode = typeof WITHDRAWAL_PLAN_MODES[number];
+
+/** Plans default to each account's own withdrawal strategy, the only mode before sequencing existed. */
+export const withdrawalPlanModeFrom = oneOf(WITHDRAWAL_PLAN_MODES, "Per Account");
+
+export const WITHDRAWAL_ORDERS = [
+  "Taxable, Tax-Deferred, Roth",
+  "Tax-Deferred, Taxable, Roth",
+  "Roth, Taxable, Tax-Deferred",
+  "Proportional",
+] as const;
+
+export type WithdrawalOrder = typeof WITHDRAWAL_ORDERS[number];
+
+/** Taxable first lets tax-deferred and Roth money keep growing; it is the usual rule of thumb. */
+export const withdrawalOrderFrom = oneOf(WITHDRAWAL_ORDERS, "Taxable, Tax-Deferred, Roth");
+
+const TREATMENT_SEQUENCES: Record<Exclude<WithdrawalOrder, "Proportional">, TaxTreatment[]> = {
+  "Taxable, Tax-Deferred, Roth": ["Taxable", "Traditional", "Roth"],
+  "Tax-Deferred, Taxable, Roth": ["Traditional", "Taxable", "Roth"],
+  "Roth, Taxable, Tax-Deferred": ["Roth", "Taxable", "Traditional"],
+};
+
+/**
+ * Split a month's shortfall across accounts. Sequenced orders empty one tax treatment before
+ * moving to the next (accounts of the same treatment in the order given); Proportional draws from
+ * every account in proportion to what it has available. Draws never exceed `available`.
+ */
+export function allocateWithdrawals(
+  shortfall: number,
+  accounts: { taxTreatment: TaxTreatment; available: number }[],
+  order: WithdrawalOrder
+): number[] {
+  const draws = accounts.map(() => 0);
+  if (shortfall <= 0) return draws;
+  if (order === "Proportional") {
+    const total = accounts.reduce((sum, a) => sum + Math.max(0, a.available), 0);
+    if (total <= 0) return draws;
+    const share = Math.min(1, shortfall / total);
+    return accounts.map(a => Math.max(0, a.available) * share);
+  }
+  let remaining = shortfall;
+  TREATMENT_SEQUENCES[order].forEach(treatment => {
+    accounts.forEach((account, i) => {
+      if (account.taxTreatment !== treatment || remaining <= 0) return;
+      draws[i] = Math.min(remaining, Math.max(0, account.available));
+      remaining -= draws[i];
+    });
+  });
+  return draws;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { createPriceIndex } from "./projection-engine";
+import type { InvestmentItem } from "./retirement-model";
+import { createWithdrawalSchedule } from "./withdrawal-strategies";
+
+const prices = createPriceIndex(2030, () => 0.03);
+const scheduleFor = (item: InvestmentItem) => createWithdrawalSchedule(item, prices).annualWithdrawalFor;
+
+describe("Guyton-Klinger Guardrails", () => {
+  const guardrails: InvestmentItem = { withdrawalStrategy: "Guyton-Klinger Guardrails", withdrawalRate: 0.05 };
+
+  it("raises the first year's amount by inflation while the rate stays inside the band", () => {
+    const annualFor = scheduleFor(guardrails);
+    expect(annualFor({ year: 2030, balance: 1000000, yearsRemaining: 30 })).toBeCloseTo(50000, 6);
+    expect(annualFor({ year: 2031, balance: 1000000, priorYearReturn: 0.05, yearsRemaining: 29 })).toBeCloseTo(51500, 6);
+  });
+
+  it("skips the raise after a losing year and cuts spending above the upper guardrail", () => {
+    const annualFor = scheduleFor(guardrails);
+    annualFor({ year: 2030, balance: 1000000, yearsRemaining: 30 });
+    // 50,000 of 800,000 is 6.25%, above 5% * 1.2.
+    expect(annualFor({ year: 2031, balance: 800000, priorYearReturn: -0.2, yearsRemaining: 29 })).toBeCloseTo(45000, 6);
+  });
+
+  it("stops cutting in the final 15 years", () => {
+    const annualFor = scheduleFor(guardrails);
+    annualFor({ year: 2030, balance: 1000000, yearsRemaining: 16 });
+    expect(annualFor({ year: 2031, balance: 800000, priorYearReturn: -0.2, yearsRemaining: 15 })).toBeCloseTo(50000, 6);
+  });
+
+  it("raises spending below the lower guardrail", () => {
+    const annualFor = scheduleFor(guardrails);
+    annualFor({ year: 2030, balance: 1000000, yearsRemaining: 30 });
+    expect(annualFor({ year: 2031, balance: 1500000, priorYearReturn: 0.5, yearsRemaining: 29 })).toBeCloseTo(51500 * 1.1, 6);
+  });
+
+  it("uses the entered band and adjustment", () => {
+    const annualFor = scheduleFor({ ...guardrails, guardrailPercentage: 0.5, guardrailAdjustment: 0.25 });
+    annualFor({ year: 2030, balance: 1000000, yearsRemaining: 30 });
+    expect(annualFor({ year: 2031, balance: 800000, priorYearReturn: -0.2, yearsRemaining: 29 })).toBeCloseTo(50000, 6);
+    expect(annualFor({ year: 2032, balance: 600000, priorYearReturn: -0.2, yearsRemaining: 28 })).toBeCloseTo(37500, 6);
+  });
+});
+
+describe("createWithdrawalSchedule", () => {
+  it("treats plans without a strategy as a fixed percentage of the balance", () => {
+    const schedule = createWithdrawalSchedule({ withdrawalRate: 0.04 }, prices);
+    expect(schedule.strategy).toBe("Fixed Percentage");
+    expect(schedule.annualWithdrawalFor({ year: 2031, balance: 500000, yearsRemaining: 10 })).toBeCloseTo(20000, 6);
+    expect(schedule.annualWithdrawalFor({ year: 2032, balance: -100, yearsRemaining: 9 })).toBe(0);
+  });
+
+  it("is not configured without the strategy's required input", () => {
+    expect(createWithdrawalSchedule({ withdrawalStrategy: "Fixed Real Amount" }, prices).isConfigured).toBe(false);
+  });
+
+  it("raises the 4% rule's first amount by inflation regardless of the balance", () => {
+    const annualFor = scheduleFor({ withdrawalStrategy: "Inflation-Adjusted 4% Rule", withdrawalRate: 0.04 });
+    annualFor({ year: 2030, balance: 1000000, yearsRemaining: 30 });
+    expect(annualFor({ year: 2031, balance: 10, yearsRemaining: 29 })).toBeCloseTo(41200, 6);
+  });
+
+  it("spends a VPW balance down over the years left", () => {
+    expect(scheduleFor({ withdrawalStrategy: "Variable Percentage (VPW)", vpwReturn: 0 })({ year: 2030, balance: 100000, yearsRemaining: 10 })).toBeCloseTo(10000, 6);
+    expect(scheduleFor({ withdrawalStrategy: "Variable Percentage (VPW)", vpwReturn: 0.05 })({ year: 2030, balance: 100000, yearsRemaining: 1 })).toBeCloseTo(105000, 6);
+  });
+
+  it("states a fixed real amount in first-year dollars", () => {
+    const annualFor = scheduleFor({ withdrawalStrategy: "Fixed Real Amount", withdrawalMonthly: 1000 });
+    expect(annualFor({ year: 2032, balance: 0, yearsRemaining: 5 })).toBeCloseTo(12000 * 1.03 * 1.03, 6);
+  });
+});
@@ -0,0 +1,154 @@
+// Withdrawal strategies for investment accounts.
+// Each strategy decides the planned withdrawal for a year from the start-of-year balance;
+// the projection engine then pays it out monthly, caps it at the balance and enforces RMDs.
+
+import type { InvestmentItem } from "./retirement-model";
+import type { PriceIndex } from "./projection-engine";
+import { oneOf } from "./choices";
+
+export const WITHDRAWAL_STRATEGIES = [
+  "Fixed Percentage",
+  "Inflation-Adjusted 4% Rule",
+  "Guyton-Klinger Guardrails",
+  "Variable Percentage (VPW)",
+  "Fixed Real Amount",
+  "Fixed Dollar Target",
+] as const;
+
+export type WithdrawalStrategy = typeof WITHDRAWAL_STRATEGIES[number];
+
+/** Accounts default to a fixed percentage of balance, the only rule before strategies existed. */
+export const withdrawalStrategyFrom = oneOf(WITHDRAWAL_STRATEGIES, "Fixed Percentage");
+
+/** Guyton-Klinger defaults: guardrails 20% either side of the initial rate, 10% spending adjustments. */
+export const DEFAULT_GUARDRAIL_PERCENTAGE = 0.2;
+export const DEFAULT_GUARDRAIL_ADJUSTMENT = 0.1;
+/** Guyton-Klinger stops cutting spending in the final 15 years of the plan. */
+const CAPITAL_PRESERVATION_CUTOFF_YEARS = 15;
+
+/** One investment form field a strategy needs. */
+export interface WithdrawalStrategyField {
+  name: string;
+  field: keyof InvestmentItem;
+  type: 'currency' | 'percent';
+  required: boolean;
+}
+
+/** What a strategy sees at the start of each withdrawal year. */
+export interface WithdrawalYear {
+  year: number;
+  /** Balance at the start of the year (prior year-end, or the as-of balance in the first projected year). */
+  balance: number;
+  /** Investment return over the prior year (net of flows); undefined until a whole year has been projected. */
+  priorYearReturn?: number;
+  /** Years left in the plan, including this one (at least 1). */
+  yearsRemaining: number;
+}
+
+interface WithdrawalStrategyDefinition {
+  description: string;
+  fields: WithdrawalStrategyField[];
+  isConfigured: (item: InvestmentItem) => boolean;
+  /**
+   * Create the yearly calculator for one projection run. It is called once per year, in order,
+   * from the first withdrawal year on, so strategies can carry state from year to year.
+   */
+  create: (item: InvestmentItem, prices: PriceIndex) => (y: WithdrawalYear) => number;
+}
+
+const num = (val: unknown): number => Number(val) || 0;
+const pctOr = (val: unknown, fallback: number): number => val === undefined || val === '' ? fallback : num(val);
+
+const initialRateField: WithdrawalStrategyField = { name: "Initial Withdrawal Rate (%)", field: "withdrawalRate", type: "percent", required: true };
+
+export const WITHDRAWAL_STRATEGY_DEFINITIONS: Record<WithdrawalStrategy, WithdrawalStrategyDefinition> = {
+  "Fixed Percentage": {
+    description: "Withdraw the same percentage of the balance at the start of every year.",
+    fields: [{ name: "Annual Withdrawal Percentage (%)", field: "withdrawalRate", type: "percent", required: true }],
+    isConfigured: item => num(item.withdrawalRate) > 0,
+    create: item => ({ balance }) => balance * num(item.withdrawalRate),
+  },
+  "Inflation-Adjusted 4% Rule": {
+    description: "Withdraw a percentage of the balance in the first year, then the same amount raised by inflation every year.",
+    fields: [initialRateField],
+    isConfigured: item => num(item.withdrawalRate) > 0,
+    create: (item, prices) => {
+      let previous: number | undefined;
+      return ({ year, balance }) => {
+        previous = previous === undefined ? balance * num(item.withdrawalRate) : previous * (1 + prices.rateFor(year - 1));
+        return previous;
+      };
+    },
+  },
+  "Guyton-Klinger Guardrails": {
+    description: "Start like the 4% rule; skip the inflation raise after a losing year, cut spending when the withdrawal rate rises above the upper guardrail and raise it when the rate falls below the lower guardrail.",
+    fields: [
+      initialRateField,
+      { name: `Guardrail Band (%, default ${DEFAULT_GUARDRAIL_PERCENTAGE * 100})`, field: "guardrailPercentage", type: "percent", required: false },
+      { name: `Spending Adjustment (%, default ${DEFAULT_GUARDRAIL_ADJUSTMENT * 100})`, field: "guardrailAdjustment", type: "percent", required: false },
+    ],
+    isConfigured: item => num(item.withdrawalRate) > 0,
+    create: (item, prices) => {
+      const initialRate = num(item.withdrawalRate);
+      const band = pctOr(item.guardrailPercentage, DEFAULT_GUARDRAIL_PERCENTAGE);
+      const adjustment = pctOr(item.guardrailAdjustment, DEFAULT_GUARDRAIL_ADJUSTMENT);
+      let previous: number | undefined;
+      return ({ year, balance, priorYearReturn, yearsRemaining }) => {
+        if (previous === undefined || balance <= 0) {
+          previous = previous === undefined ? balance * initialRate : previous;
+          return previous;
+        }
+        let amount = previous;
+        // Inflation rule: no raise after a losing year that left the rate above its starting point.
+        const frozen = priorYearReturn !== undefined && priorYearReturn < 0 && amount / balance > initialRate;
+        if (!frozen) amount *= 1 + prices.rateFor(year - 1);
+        const rate = amount / balance;
+        if (rate > initialRate * (1 + band) && yearsRemaining > CAPITAL_PRESERVATION_CUTOFF_YEARS) amount *= 1 - adjustment;
+        else if (rate < initialRate * (1 - band)) amount *= 1 + adjustment;
+        previous = amount;
+        return amount;
+      };
+    },
+  },
+  "Variable Percentage (VPW)": {
+    description: "Withdraw the percentage that would spend the balance down evenly over the remaining plan years at the expected real return.",
+    fields: [{ name: "Expected Real Return (%)", field: "vpwReturn", type: "percent", required: true }],
+    isConfigured: () => true,
+    create: item => {
+      const rate = num(item.vpwReturn);
+      return ({ balance, yearsRemaining }) => {
+        const pct = rate === 0 ? 1 / yearsRemaining : rate / (1 - Math.pow(1 + rate, -yearsRemaining));
+        return balance * pct;
+      };
+    },
+  },
+  "Fixed Real Amount": {
+    description: "Withdraw a fixed amount in today's dollars, raised by inflation every year.",
+    fields: [{ name: "$ / month (today's dollars)", field: "withdrawalMonthly", type: "currency", required: true }],
+    isConfigured: item => num(item.withdrawalMonthly) > 0,
+    create: (item, prices) => ({ year }) => num(item.withdrawalMonthly) * 12 * prices.levelFor(year),
+  },
+  "Fixed Dollar Target": {
+    description: "Withdraw the same dollar amount every month, with no inflation adjustment.",
+    fields: [{ name: "$ / month", field: "withdrawalMonthly", type: "currency", required: true }],
+    isConfigured: item => num(item.withdrawalMonthly) > 0,
+    create: item => () => num(item.withdrawalMonthly) * 12,
+  },
+};
+
+/** Planned-withdrawal calculator for one investment in one projection run. */
+export function createWithdrawalSchedule(item: InvestmentItem, prices: PriceIndex): {
+  strategy: WithdrawalStrategy;
+  /** False when the strategy's inputs are missing, so the account never distributes by plan. */
+  isConfigured: boolean;
+  annualWithdrawalFor: (y: WithdrawalYear) => number;
+} {
+  const strategy = withdrawalStrategyFrom(item.withdrawalStrategy);
+  const definition = WITHDRAWAL_STRATEGY_DEFINITIONS[strategy];
+  const annualFor = definition.create(item, prices);
+  return {
+    strategy,
+    isConfigured: definition.isConfigured(item),
+    annualWithdrawalFor: y => Math.max(0, annualFor(y)),
+  };
+}